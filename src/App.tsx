@@ -15,7 +15,12 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          {/* One Index instance serves every view, so switching tabs keeps its state */}
+          <Route element={<Index />}>
+            <Route path="/" />
+            <Route path="/upload" />
+            <Route path="/w/:workspaceId/:tab?" />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -1,140 +1,338 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle, Copy, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import Papa from 'papaparse';
+import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
-
-interface CSVData {
-  latitude: number;
-  longitude: number;
-  region: string;
-  depth: number;
-  salinity: number;
-  temperature: number;
-  ph: number;
-  dissolved_oxygen: number;
-  fish_population: number;
-  plankton: number;
-  coral_coverage: number;
-  timestamp: string;
-  date: string;
-}
+import { OceanDataset, REQUIRED_COLUMNS } from '@/lib/dataset';
+import { isNetCDFFile, parseArgoNetCDF } from '@/lib/argo';
+import { ColumnMapping } from '@/lib/columnMapping';
+import { ColumnMappingWizard } from '@/components/ColumnMappingWizard';
+import { ValidationReport } from '@/lib/validation';
+import { ValidationReview } from '@/components/ValidationReview';
+import { ParseJob, ParseProgress, formatBytes, isCancelled, parseCSVInWorker, peekCSV } from '@/lib/csvStream';
+import { MergeResult, mergeDatasets, removeSources, tagSource } from '@/lib/merge';
 
 interface CSVUploadProps {
-  onDataParsed: (data: CSVData[]) => void;
+  onDataParsed: (dataset: OceanDataset) => void;
+  // Dataset already loaded; new files can be appended to it.
+  currentDataset?: OceanDataset | null;
 }
 
-const REQUIRED_COLUMNS = [
-  'latitude', 'longitude', 'region', 'depth', 'salinity', 'temperature',
-  'ph', 'dissolved_oxygen', 'fish_population', 'plankton', 'coral_coverage',
-  'timestamp', 'date'
-];
-
-export const CSVUpload: React.FC<CSVUploadProps> = ({ onDataParsed }) => {
-  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
+export const CSVUpload: React.FC<CSVUploadProps> = ({ onDataParsed, currentDataset }) => {
+  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'mapping' | 'reviewing' | 'duplicate' | 'success' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [fileName, setFileName] = useState<string>('');
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [sampleRows, setSampleRows] = useState<Record<string, unknown>[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ dataset: OceanDataset; report: ValidationReport } | null>(null);
+  const [queue, setQueue] = useState<File[]>([]);
+  const [imported, setImported] = useState<OceanDataset[]>([]);
+  const [failures, setFailures] = useState<string[]>([]);
+  const [batchSize, setBatchSize] = useState(0);
+  const [appendToCurrent, setAppendToCurrent] = useState(true);
+  // A file that is already a source of the dataset, waiting for replace or skip
+  const [duplicateFile, setDuplicateFile] = useState<File | null>(null);
+  const parseJobRef = useRef<ParseJob | null>(null);
+  const startedFileRef = useRef<File | null>(null);
+  const batchActiveRef = useRef(false);
+  // Files already in what this batch merges into, read when each file starts
+  const knownSourcesRef = useRef<string[]>([]);
+  knownSourcesRef.current = [
+    ...(appendToCurrent ? currentDataset?.sources ?? [] : []),
+    ...imported.flatMap(dataset => dataset.sources ?? []),
+  ].map(source => source.fileName);
+  // Sources of the current dataset to take out before merging in their new copies
+  const replacedSourcesRef = useRef(new Set<string>());
 
-  const validateCSVStructure = (data: any[]): boolean => {
-    if (!data || data.length === 0) {
-      setErrorMessage('CSV file is empty');
-      return false;
-    }
+  // Stop any running worker when the upload view goes away
+  useEffect(() => () => parseJobRef.current?.cancel(), []);
 
+  const hasRequiredColumns = (data: Record<string, unknown>[]): boolean => {
     const headers = Object.keys(data[0]);
-    const missingColumns = REQUIRED_COLUMNS.filter(col => !headers.includes(col));
-    
-    if (missingColumns.length > 0) {
-      setErrorMessage(`Missing required columns: ${missingColumns.join(', ')}`);
-      return false;
+    return REQUIRED_COLUMNS.every(col => headers.includes(col));
+  };
+
+  // Files of a batch are processed one at a time; each ends in finishFile or skipFile
+  const finishFile = useCallback((dataset: OceanDataset) => {
+    setPendingImport(null);
+    setImported(prev => [...prev, dataset]);
+    setQueue(prev => prev.slice(1));
+  }, []);
+
+  const skipFile = useCallback((failure?: string) => {
+    setPendingImport(null);
+    setPendingFile(null);
+    if (failure) {
+      setErrorMessage(failure);
+      setFailures(prev => [...prev, failure]);
     }
+    setQueue(prev => prev.slice(1));
+  }, []);
 
-    return true;
+  const cancelBatch = () => {
+    batchActiveRef.current = false;
+    replacedSourcesRef.current.clear();
+    setQueue([]);
+    setImported([]);
+    setUploadStatus('idle');
+    setFileName('');
   };
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const file = acceptedFiles[0];
-    
-    if (!file) {
-      setErrorMessage('No file selected');
-      setUploadStatus('error');
+  // Parse in a worker; rows with invalid cells go through the validation report before import
+  const startParsing = useCallback((file: File, mapping?: { mapping: ColumnMapping; extraColumns: string[] }) => {
+    setUploadStatus('uploading');
+    setProgress({ bytesRead: 0, totalBytes: file.size, rows: 0, issues: 0 });
+
+    const job = parseCSVInWorker({ file, mapping }, setProgress);
+    parseJobRef.current = job;
+
+    job.result
+      .then(({ dataset, report }) => {
+        const tagged = tagSource(dataset, file.name, 'csv');
+        if (report.issueCount === 0) {
+          finishFile(tagged);
+          return;
+        }
+        setPendingImport({ dataset: tagged, report });
+        setUploadStatus('reviewing');
+        toast.warning(`Found ${report.issueCount} issues in ${report.invalidRowCount} rows of ${file.name}`);
+      })
+      .catch((error: Error) => {
+        if (isCancelled(error)) {
+          batchActiveRef.current = false;
+          replacedSourcesRef.current.clear();
+          setQueue([]);
+          setImported([]);
+          setUploadStatus('idle');
+          setFileName('');
+          toast.info('Upload cancelled');
+          return;
+        }
+        skipFile(`${file.name}: ${error.message}`);
+        toast.error(`Failed to process ${file.name}`);
+      })
+      .finally(() => {
+        parseJobRef.current = null;
+        setProgress(null);
+      });
+  }, [finishFile, skipFile]);
+
+  const handleMappingConfirmed = (mapping: ColumnMapping, extraColumns: string[]) => {
+    if (pendingFile) startParsing(pendingFile, { mapping, extraColumns });
+    setPendingFile(null);
+  };
+
+  const handleMappingCancelled = () => {
+    const headers = Object.keys(sampleRows[0] ?? {});
+    skipFile(`${fileName}: missing required columns: ${REQUIRED_COLUMNS.filter(col => !headers.includes(col)).join(', ')}`);
+  };
+
+  const handleReviewCancelled = () => {
+    skipFile();
+  };
+
+  const importFile = useCallback((file: File) => {
+    setUploadStatus('uploading');
+    setFileName(file.name);
+
+    if (isNetCDFFile(file.name)) {
+      file.arrayBuffer()
+        .then(buffer => finishFile(tagSource(parseArgoNetCDF(buffer), file.name, 'netcdf')))
+        .catch((error: Error) => {
+          skipFile(`${file.name}: NetCDF parsing error: ${error.message}`);
+          toast.error(`Failed to process ${file.name}`);
+        });
+      return;
+    }
+
+    // Check the headers first; files that don't match go through the mapping wizard
+    peekCSV(file)
+      .then(rows => {
+        if (rows.length === 0) {
+          skipFile(`${file.name}: CSV file is empty`);
+          return;
+        }
+        if (!hasRequiredColumns(rows)) {
+          setSampleRows(rows);
+          setPendingFile(file);
+          setUploadStatus('mapping');
+          return;
+        }
+        startParsing(file);
+      })
+      .catch((error: Error) => {
+        skipFile(`${file.name}: CSV parsing error: ${error.message}`);
+      });
+  }, [finishFile, skipFile, startParsing]);
+
+  // A file imported before is only read again once the user says to replace it
+  const processFile = useCallback((file: File) => {
+    if (!knownSourcesRef.current.includes(file.name)) {
+      importFile(file);
+      return;
+    }
+    setFileName(file.name);
+    setDuplicateFile(file);
+    setUploadStatus('duplicate');
+  }, [importFile]);
+
+  const handleReplaceSource = () => {
+    if (!duplicateFile) return;
+    replacedSourcesRef.current.add(duplicateFile.name);
+    setImported(prev => prev.filter(dataset => !dataset.sources?.some(source => source.fileName === duplicateFile.name)));
+    setDuplicateFile(null);
+    importFile(duplicateFile);
+  };
+
+  const handleSkipSource = () => {
+    if (!duplicateFile) return;
+    toast.info(`Skipped ${duplicateFile.name}, which is already in the dataset`);
+    setDuplicateFile(null);
+    skipFile();
+  };
+
+  // Start the next file whenever the head of the queue changes
+  const currentFile = queue[0];
+  useEffect(() => {
+    if (!currentFile || startedFileRef.current === currentFile) return;
+    startedFileRef.current = currentFile;
+    processFile(currentFile);
+  }, [currentFile, processFile]);
+
+  // Merge everything once the last file of a batch is done
+  useEffect(() => {
+    if (queue.length > 0 || !batchActiveRef.current) return;
+    batchActiveRef.current = false;
+    startedFileRef.current = null;
+
+    if (imported.length === 0) {
+      setUploadStatus(failures.length > 0 ? 'error' : 'idle');
+      setFileName('');
       return;
     }
 
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      setErrorMessage('Only CSV files are allowed');
+    const base = appendToCurrent && currentDataset ? removeSources(currentDataset, replacedSourcesRef.current) : null;
+    replacedSourcesRef.current = new Set();
+    const parts = base ? [base, ...imported] : imported;
+    let merged: MergeResult;
+    try {
+      merged = mergeDatasets(parts);
+    } catch (error) {
+      setImported([]);
+      setErrorMessage(error instanceof Error ? error.message : 'The files could not be merged');
       setUploadStatus('error');
-      toast.error('Invalid file format');
       return;
     }
+    const { dataset, duplicates, differences } = merged;
+    setImported([]);
+    setUploadStatus('success');
+    onDataParsed(dataset);
 
-    setUploadStatus('uploading');
-    setFileName(file.name);
-    setErrorMessage('');
-
-    Papa.parse(file, {
-      complete: (results) => {
-        try {
-          if (results.errors.length > 0) {
-            setErrorMessage(`CSV parsing error: ${results.errors[0].message}`);
-            setUploadStatus('error');
-            return;
-          }
+    toast.success(`Imported ${dataset.records.length} records from ${dataset.sources?.length ?? imported.length} files`);
+    if (duplicates > 0) toast.info(`Removed ${duplicates} duplicate records (same position, time and depth)`);
+    differences.forEach(difference => toast.warning(`Column ${difference.column}: ${difference.detail}`));
+  }, [queue.length, imported, failures.length, appendToCurrent, currentDataset, onDataParsed]);
 
-          const parsedData = results.data as any[];
-          
-          if (!validateCSVStructure(parsedData)) {
-            setUploadStatus('error');
-            return;
-          }
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) {
+      setErrorMessage('No file selected');
+      setUploadStatus('error');
+      return;
+    }
 
-          // Convert string numbers to actual numbers
-          const processedData: CSVData[] = parsedData.map((row: any) => ({
-            ...row,
-            latitude: parseFloat(row.latitude),
-            longitude: parseFloat(row.longitude),
-            depth: parseFloat(row.depth),
-            salinity: parseFloat(row.salinity),
-            temperature: parseFloat(row.temperature),
-            ph: parseFloat(row.ph),
-            dissolved_oxygen: parseFloat(row.dissolved_oxygen),
-            fish_population: parseFloat(row.fish_population),
-            plankton: parseFloat(row.plankton),
-            coral_coverage: parseFloat(row.coral_coverage),
-          }));
-
-          setUploadStatus('success');
-          onDataParsed(processedData);
-          toast.success(`Successfully parsed ${processedData.length} records`);
-        } catch (error) {
-          setErrorMessage('Error processing CSV file');
-          setUploadStatus('error');
-          toast.error('Failed to process CSV file');
-        }
-      },
-      header: true,
-      skipEmptyLines: true,
-    });
-  }, [onDataParsed]);
+    const supported = acceptedFiles.filter(file => file.name.toLowerCase().endsWith('.csv') || isNetCDFFile(file.name));
+    const rejected = acceptedFiles
+      .filter(file => !supported.includes(file))
+      .map(file => `${file.name}: only CSV and Argo NetCDF (.nc) files are allowed`);
+    if (rejected.length > 0) toast.error('Invalid file format');
+
+    setErrorMessage(rejected[0] ?? '');
+    setFailures(rejected);
+    setImported([]);
+    setBatchSize(supported.length);
+    batchActiveRef.current = true;
+    setQueue(supported);
+  }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'text/csv': ['.csv'],
+      'application/x-netcdf': ['.nc'],
     },
-    multiple: false,
+    multiple: true,
+    disabled: queue.length > 0,
   });
 
+  if (uploadStatus === 'mapping' && sampleRows.length > 0) {
+    return (
+      <ColumnMappingWizard
+        fileName={fileName}
+        headers={Object.keys(sampleRows[0])}
+        sampleRow={sampleRows[0]}
+        onConfirm={handleMappingConfirmed}
+        onCancel={handleMappingCancelled}
+      />
+    );
+  }
+
+  if (uploadStatus === 'duplicate' && duplicateFile) {
+    return (
+      <Card className="p-6 bg-card shadow-ocean border-border">
+        <h3 className="text-xl font-bold text-foreground mb-1 flex items-center">
+          <Copy className="w-5 h-5 mr-2 text-primary" />
+          {duplicateFile.name} was imported before
+        </h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          Replace its records with the ones in this file, or skip the file and keep the dataset as it is.
+        </p>
+        <div className="flex justify-end gap-2">
+          <Button onClick={handleSkipSource} variant="outline">Skip</Button>
+          <Button onClick={handleReplaceSource} className="bg-gradient-ocean transition-smooth">Replace</Button>
+        </div>
+      </Card>
+    );
+  }
+
+  if (uploadStatus === 'reviewing' && pendingImport) {
+    return (
+      <ValidationReview
+        fileName={fileName}
+        dataset={pendingImport.dataset}
+        report={pendingImport.report}
+        onImport={finishFile}
+        onCancel={handleReviewCancelled}
+      />
+    );
+  }
+
   return (
     <Card className="p-8 bg-card shadow-ocean border-border transition-smooth">
       <div className="text-center mb-6">
         <h2 className="text-2xl font-bold text-foreground mb-2">Upload Oceanic Data</h2>
-        <p className="text-muted-foreground">Upload a CSV file with oceanic measurements and parameters</p>
+        <p className="text-muted-foreground">Upload CSV files or Argo profile/trajectory NetCDF files with oceanic measurements</p>
       </div>
 
+      {currentDataset && (
+        <div className="flex items-center gap-2 mb-4">
+          <Checkbox
+            id="append-to-current"
+            checked={appendToCurrent}
+            onCheckedChange={checked => setAppendToCurrent(checked === true)}
+            disabled={queue.length > 0}
+          />
+          <Label htmlFor="append-to-current" className="text-sm">
+            Append to the current dataset ({currentDataset.records.length} records from {currentDataset.sources?.length ?? 1} files)
+          </Label>
+        </div>
+      )}
+
       <div
         {...getRootProps()}
         className={`
@@ -164,31 +362,57 @@ export const CSVUpload: React.FC<CSVUploadProps> = ({ onDataParsed }) => {
 
           <div>
             {uploadStatus === 'uploading' ? (
-              <p className="text-lg font-medium text-foreground">Processing {fileName}...</p>
+              <p className="text-lg font-medium text-foreground">
+                Processing {fileName}{batchSize > 1 && ` (${batchSize - queue.length + 1} of ${batchSize})`}...
+              </p>
             ) : uploadStatus === 'success' ? (
-              <p className="text-lg font-medium text-success">Successfully uploaded {fileName}</p>
+              <p className="text-lg font-medium text-success">
+                Successfully uploaded {batchSize > 1 ? `${batchSize - failures.length} of ${batchSize} files` : fileName}
+              </p>
             ) : isDragActive ? (
-              <p className="text-lg font-medium text-primary">Drop the CSV file here</p>
+              <p className="text-lg font-medium text-primary">Drop the CSV or NetCDF files here</p>
             ) : (
               <p className="text-lg font-medium text-foreground">
-                Drag & drop a CSV file here, or <span className="text-primary">click to browse</span>
+                Drag & drop CSV or Argo .nc files here, or <span className="text-primary">click to browse</span>
               </p>
             )}
             
             {uploadStatus === 'idle' && (
               <p className="text-sm text-muted-foreground mt-2">
-                Required columns: latitude, longitude, region, depth, salinity, temperature, ph, dissolved_oxygen, fish_population, plankton, coral_coverage, timestamp, date
+                Required CSV columns: {REQUIRED_COLUMNS.join(', ')}
               </p>
             )}
           </div>
         </div>
       </div>
 
-      {uploadStatus === 'error' && (
+      {uploadStatus === 'uploading' && progress && (
+        <div className="mt-6 space-y-2">
+          <Progress value={progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : 0} />
+          <div className="flex justify-between items-center text-sm text-muted-foreground">
+            <span>
+              {formatBytes(progress.bytesRead)} of {formatBytes(progress.totalBytes)} · {progress.rows.toLocaleString()} rows
+              {progress.issues > 0 && ` · ${progress.issues.toLocaleString()} issues`}
+            </span>
+            <Button onClick={() => (parseJobRef.current ? parseJobRef.current.cancel() : cancelBatch())} variant="ghost" size="sm">
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {(uploadStatus === 'error' || (uploadStatus === 'success' && failures.length > 0)) && (
         <Alert className="mt-6 border-destructive">
           <AlertCircle className="h-4 w-4" />
           <AlertDescription className="text-destructive-foreground">
-            {errorMessage}
+            {failures.length > 1 ? (
+              <ul className="list-disc pl-4 space-y-1">
+                {failures.map(failure => <li key={failure}>{failure}</li>)}
+              </ul>
+            ) : (
+              errorMessage
+            )}
           </AlertDescription>
         </Alert>
       )}
@@ -200,12 +424,14 @@ export const CSVUpload: React.FC<CSVUploadProps> = ({ onDataParsed }) => {
               setUploadStatus('idle');
               setFileName('');
               setErrorMessage('');
+              setFailures([]);
+              setBatchSize(0);
             }}
             variant="outline"
             className="transition-smooth"
           >
             <FileText className="w-4 h-4 mr-2" />
-            Upload Another File
+            Upload More Files
           </Button>
         </div>
       )}
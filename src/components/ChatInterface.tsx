@@ -5,36 +5,19 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Send, Bot, User, Loader2, MessageCircle, Sparkles } from 'lucide-react';
 import { toast } from 'sonner';
-
-interface CSVData {
-  latitude: number;
-  longitude: number;
-  region: string;
-  depth: number;
-  salinity: number;
-  temperature: number;
-  ph: number;
-  dissolved_oxygen: number;
-  fish_population: number;
-  plankton: number;
-  coral_coverage: number;
-  timestamp: string;
-  date: string;
-}
-
-interface Message {
-  id: string;
-  type: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-}
+import { OceanDataset, getNumericValues, getRegions, measuredColumns, mean, numericValue } from '@/lib/dataset';
+import { ChatMessage } from '@/lib/workspaceStore';
 
 interface ChatInterfaceProps {
-  data: CSVData[];
+  dataset: OceanDataset;
+  // Conversation restored from the workspace; empty for a new one.
+  savedMessages?: ChatMessage[];
+  onMessagesChange?: (messages: ChatMessage[]) => void;
 }
 
-export const ChatInterface: React.FC<ChatInterfaceProps> = ({ data }) => {
-  const [messages, setMessages] = useState<Message[]>([
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ dataset, savedMessages = [], onMessagesChange }) => {
+  const data = dataset?.records;
+  const [messages, setMessages] = useState<ChatMessage[]>(() => savedMessages.length > 0 ? savedMessages : [
     {
       id: '1',
       type: 'assistant',
@@ -42,6 +25,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ data }) => {
       timestamp: new Date()
     }
   ]);
+  const reportedMessagesRef = useRef(messages);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -54,6 +38,13 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ data }) => {
     scrollToBottom();
   }, [messages]);
 
+  // Hand new messages to the owner for saving; the restored conversation is skipped
+  useEffect(() => {
+    if (messages === reportedMessagesRef.current) return;
+    reportedMessagesRef.current = messages;
+    onMessagesChange?.(messages);
+  }, [messages, onMessagesChange]);
+
   const processQuery = async (query: string): Promise<string> => {
     // Simulate API processing delay
     await new Promise(resolve => setTimeout(resolve, 1500));
@@ -67,7 +58,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ data }) => {
         if (!regionSalinity.has(record.region)) {
           regionSalinity.set(record.region, []);
         }
-        regionSalinity.get(record.region).push(record.salinity);
+        regionSalinity.get(record.region).push(numericValue(record, 'salinity'));
       });
 
       let highestRegion = '';
@@ -88,30 +79,31 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ data }) => {
       const fishData = data.filter(d => d.region.toLowerCase().includes(lowerQuery.includes('indian') ? 'indian' : lowerQuery.includes('pacific') ? 'pacific' : lowerQuery.includes('atlantic') ? 'atlantic' : ''));
       
       if (fishData.length > 0) {
-        const avgFish = fishData.reduce((sum, d) => sum + d.fish_population, 0) / fishData.length;
-        const maxFish = Math.max(...fishData.map(d => d.fish_population));
-        const minFish = Math.min(...fishData.map(d => d.fish_population));
+        const fishValues = getNumericValues(fishData, 'fish_population');
+        const avgFish = mean(fishValues);
+        const maxFish = Math.max(...fishValues);
+        const minFish = Math.min(...fishValues);
         
         return `Fish population analysis shows:\n\n• **Average population**: ${avgFish.toFixed(0)} individuals\n• **Peak population**: ${maxFish} individuals\n• **Lowest population**: ${minFish} individuals\n\nThe data suggests ${avgFish > 500 ? 'healthy' : 'concerning'} fish population levels in this region.`;
       }
     }
 
     if (lowerQuery.includes('temperature') && lowerQuery.includes('coral')) {
-      const coralData = data.filter(d => d.coral_coverage > 50);
+      const coralData = data.filter(d => numericValue(d, 'coral_coverage') > 50);
       
       if (coralData.length > 0) {
-        const avgTemp = coralData.reduce((sum, d) => sum + d.temperature, 0) / coralData.length;
+        const avgTemp = mean(getNumericValues(coralData, 'temperature'));
         
         return `In areas where coral coverage exceeds 50%, the average temperature is **${avgTemp.toFixed(2)}°C**. This temperature range is ${avgTemp < 28 ? 'optimal' : avgTemp < 30 ? 'acceptable' : 'concerning'} for coral health. Higher temperatures can lead to coral bleaching events.`;
       }
     }
 
     if (lowerQuery.includes('region') || lowerQuery.includes('area')) {
-      const regions = [...new Set(data.map(d => d.region))];
+      const regions = getRegions(data);
       const regionStats = regions.map(region => {
         const regionData = data.filter(d => d.region === region);
-        const avgTemp = regionData.reduce((sum, d) => sum + d.temperature, 0) / regionData.length;
-        const avgPH = regionData.reduce((sum, d) => sum + d.ph, 0) / regionData.length;
+        const avgTemp = mean(getNumericValues(regionData, 'temperature'));
+        const avgPH = mean(getNumericValues(regionData, 'ph'));
         return { region, avgTemp: avgTemp.toFixed(1), avgPH: avgPH.toFixed(2), records: regionData.length };
       });
 
@@ -121,17 +113,18 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ data }) => {
     }
 
     if (lowerQuery.includes('ph') || lowerQuery.includes('acid')) {
-      const avgPH = data.reduce((sum, d) => sum + d.ph, 0) / data.length;
+      const phValues = getNumericValues(data, 'ph');
+      const avgPH = mean(phValues);
       const pHRange = {
-        min: Math.min(...data.map(d => d.ph)),
-        max: Math.max(...data.map(d => d.ph))
+        min: Math.min(...phValues),
+        max: Math.max(...phValues)
       };
       
       return `Ocean pH analysis:\n\n• **Average pH**: ${avgPH.toFixed(2)}\n• **pH Range**: ${pHRange.min.toFixed(2)} - ${pHRange.max.toFixed(2)}\n\nA pH of ${avgPH.toFixed(2)} indicates ${avgPH > 8.1 ? 'normal alkaline' : avgPH > 7.8 ? 'slightly acidic' : 'concerning acidification'} conditions. Ocean acidification is a critical environmental indicator.`;
     }
 
     // Default response for unmatched queries
-    return `I analyzed your query about oceanic data. While I can see patterns in your dataset of **${data.length} records** across **${[...new Set(data.map(d => d.region))].length} regions**, I'd need more specific information to provide a detailed answer. \n\nTry asking about specific parameters like temperature, salinity, pH, or fish populations in particular regions or time periods.`;
+    return `I analyzed your query about oceanic data. While I can see patterns in your dataset of **${data.length} records** across **${getRegions(data).length} regions**, I'd need more specific information to provide a detailed answer. \n\nTry asking about specific parameters like ${measuredColumns(dataset).map(c => c.label.toLowerCase()).join(', ')} in particular regions or time periods.`;
   };
 
   const handleSendMessage = async () => {
@@ -142,7 +135,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ data }) => {
       return;
     }
 
-    const userMessage: Message = {
+    const userMessage: ChatMessage = {
       id: Date.now().toString(),
       type: 'user',
       content: input.trim(),
@@ -156,7 +149,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ data }) => {
     try {
       const response = await processQuery(input.trim());
       
-      const assistantMessage: Message = {
+      const assistantMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         type: 'assistant',
         content: response,
@@ -0,0 +1,227 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Columns3, Save, Trash2, ArrowRight, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { CORE_COLUMNS, formatColumnLabel } from '@/lib/dataset';
+import {
+  ColumnMapping,
+  MappingProfile,
+  deleteMappingProfile,
+  loadMappingProfiles,
+  mappingFromProfile,
+  saveMappingProfile,
+  suggestMapping,
+} from '@/lib/columnMapping';
+
+interface ColumnMappingWizardProps {
+  fileName: string;
+  headers: string[];
+  sampleRow?: Record<string, unknown>;
+  onConfirm: (mapping: ColumnMapping, extraColumns: string[]) => void;
+  onCancel: () => void;
+}
+
+// Radix Select does not allow an empty item value, so skipping uses a sentinel.
+const SKIP_VALUE = '__skip__';
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  fileName,
+  headers,
+  sampleRow,
+  onConfirm,
+  onCancel,
+}) => {
+  const suggestions = useMemo(() => suggestMapping(headers), [headers]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    Object.fromEntries(Object.entries(suggestions).map(([column, s]) => [column, s.header])),
+  );
+  const [profiles, setProfiles] = useState<MappingProfile[]>(() => loadMappingProfiles());
+  const [profileName, setProfileName] = useState('');
+  const [profileSource, setProfileSource] = useState('');
+
+  const mappedHeaders = new Set(Object.values(mapping).filter(Boolean));
+  const unmappedHeaders = headers.filter(h => !mappedHeaders.has(h));
+  const [extraColumns, setExtraColumns] = useState<string[]>(() =>
+    headers.filter(h => !Object.values(suggestions).some(s => s.header === h)),
+  );
+
+  const missingCoordinates = !mapping.latitude || !mapping.longitude;
+
+  const setColumn = (column: string, header: string) => {
+    setMapping(prev => ({ ...prev, [column]: header === SKIP_VALUE ? null : header }));
+  };
+
+  const toggleExtra = (header: string, checked: boolean) => {
+    setExtraColumns(prev => (checked ? [...prev, header] : prev.filter(h => h !== header)));
+  };
+
+  const applyProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) return;
+    setMapping(mappingFromProfile(profile, headers));
+    setExtraColumns(profile.extraColumns.filter(h => headers.includes(h)));
+    setProfileName(profile.name);
+    setProfileSource(profile.source);
+    toast.success(`Applied mapping profile "${profile.name}"`);
+  };
+
+  const saveProfile = () => {
+    if (!profileName.trim()) {
+      toast.error('Enter a profile name first');
+      return;
+    }
+    setProfiles(saveMappingProfile({
+      name: profileName.trim(),
+      source: profileSource.trim(),
+      mapping,
+      extraColumns,
+      createdAt: new Date().toISOString(),
+    }));
+    toast.success(`Saved mapping profile "${profileName.trim()}"`);
+  };
+
+  const removeProfile = (name: string) => {
+    setProfiles(deleteMappingProfile(name));
+    toast.success(`Deleted mapping profile "${name}"`);
+  };
+
+  const handleConfirm = () => {
+    onConfirm(mapping, extraColumns.filter(h => !mappedHeaders.has(h)));
+  };
+
+  return (
+    <Card className="p-6 bg-card shadow-ocean border-border">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-foreground mb-1 flex items-center">
+            <Columns3 className="w-5 h-5 mr-2" />
+            Map Columns
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {fileName} does not use the expected column names. Match each field to a column in your file, or skip it.
+          </p>
+        </div>
+        <Button onClick={onCancel} variant="ghost" size="sm">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* Saved profiles */}
+      {profiles.length > 0 && (
+        <div className="mb-4 p-3 bg-muted/30 rounded-lg border border-border">
+          <p className="text-sm font-medium text-foreground mb-2">Saved profiles</p>
+          <div className="flex flex-wrap gap-2">
+            {profiles.map(profile => (
+              <div key={profile.name} className="flex items-center gap-1">
+                <Badge
+                  variant="outline"
+                  className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-smooth"
+                  onClick={() => applyProfile(profile.name)}
+                >
+                  {profile.name}{profile.source && ` · ${profile.source}`}
+                </Badge>
+                <button
+                  onClick={() => removeProfile(profile.name)}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label={`Delete profile ${profile.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Required field mapping */}
+      <div className="rounded-lg border border-border divide-y divide-border mb-4">
+        {CORE_COLUMNS.map(column => {
+          const header = mapping[column.name];
+          const suggestion = suggestions[column.name];
+          const sample = header && sampleRow ? String(sampleRow[header] ?? '') : '';
+          return (
+            <div key={column.name} className="grid grid-cols-12 items-center gap-3 p-3">
+              <div className="col-span-4">
+                <div className="text-sm font-medium text-foreground">{formatColumnLabel(column)}</div>
+                <div className="text-xs font-mono text-muted-foreground">{column.name}</div>
+              </div>
+              <div className="col-span-5">
+                <Select value={header ?? SKIP_VALUE} onValueChange={value => setColumn(column.name, value)}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={SKIP_VALUE}>Skip this field</SelectItem>
+                    {headers.map(h => (
+                      <SelectItem key={h} value={h}>{h}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-3 text-xs text-muted-foreground truncate">
+                {header && suggestion.header === header && suggestion.score < 1 && (
+                  <Badge variant="secondary" className="mr-1">{Math.round(suggestion.score * 100)}%</Badge>
+                )}
+                {sample && <span className="font-mono">{sample}</span>}
+                {!header && <span>Left empty</span>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Extra columns */}
+      {unmappedHeaders.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-medium text-foreground mb-2">Keep additional columns</p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {unmappedHeaders.map(header => (
+              <label key={header} className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Checkbox
+                  checked={extraColumns.includes(header)}
+                  onCheckedChange={checked => toggleExtra(header, checked === true)}
+                />
+                <span className="font-mono truncate">{header}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Save profile */}
+      <div className="flex flex-col md:flex-row gap-2 mb-4">
+        <Input
+          value={profileName}
+          onChange={e => setProfileName(e.target.value)}
+          placeholder="Profile name (e.g. SBE 911 CTD)"
+        />
+        <Input
+          value={profileSource}
+          onChange={e => setProfileSource(e.target.value)}
+          placeholder="Instrument / source"
+        />
+        <Button onClick={saveProfile} variant="outline" className="transition-smooth">
+          <Save className="w-4 h-4 mr-2" />
+          Save Profile
+        </Button>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <p className="text-xs text-muted-foreground">
+          {missingCoordinates
+            ? 'Latitude and longitude are needed to place records on the map and derive regions.'
+            : 'Skipped region, date or timestamp fields are derived where possible.'}
+        </p>
+        <Button onClick={handleConfirm} className="bg-gradient-ocean transition-smooth">
+          Import with Mapping
+          <ArrowRight className="w-4 h-4 ml-2" />
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { CartesianGrid, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Grid3x3, X } from 'lucide-react';
+import { OceanDataset, formatColumnLabel, getRegions, numericColumns } from '@/lib/dataset';
+import {
+  CorrelationMethod,
+  CorrelationResult,
+  correlationMatrix,
+  linearRegression,
+  pairedValues,
+  significanceStars,
+} from '@/lib/correlation';
+
+interface CorrelationPanelProps {
+  dataset: OceanDataset;
+}
+
+// Radix Select can't hold an empty value, so "all regions" needs a sentinel.
+const ALL = '__all__';
+
+// Scatter plots above this many points show an even sample; the fit uses every pair
+const MAX_SCATTER_POINTS = 2000;
+
+const chartConfig: ChartConfig = {
+  observations: { label: 'Observations', color: 'hsl(220, 85%, 45%)' },
+};
+
+// Positive correlations red, negative blue, zero white.
+const cellColor = (r: number): string => (isNaN(r) ? 'hsl(var(--muted))' : d3.interpolateRdBu((1 - r) / 2));
+
+const formatP = (p: number): string => (isNaN(p) ? '—' : p < 0.001 ? p.toExponential(1) : p.toFixed(3));
+
+export const CorrelationPanel: React.FC<CorrelationPanelProps> = ({ dataset }) => {
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+  const [scope, setScope] = useState<string>(ALL);
+  const [selected, setSelected] = useState<[number, number] | null>(null);
+
+  const columns = useMemo(() => numericColumns(dataset), [dataset]);
+  const regions = useMemo(() => getRegions(dataset.records), [dataset]);
+
+  const records = useMemo(
+    () => (scope === ALL ? dataset.records : dataset.records.filter(record => record.region === scope)),
+    [dataset, scope],
+  );
+  const matrix = useMemo(
+    () => correlationMatrix(records, columns.map(c => c.name), method),
+    [records, columns, method],
+  );
+
+  const pair = selected && columns[selected[0]] && columns[selected[1]]
+    ? { x: columns[selected[1]], y: columns[selected[0]], result: matrix[selected[0]][selected[1]] }
+    : null;
+
+  const scatter = useMemo(() => {
+    const x = selected && columns[selected[1]];
+    const y = selected && columns[selected[0]];
+    if (!x || !y) return null;
+    const { xs, ys } = pairedValues(records, x.name, y.name);
+    const stride = Math.ceil(xs.length / MAX_SCATTER_POINTS);
+    const points = xs.map((x, i) => ({ x, y: ys[i] })).filter((_, i) => i % stride === 0);
+    const fit = linearRegression(xs, ys);
+    const [min, max] = d3.extent(xs) as [number, number];
+    return { points, fit, line: [{ x: min, y: fit.intercept + fit.slope * min }, { x: max, y: fit.intercept + fit.slope * max }] };
+  }, [selected, columns, records]);
+
+  const renderCell = (result: CorrelationResult, i: number, j: number) => {
+    const strong = Math.abs(result.r) > 0.6;
+    const isSelected = selected?.[0] === i && selected?.[1] === j;
+    return (
+      <button
+        key={`${i}-${j}`}
+        onClick={() => i !== j && setSelected([i, j])}
+        disabled={i === j}
+        className={`h-12 text-xs font-mono tabular-nums transition-smooth ${
+          isSelected ? 'ring-2 ring-inset ring-foreground' : i !== j ? 'hover:ring-2 hover:ring-inset hover:ring-primary' : ''
+        } ${strong ? 'text-white' : 'text-foreground'}`}
+        style={{ backgroundColor: cellColor(result.r) }}
+        title={`${columns[i].label} × ${columns[j].label}\nr = ${isNaN(result.r) ? '—' : result.r.toFixed(3)}, p = ${formatP(result.p)}, n = ${result.n}`}
+      >
+        {isNaN(result.r) ? '—' : result.r.toFixed(2)}
+        <span className="block leading-none">{i !== j && significanceStars(result.p)}</span>
+      </button>
+    );
+  };
+
+  return (
+    <Card className="p-6 bg-card shadow-soft border-border">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-foreground mb-2 flex items-center">
+            <Grid3x3 className="w-5 h-5 mr-2" />
+            Correlations
+          </h3>
+          <p className="text-muted-foreground">
+            {method === 'pearson' ? 'Pearson r' : 'Spearman ρ'} between numeric variables · click a cell for its scatter plot
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={method} onValueChange={value => setMethod(value as CorrelationMethod)}>
+            <SelectTrigger className="w-36 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pearson">Pearson</SelectItem>
+              <SelectItem value="spearman">Spearman</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={scope} onValueChange={setScope}>
+            <SelectTrigger className="w-48 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All regions</SelectItem>
+              {regions.map(region => (
+                <SelectItem key={region} value={region}>{region}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* Heatmap */}
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-px min-w-fit"
+          style={{ gridTemplateColumns: `minmax(140px, auto) repeat(${columns.length}, minmax(56px, 1fr))` }}
+        >
+          <div />
+          {columns.map(column => (
+            <div key={column.name} className="px-1 pb-2 text-xs text-muted-foreground text-center truncate" title={column.label}>
+              {column.label}
+            </div>
+          ))}
+          {columns.map((row, i) => (
+            <React.Fragment key={row.name}>
+              <div className="pr-3 text-xs text-muted-foreground flex items-center justify-end truncate" title={row.label}>
+                {row.label}
+              </div>
+              {matrix[i].map((result, j) => renderCell(result, i, j))}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        * p &lt; 0.05 · ** p &lt; 0.01 · *** p &lt; 0.001 (two-sided, t test on n − 2 degrees of freedom)
+      </p>
+
+      {/* Scatter plot of the selected pair */}
+      {pair && scatter && (
+        <div className="mt-6 p-4 rounded-lg border border-border">
+          <div className="flex justify-between items-start mb-3">
+            <div>
+              <h4 className="text-sm font-medium text-foreground">
+                {formatColumnLabel(pair.y)} vs {formatColumnLabel(pair.x)}
+              </h4>
+              <p className="text-xs text-muted-foreground">
+                {method === 'pearson' ? 'r' : 'ρ'} = {pair.result.r.toFixed(3)}, p = {formatP(pair.result.p)}, n = {pair.result.n}
+                {!isNaN(scatter.fit.slope) && (
+                  <> · y = {scatter.fit.slope.toPrecision(4)}x + {scatter.fit.intercept.toPrecision(4)}, R² = {scatter.fit.r2.toFixed(3)}</>
+                )}
+                {scatter.points.length < pair.result.n && ` · ${scatter.points.length} points shown`}
+              </p>
+            </div>
+            <Button onClick={() => setSelected(null)} variant="ghost" size="sm">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <ChartContainer config={chartConfig} className="aspect-auto h-80 w-full">
+            <ScatterChart>
+              <CartesianGrid />
+              <XAxis type="number" dataKey="x" name={pair.x.label} domain={['auto', 'auto']} tickLine={false} />
+              <YAxis type="number" dataKey="y" name={pair.y.label} domain={['auto', 'auto']} tickLine={false} width={56} />
+              <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+              <Scatter data={scatter.points} fill="var(--color-observations)" fillOpacity={0.5} isAnimationActive={false} />
+              {!isNaN(scatter.fit.slope) && (
+                <ReferenceLine
+                  segment={scatter.line}
+                  stroke="hsl(15, 85%, 60%)"
+                  strokeWidth={2}
+                  ifOverflow="extendDomain"
+                />
+              )}
+            </ScatterChart>
+          </ChartContainer>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -1,32 +1,29 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Download, Eye, BarChart3 } from 'lucide-react';
+import { Download, Eye, BarChart3, Files, Table2 } from 'lucide-react';
 import { toast } from 'sonner';
-
-interface CSVData {
-  latitude: number;
-  longitude: number;
-  region: string;
-  depth: number;
-  salinity: number;
-  temperature: number;
-  ph: number;
-  dissolved_oxygen: number;
-  fish_population: number;
-  plankton: number;
-  coral_coverage: number;
-  timestamp: string;
-  date: string;
-}
+import { OceanDataset, OceanRecord, formatCell, formatColumnLabel, getNumericValues, getRegions, mean } from '@/lib/dataset';
+import { sourceBreakdown } from '@/lib/merge';
+import { DataTable } from '@/components/DataTable';
 
 interface DataPreviewProps {
-  data: CSVData[];
+  dataset: OceanDataset;
   onGenerateKnowledgeGraph: () => void;
+  highlightedRecord?: OceanRecord | null;
 }
 
-export const DataPreview: React.FC<DataPreviewProps> = ({ data, onGenerateKnowledgeGraph }) => {
+export const DataPreview: React.FC<DataPreviewProps> = ({ dataset, onGenerateKnowledgeGraph, highlightedRecord }) => {
+  const data = dataset?.records;
+  const sources = useMemo(() => (dataset ? sourceBreakdown(dataset) : []), [dataset]);
+  const [showFullTable, setShowFullTable] = useState(false);
+
+  // A record picked in a plot can only be shown in the full table
+  useEffect(() => {
+    if (highlightedRecord) setShowFullTable(true);
+  }, [highlightedRecord]);
+
   const downloadJSON = () => {
     const dataStr = JSON.stringify(data, null, 2);
     const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
@@ -44,10 +41,10 @@ export const DataPreview: React.FC<DataPreviewProps> = ({ data, onGenerateKnowle
   const getStats = () => {
     if (!data || data.length === 0) return {};
     
-    const regions = [...new Set(data.map(d => d.region))];
-    const avgTemp = data.reduce((sum, d) => sum + d.temperature, 0) / data.length;
-    const avgSalinity = data.reduce((sum, d) => sum + d.salinity, 0) / data.length;
-    const avgPH = data.reduce((sum, d) => sum + d.ph, 0) / data.length;
+    const regions = getRegions(data);
+    const avgTemp = mean(getNumericValues(data, 'temperature'));
+    const avgSalinity = mean(getNumericValues(data, 'salinity'));
+    const avgPH = mean(getNumericValues(data, 'ph'));
     
     return {
       totalRecords: data.length,
@@ -85,7 +82,7 @@ export const DataPreview: React.FC<DataPreviewProps> = ({ data, onGenerateKnowle
       </div>
 
       {/* Statistics Cards */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
         <div className="p-4 rounded-lg bg-primary/5 border border-primary/20">
           <div className="text-2xl font-bold text-primary">{stats.totalRecords}</div>
           <div className="text-sm text-muted-foreground">Records</div>
@@ -98,6 +95,10 @@ export const DataPreview: React.FC<DataPreviewProps> = ({ data, onGenerateKnowle
           <div className="text-2xl font-bold text-accent">{stats.avgTemp}°C</div>
           <div className="text-sm text-muted-foreground">Avg Temperature</div>
         </div>
+        <div className="p-4 rounded-lg bg-primary/5 border border-primary/20">
+          <div className="text-2xl font-bold text-primary">{stats.avgSalinity} PSU</div>
+          <div className="text-sm text-muted-foreground">Avg Salinity</div>
+        </div>
         <div className="p-4 rounded-lg bg-success/10 border border-success/20">
           <div className="text-2xl font-bold text-success">{stats.avgPH}</div>
           <div className="text-sm text-muted-foreground">Avg pH</div>
@@ -116,44 +117,92 @@ export const DataPreview: React.FC<DataPreviewProps> = ({ data, onGenerateKnowle
         </div>
       </div>
 
+      {/* Per-source breakdown */}
+      {sources.length > 0 && (
+        <div className="mb-6">
+          <h4 className="text-sm font-medium text-foreground mb-3 flex items-center">
+            <Files className="w-4 h-4 mr-2" />
+            Sources ({sources.length} files):
+          </h4>
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted border-b border-border">
+                  <th className="text-left p-3 font-medium text-muted-foreground">File</th>
+                  <th className="text-right p-3 font-medium text-muted-foreground">Records</th>
+                  <th className="text-right p-3 font-medium text-muted-foreground">Duplicates</th>
+                  <th className="text-left p-3 font-medium text-muted-foreground">Regions</th>
+                  <th className="text-left p-3 font-medium text-muted-foreground">Dates</th>
+                  <th className="text-left p-3 font-medium text-muted-foreground">Missing Columns</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sources.map(source => (
+                  <tr key={source.fileName} className="border-b border-border hover:bg-muted/50 transition-smooth">
+                    <td className="p-3 whitespace-nowrap font-medium text-foreground">
+                      {source.fileName}
+                      <Badge variant="outline" className="ml-2 uppercase">{source.format}</Badge>
+                    </td>
+                    <td className="p-3 text-right text-muted-foreground">{source.records}</td>
+                    <td className="p-3 text-right text-muted-foreground">{source.duplicates}</td>
+                    <td className="p-3 text-muted-foreground">{source.regions.join(', ')}</td>
+                    <td className="p-3 whitespace-nowrap text-muted-foreground">
+                      {source.firstDate === source.lastDate ? source.firstDate : `${source.firstDate} – ${source.lastDate}`}
+                    </td>
+                    <td className="p-3 font-mono text-xs text-muted-foreground">
+                      {source.missingColumns.length > 0 ? source.missingColumns.join(', ') : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Sample Data Table */}
       <div>
-        <h4 className="text-sm font-medium text-foreground mb-3 flex items-center">
-          <Eye className="w-4 h-4 mr-2" />
-          Sample Data (First 5 rows):
-        </h4>
-        <div className="overflow-x-auto rounded-lg border border-border">
-          <table className="w-full text-sm">
-            <thead>
-              <tr className="bg-muted border-b border-border">
-                <th className="text-left p-3 font-medium text-muted-foreground">Region</th>
-                <th className="text-left p-3 font-medium text-muted-foreground">Lat</th>
-                <th className="text-left p-3 font-medium text-muted-foreground">Lon</th>
-                <th className="text-left p-3 font-medium text-muted-foreground">Depth</th>
-                <th className="text-left p-3 font-medium text-muted-foreground">Temp</th>
-                <th className="text-left p-3 font-medium text-muted-foreground">Salinity</th>
-                <th className="text-left p-3 font-medium text-muted-foreground">pH</th>
-                <th className="text-left p-3 font-medium text-muted-foreground">Fish Pop.</th>
-                <th className="text-left p-3 font-medium text-muted-foreground">Date</th>
-              </tr>
-            </thead>
-            <tbody>
-              {data.slice(0, 5).map((row, index) => (
-                <tr key={index} className="border-b border-border hover:bg-muted/50 transition-smooth">
-                  <td className="p-3 font-medium text-foreground">{row.region}</td>
-                  <td className="p-3 text-muted-foreground">{row.latitude.toFixed(3)}</td>
-                  <td className="p-3 text-muted-foreground">{row.longitude.toFixed(3)}</td>
-                  <td className="p-3 text-muted-foreground">{row.depth}m</td>
-                  <td className="p-3 text-muted-foreground">{row.temperature}°C</td>
-                  <td className="p-3 text-muted-foreground">{row.salinity}</td>
-                  <td className="p-3 text-muted-foreground">{row.ph}</td>
-                  <td className="p-3 text-muted-foreground">{row.fish_population}</td>
-                  <td className="p-3 text-muted-foreground">{row.date}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+        <div className="flex justify-between items-center mb-3">
+          <h4 className="text-sm font-medium text-foreground flex items-center">
+            <Eye className="w-4 h-4 mr-2" />
+            {showFullTable ? `All Data (${data.length} rows):` : 'Sample Data (First 5 rows):'}
+          </h4>
+          <Button onClick={() => setShowFullTable(prev => !prev)} variant="outline" size="sm" className="transition-smooth">
+            <Table2 className="w-4 h-4 mr-2" />
+            {showFullTable ? 'Show Sample' : 'Show Full Table'}
+          </Button>
         </div>
+        {showFullTable ? (
+          <DataTable dataset={dataset} highlightedRecord={highlightedRecord} />
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted border-b border-border">
+                  {dataset.columns.map(column => (
+                    <th key={column.name} className="text-left p-3 font-medium text-muted-foreground whitespace-nowrap">
+                      {formatColumnLabel(column)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {data.slice(0, 5).map((row, index) => (
+                  <tr key={index} className="border-b border-border hover:bg-muted/50 transition-smooth">
+                    {dataset.columns.map(column => (
+                      <td
+                        key={column.name}
+                        className={`p-3 whitespace-nowrap ${column.role === 'categorical' ? 'font-medium text-foreground' : 'text-muted-foreground'}`}
+                      >
+                        {formatCell(row, column)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
     </Card>
   );
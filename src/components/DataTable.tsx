@@ -0,0 +1,359 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronDown, ChevronUp, Columns3, Filter, X } from 'lucide-react';
+import { ColumnSchema, OceanDataset, OceanRecord, formatCell, formatColumnLabel } from '@/lib/dataset';
+import {
+  ColumnFilter,
+  TableFilters,
+  TableSort,
+  distinctValues,
+  emptyFilterFor,
+  isFilterActive,
+  queryRows,
+} from '@/lib/tableQuery';
+import { sameRecord } from '@/lib/columnar';
+
+interface DataTableProps {
+  dataset: OceanDataset;
+  // Record picked in a plot; scrolled into view and marked
+  highlightedRecord?: OceanRecord | null;
+}
+
+const ROW_HEIGHT = 36;
+const MIN_COLUMN_WIDTH = 140;
+
+const parseBound = (text: string): number | null => (text.trim() === '' || isNaN(Number(text)) ? null : Number(text));
+
+interface ColumnFilterEditorProps {
+  column: ColumnSchema;
+  filter: ColumnFilter;
+  values: string[];
+  onChange: (filter: ColumnFilter) => void;
+}
+
+const ColumnFilterEditor: React.FC<ColumnFilterEditorProps> = ({ column, filter, values, onChange }) => {
+  switch (filter.kind) {
+    case 'range':
+      return (
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            placeholder="Min"
+            defaultValue={filter.min ?? ''}
+            onChange={e => onChange({ ...filter, min: parseBound(e.target.value) })}
+          />
+          <Input
+            type="number"
+            placeholder="Max"
+            defaultValue={filter.max ?? ''}
+            onChange={e => onChange({ ...filter, max: parseBound(e.target.value) })}
+          />
+        </div>
+      );
+    case 'dateRange':
+      return (
+        <div className="space-y-2">
+          <Input
+            type="date"
+            value={filter.from ?? ''}
+            onChange={e => onChange({ ...filter, from: e.target.value || null })}
+          />
+          <Input
+            type="date"
+            value={filter.to ?? ''}
+            onChange={e => onChange({ ...filter, to: e.target.value || null })}
+          />
+        </div>
+      );
+    case 'values':
+      return (
+        <div className="max-h-56 overflow-y-auto space-y-2">
+          {values.map(value => (
+            <div key={value} className="flex items-center gap-2">
+              <Checkbox
+                id={`filter-${column.name}-${value}`}
+                checked={filter.values.includes(value)}
+                onCheckedChange={checked =>
+                  onChange({
+                    ...filter,
+                    values: checked === true ? [...filter.values, value] : filter.values.filter(v => v !== value),
+                  })
+                }
+              />
+              <Label htmlFor={`filter-${column.name}-${value}`} className="text-sm font-normal">
+                {value || '(empty)'}
+              </Label>
+            </div>
+          ))}
+        </div>
+      );
+    case 'text':
+      return (
+        <Input
+          placeholder="Contains…"
+          value={filter.query}
+          onChange={e => onChange({ ...filter, query: e.target.value })}
+        />
+      );
+  }
+};
+
+interface ColumnFilterPanelProps {
+  column: ColumnSchema;
+  filter: ColumnFilter | undefined;
+  records: OceanDataset['records'];
+  onChange: (filter: ColumnFilter | null) => void;
+}
+
+// Distinct values are only collected once a filter is opened, not for every header.
+const ColumnFilterPanel: React.FC<ColumnFilterPanelProps> = ({ column, filter, records, onChange }) => {
+  const values = useMemo(
+    () => (column.type === 'string' ? distinctValues(records, column.name) : []),
+    [column, records],
+  );
+  const current = filter ?? emptyFilterFor(column, values.length);
+  // Bumped on clear so uncontrolled inputs start empty again
+  const [generation, setGeneration] = useState(0);
+
+  return (
+    <>
+      <ColumnFilterEditor key={generation} column={column} filter={current} values={values} onChange={onChange} />
+      {isFilterActive(filter) && (
+        <Button
+          onClick={() => {
+            onChange(null);
+            setGeneration(g => g + 1);
+          }}
+          variant="ghost"
+          size="sm"
+          className="w-full"
+        >
+          Clear
+        </Button>
+      )}
+    </>
+  );
+};
+
+/**
+ * Every row of the dataset in a virtualized grid: only the rows in view are
+ * rendered, so hundreds of thousands of records scroll smoothly.
+ */
+export const DataTable: React.FC<DataTableProps> = ({ dataset, highlightedRecord }) => {
+  const { records } = dataset;
+  const [columnOrder, setColumnOrder] = useState<string[]>(() => dataset.columns.map(c => c.name));
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+  const [sort, setSort] = useState<TableSort | null>(null);
+  const [filters, setFilters] = useState<TableFilters>({});
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Columns added later (e.g. by merging another file) go to the end
+  const orderedColumns = useMemo(() => {
+    const byName = new Map(dataset.columns.map(c => [c.name, c]));
+    const known = columnOrder.filter(name => byName.has(name));
+    const added = dataset.columns.map(c => c.name).filter(name => !columnOrder.includes(name));
+    return [...known, ...added].map(name => byName.get(name) as ColumnSchema);
+  }, [dataset.columns, columnOrder]);
+  const visibleColumns = orderedColumns.filter(c => !hidden.has(c.name));
+
+  const rows = useMemo(() => queryRows(records, filters, sort), [records, filters, sort]);
+  const activeFilterCount = Object.values(filters).filter(isFilterActive).length;
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    overscan: 12,
+  });
+
+  const highlightedRow = useMemo(
+    () => (highlightedRecord ? rows.findIndex(index => sameRecord(records[index], highlightedRecord)) : -1),
+    [rows, records, highlightedRecord],
+  );
+
+  // Only a newly picked record scrolls; sorting or filtering afterwards doesn't jump back
+  const scrolledToRef = useRef<OceanRecord | null>();
+  useEffect(() => {
+    if (scrolledToRef.current === highlightedRecord) return;
+    scrolledToRef.current = highlightedRecord;
+    if (highlightedRow < 0) return;
+    scrollRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    virtualizer.scrollToIndex(highlightedRow, { align: 'center' });
+  }, [highlightedRecord, highlightedRow, virtualizer]);
+
+  const gridTemplateColumns = `repeat(${visibleColumns.length}, minmax(${MIN_COLUMN_WIDTH}px, 1fr))`;
+
+  const toggleSort = (column: string) => {
+    setSort(prev => {
+      if (prev?.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const moveColumn = (name: string, offset: number) => {
+    const order = orderedColumns.map(c => c.name);
+    const from = order.indexOf(name);
+    const to = from + offset;
+    if (to < 0 || to >= order.length) return;
+    [order[from], order[to]] = [order[to], order[from]];
+    setColumnOrder(order);
+  };
+
+  const toggleColumn = (name: string, visible: boolean) => {
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (visible) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const setFilter = (name: string, filter: ColumnFilter | null) => {
+    setFilters(prev => {
+      const next = { ...prev };
+      if (filter) next[name] = filter;
+      else delete next[name];
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{rows.length.toLocaleString()}</span> of{' '}
+          {records.length.toLocaleString()} rows match
+          {activeFilterCount > 0 && ` ${activeFilterCount} filter${activeFilterCount > 1 ? 's' : ''}`}
+        </p>
+        <div className="flex gap-2">
+          {activeFilterCount > 0 && (
+            <Button onClick={() => setFilters({})} variant="ghost" size="sm">
+              <X className="w-4 h-4 mr-1" />
+              Clear filters
+            </Button>
+          )}
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Columns3 className="w-4 h-4 mr-2" />
+                Columns ({visibleColumns.length}/{orderedColumns.length})
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-72 max-h-96 overflow-y-auto">
+              <div className="space-y-1">
+                {orderedColumns.map((column, index) => (
+                  <div key={column.name} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`column-${column.name}`}
+                      checked={!hidden.has(column.name)}
+                      onCheckedChange={checked => toggleColumn(column.name, checked === true)}
+                    />
+                    <Label htmlFor={`column-${column.name}`} className="flex-1 text-sm font-normal truncate">
+                      {column.label}
+                    </Label>
+                    <Button
+                      onClick={() => moveColumn(column.name, -1)}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      disabled={index === 0}
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => moveColumn(column.name, 1)}
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      disabled={index === orderedColumns.length - 1}
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div ref={scrollRef} className="h-[480px] overflow-auto rounded-lg border border-border">
+        <div style={{ minWidth: visibleColumns.length * MIN_COLUMN_WIDTH }}>
+          <div className="sticky top-0 z-10 grid bg-muted border-b border-border" style={{ gridTemplateColumns }}>
+            {visibleColumns.map(column => {
+              const filter = filters[column.name];
+              const SortIcon = sort?.column !== column.name ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+              return (
+                <div key={column.name} className="flex items-center gap-1 px-3 py-2">
+                  <button
+                    onClick={() => toggleSort(column.name)}
+                    className="flex items-center gap-1 text-left text-sm font-medium text-muted-foreground hover:text-foreground truncate"
+                  >
+                    <span className="truncate">{formatColumnLabel(column)}</span>
+                    <SortIcon className="w-3 h-3 shrink-0" />
+                  </button>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0 ml-auto shrink-0">
+                        <Filter className={`w-3 h-3 ${isFilterActive(filter) ? 'text-primary' : ''}`} />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent align="start" className="w-64 space-y-3">
+                      <div className="flex justify-between items-center">
+                        <p className="text-sm font-medium text-foreground">{column.label}</p>
+                        {isFilterActive(filter) && <Badge variant="secondary">active</Badge>}
+                      </div>
+                      <ColumnFilterPanel
+                        column={column}
+                        filter={filter}
+                        records={records}
+                        onChange={next => setFilter(column.name, next)}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+            {virtualizer.getVirtualItems().map(item => {
+              const record = records[rows[item.index]];
+              return (
+                <div
+                  key={item.key}
+                  className={`absolute left-0 w-full grid border-b border-border text-sm ${
+                    item.index === highlightedRow ? 'bg-accent/40 ring-2 ring-inset ring-primary' : 'hover:bg-muted/50'
+                  }`}
+                  style={{ gridTemplateColumns, height: item.size, transform: `translateY(${item.start}px)` }}
+                >
+                  {visibleColumns.map(column => (
+                    <div
+                      key={column.name}
+                      className={`px-3 flex items-center whitespace-nowrap truncate ${
+                        column.role === 'categorical' ? 'font-medium text-foreground' : 'text-muted-foreground'
+                      }`}
+                    >
+                      {formatCell(record, column)}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        {rows.length === 0 && (
+          <p className="p-6 text-center text-sm text-muted-foreground">No rows match the current filters</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Route, X } from 'lucide-react';
+import { GraphHighlight, GraphNode, KnowledgeGraphData } from '@/lib/graph';
+import { CENTRALITY_LABELS, CentralityMeasure, GraphMetrics, NodeMetrics, shortestPath } from '@/lib/graphAnalytics';
+
+export type SizeEncoding = 'type' | CentralityMeasure;
+export type ColorEncoding = 'type' | 'community';
+
+interface GraphAnalyticsPanelProps {
+  graph: KnowledgeGraphData;
+  metrics: GraphMetrics;
+  sizeBy: SizeEncoding;
+  onSizeByChange: (encoding: SizeEncoding) => void;
+  colorBy: ColorEncoding;
+  onColorByChange: (encoding: ColorEncoding) => void;
+  communityColor: (community: number) => string;
+  selectedNodeId: string | null;
+  onSelectNode: (id: string) => void;
+  onHighlight: (highlight: GraphHighlight | null) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'value' | 'type' | CentralityMeasure | 'community';
+
+// Rows rendered before the table is cut off; sorting still covers every node
+const MAX_ROWS = 200;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'value', label: 'Node' },
+  { key: 'type', label: 'Type' },
+  { key: 'degree', label: CENTRALITY_LABELS.degree },
+  { key: 'betweenness', label: CENTRALITY_LABELS.betweenness },
+  { key: 'eigenvector', label: CENTRALITY_LABELS.eigenvector },
+  { key: 'community', label: 'Community' },
+];
+
+const nodeLabel = (node?: GraphNode): string => (node ? String(node.value ?? node.id) : '');
+
+export const GraphAnalyticsPanel: React.FC<GraphAnalyticsPanelProps> = ({
+  graph,
+  metrics,
+  sizeBy,
+  onSizeByChange,
+  colorBy,
+  onColorByChange,
+  communityColor,
+  selectedNodeId,
+  onSelectNode,
+  onHighlight,
+  onClose,
+}) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'betweenness', descending: true });
+  const [pathEnds, setPathEnds] = useState<{ from: string | null; to: string | null }>({ from: null, to: null });
+
+  const nodes = useMemo(() => new Map(graph.nodes.map(node => [node.id, node])), [graph]);
+
+  const rows = useMemo(() => {
+    const value = (row: NodeMetrics): string | number => {
+      if (sort.key === 'value') return nodeLabel(nodes.get(row.id));
+      if (sort.key === 'type') return nodes.get(row.id)?.type ?? '';
+      return row[sort.key];
+    };
+    return [...metrics.nodes].sort((a, b) => {
+      const [x, y] = [value(a), value(b)];
+      const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+      return sort.descending ? -order : order;
+    });
+  }, [metrics, nodes, sort]);
+
+  // Ends that have since been collapsed away no longer count
+  const from = pathEnds.from && nodes.has(pathEnds.from) ? pathEnds.from : null;
+  const to = pathEnds.to && nodes.has(pathEnds.to) ? pathEnds.to : null;
+  const path = useMemo(() => (from && to ? shortestPath(graph, from, to) : null), [graph, from, to]);
+
+  const setEnd = (end: 'from' | 'to', id: string | null) => {
+    const next = { from, to, [end]: id };
+    setPathEnds(next);
+    const found = next.from && next.to ? shortestPath(graph, next.from, next.to) : null;
+    onHighlight(found);
+  };
+
+  const changeSort = (key: SortKey) =>
+    setSort(current => ({ key, descending: current.key === key ? !current.descending : key !== 'value' && key !== 'type' }));
+
+  return (
+    <Card className="p-4 bg-card shadow-soft border-border space-y-4">
+      <div className="flex justify-between items-start">
+        <div>
+          <h4 className="font-semibold text-foreground">Graph analytics</h4>
+          <p className="text-xs text-muted-foreground">
+            {metrics.communities} communities, modularity {metrics.modularity.toFixed(3)}. Links are treated as undirected;
+            communities and eigenvector centrality use link weights.
+          </p>
+        </div>
+        <Button onClick={onClose} variant="ghost" size="sm">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Size by</span>
+          <Select value={sizeBy} onValueChange={value => onSizeByChange(value as SizeEncoding)}>
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="type">Node type</SelectItem>
+              {(Object.keys(CENTRALITY_LABELS) as CentralityMeasure[]).map(measure => (
+                <SelectItem key={measure} value={measure}>{CENTRALITY_LABELS[measure]} centrality</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">Colour by</span>
+          <Select value={colorBy} onValueChange={value => onColorByChange(value as ColorEncoding)}>
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="type">Node type</SelectItem>
+              <SelectItem value="community">Community</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Route className="w-4 h-4 text-muted-foreground" />
+          <span className="text-sm font-medium text-foreground">Shortest path</span>
+          {(['from', 'to'] as const).map(end => {
+            const id = end === 'from' ? from : to;
+            return (
+              <div key={end} className="flex items-center gap-1">
+                <span className="text-xs text-muted-foreground">{end}</span>
+                {id ? (
+                  <Badge variant="secondary" className="gap-1">
+                    {nodeLabel(nodes.get(id))}
+                    <X className="w-3 h-3 cursor-pointer" onClick={() => setEnd(end, null)} />
+                  </Badge>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7"
+                    disabled={!selectedNodeId}
+                    onClick={() => selectedNodeId && setEnd(end, selectedNodeId)}
+                  >
+                    Use selected node
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {from && to && !path && <p className="text-sm text-muted-foreground">These nodes are not connected.</p>}
+        {path && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground mr-1">{path.path.length - 1} hops</span>
+            {path.path.map((id, i) => (
+              <React.Fragment key={id}>
+                {i > 0 && <span className="text-muted-foreground">→</span>}
+                <Badge variant="outline" className="cursor-pointer hover:bg-muted" onClick={() => onSelectNode(id)}>
+                  {nodeLabel(nodes.get(id))}
+                </Badge>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="overflow-auto max-h-96 rounded-lg border border-border">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0">
+            <tr className="bg-muted border-b border-border">
+              {COLUMNS.map(({ key, label }) => (
+                <th
+                  key={key}
+                  className={`p-2 font-medium text-muted-foreground whitespace-nowrap cursor-pointer select-none ${key === 'value' || key === 'type' ? 'text-left' : 'text-right'}`}
+                  onClick={() => changeSort(key)}
+                >
+                  {label}
+                  {sort.key === key && (sort.descending
+                    ? <ArrowDown className="inline w-3 h-3 ml-1" />
+                    : <ArrowUp className="inline w-3 h-3 ml-1" />)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, MAX_ROWS).map(row => {
+              const node = nodes.get(row.id);
+              return (
+                <tr key={row.id} className={`border-b border-border ${row.id === selectedNodeId ? 'bg-muted/50' : ''}`}>
+                  <td className="p-2 whitespace-nowrap">
+                    <button className="font-medium text-foreground hover:underline" onClick={() => onSelectNode(row.id)}>
+                      {nodeLabel(node)}
+                    </button>
+                  </td>
+                  <td className="p-2 text-muted-foreground">{node?.type}</td>
+                  <td className="p-2 text-right text-muted-foreground">{row.degree.toFixed(3)}</td>
+                  <td className="p-2 text-right text-muted-foreground">{row.betweenness.toFixed(3)}</td>
+                  <td className="p-2 text-right text-muted-foreground">{row.eigenvector.toFixed(3)}</td>
+                  <td className="p-2 text-right text-muted-foreground">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: communityColor(row.community) }} />
+                    {row.community + 1}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {rows.length > MAX_ROWS && (
+        <p className="text-xs text-muted-foreground">Showing the first {MAX_ROWS} of {rows.length.toLocaleString()} nodes.</p>
+      )}
+    </Card>
+  );
+};
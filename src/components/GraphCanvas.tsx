@@ -0,0 +1,305 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { toast } from 'sonner';
+import { OceanRecord } from '@/lib/dataset';
+import { GraphHighlight, GraphLink, GraphNode, KnowledgeGraphData, linkKey, nodeId } from '@/lib/graph';
+import { LayoutJob, runLayoutInWorker, runLayoutOnMainThread } from '@/lib/forceLayout';
+import { GraphLayout, Point, animateTo, applyPins, layoutPositions } from '@/lib/graphLayouts';
+import { SCALE_EXTENT, ViewControls, labelledNodes } from '@/lib/graphView';
+
+interface GraphCanvasProps {
+  graph: KnowledgeGraphData;
+  radius: (node: GraphNode) => number;
+  color: (node: GraphNode) => string;
+  linkColor: (link: GraphLink) => string;
+  highlight: GraphHighlight | null;
+  selectedNodeId: string | null;
+  width: number;
+  height: number;
+  zoom: number;
+  layout: GraphLayout;
+  // Changes whenever the layout should be applied afresh
+  layoutVersion: number;
+  records: OceanRecord[];
+  // Dragged nodes of the current layout
+  pins: Map<string, Point>;
+  // Filled in with this canvas's zoom, for the buttons and minimap around it
+  controlsRef: React.MutableRefObject<ViewControls | null>;
+  onZoomChange?: (scale: number) => void;
+  onPin: (id: string, point: Point) => void;
+  onNodeClick: (node: GraphNode) => void;
+}
+
+/**
+ * Draws the graph on a canvas, for graphs too big for one SVG element per
+ * node. The layout runs in a worker; hit-testing uses a quadtree over the
+ * latest positions, rebuilt only after they move.
+ */
+export const GraphCanvas: React.FC<GraphCanvasProps> = ({
+  graph,
+  radius,
+  color,
+  linkColor,
+  highlight,
+  selectedNodeId,
+  width,
+  height,
+  zoom,
+  layout,
+  layoutVersion,
+  records,
+  pins,
+  controlsRef,
+  onZoomChange,
+  onPin,
+  onNodeClick,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const transformRef = useRef(d3.zoomIdentity);
+  const zoomBehaviorRef = useRef<d3.ZoomBehavior<HTMLCanvasElement, unknown> | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const sizeRef = useRef({ width, height });
+  sizeRef.current = { width, height };
+  // The worker running the force layout; null while a fixed layout is shown
+  const jobRef = useRef<LayoutJob | null>(null);
+  // Node indices by position; cleared whenever a node moves
+  const treeRef = useRef<d3.Quadtree<number> | null>(null);
+  // Everything the draw and event handlers need, read fresh on each call
+  const stateRef = useRef({ graph, radius, color, linkColor, highlight, selectedNodeId, zoom, records, pins, onZoomChange, onPin, onNodeClick });
+  stateRef.current = { graph, radius, color, linkColor, highlight, selectedNodeId, zoom, records, pins, onZoomChange, onPin, onNodeClick };
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const { graph: { nodes, links }, radius: radiusOf, color: colorOf, linkColor: linkColorOf, highlight: matched, selectedNodeId: selected } = stateRef.current;
+    const transform = transformRef.current;
+    const { width: viewWidth, height: viewHeight } = sizeRef.current;
+    const ratio = window.devicePixelRatio || 1;
+
+    context.save();
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, viewWidth, viewHeight);
+    context.translate(transform.x, transform.y);
+    context.scale(transform.k, transform.k);
+
+    // Only what's on screen is drawn
+    const [left, top] = transform.invert([0, 0]);
+    const [right, bottom] = transform.invert([viewWidth, viewHeight]);
+    const visible = (x = 0, y = 0, margin = 0) => x >= left - margin && x <= right + margin && y >= top - margin && y <= bottom + margin;
+
+    links.forEach(link => {
+      if (typeof link.source === 'string' || typeof link.target === 'string') return;
+      const { x: x1 = 0, y: y1 = 0 } = link.source;
+      const { x: x2 = 0, y: y2 = 0 } = link.target;
+      if (!visible(x1, y1) && !visible(x2, y2)) return;
+      context.globalAlpha = !matched ? 0.6 : matched.linkKeys.has(linkKey(link)) ? 0.9 : 0.05;
+      context.strokeStyle = linkColorOf(link);
+      context.lineWidth = Math.sqrt(link.value) * 2;
+      context.setLineDash(link.stats?.direction === 'negative' ? [6, 4] : []);
+      context.beginPath();
+      context.moveTo(x1, y1);
+      context.lineTo(x2, y2);
+      context.stroke();
+    });
+    context.setLineDash([]);
+
+    nodes.forEach(node => {
+      const r = radiusOf(node);
+      if (!visible(node.x, node.y, r)) return;
+      context.globalAlpha = !matched || matched.nodeIds.has(node.id) ? 1 : 0.15;
+      context.beginPath();
+      context.arc(node.x ?? 0, node.y ?? 0, r, 0, 2 * Math.PI);
+      context.fillStyle = colorOf(node);
+      context.fill();
+      context.lineWidth = node.id === selected ? 4 : 2;
+      context.strokeStyle = node.id === selected ? 'hsl(220, 90%, 15%)' : '#fff';
+      context.stroke();
+    });
+
+    const labelled = labelledNodes(nodes, radiusOf, transform.k, node => visible(node.x, node.y), selected, matched);
+    context.font = 'bold 10px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillStyle = 'hsl(220, 90%, 15%)';
+    labelled.forEach(node => {
+      context.globalAlpha = !matched || matched.nodeIds.has(node.id) ? 1 : 0.15;
+      context.fillText(String(node.value), node.x ?? 0, node.y ?? 0);
+    });
+
+    context.restore();
+  }, []);
+
+  const scheduleDraw = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      draw();
+    });
+  }, [draw]);
+
+  const positionsChanged = useCallback(() => {
+    treeRef.current = null;
+    scheduleDraw();
+  }, [scheduleDraw]);
+
+  // Node under a point in screen coordinates, if any
+  const nodeAt = useCallback((x: number, y: number): { node: GraphNode; index: number } | undefined => {
+    const { graph: { nodes }, radius: radiusOf } = stateRef.current;
+    const [px, py] = transformRef.current.invert([x, y]);
+    if (!treeRef.current) {
+      treeRef.current = d3.quadtree<number>()
+        .x(i => nodes[i].x ?? 0)
+        .y(i => nodes[i].y ?? 0)
+        .addAll(nodes.map((_, i) => i));
+    }
+    const index = treeRef.current.find(px, py, 30);
+    if (index === undefined) return undefined;
+    const node = nodes[index];
+    return Math.hypot((node.x ?? 0) - px, (node.y ?? 0) - py) <= radiusOf(node) + 2 ? { node, index } : undefined;
+  }, []);
+
+  // Follows the container; the view keeps its middle where it was
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    const previous = { width: canvas.width / ratio, height: canvas.height / ratio };
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    // On mount the zoom is set up afterwards, with nothing to carry over
+    if (zoomBehaviorRef.current) {
+      const { x, y, k } = transformRef.current;
+      const shifted = d3.zoomIdentity.translate(x + (width - previous.width) / 2, y + (height - previous.height) / 2).scale(k);
+      d3.select(canvas).call(zoomBehaviorRef.current.transform, shifted);
+    }
+    draw();
+  }, [width, height, draw]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const { nodes, links } = graph;
+    treeRef.current = null;
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    links.forEach(link => {
+      link.source = byId.get(nodeId(link.source)) ?? link.source;
+      link.target = byId.get(nodeId(link.target)) ?? link.target;
+    });
+
+    const zoomBehavior = d3.zoom<HTMLCanvasElement, unknown>()
+      .scaleExtent(SCALE_EXTENT)
+      .on('zoom', event => {
+        transformRef.current = event.transform;
+        scheduleDraw();
+      })
+      .on('end', event => {
+        if (event.sourceEvent) stateRef.current.onZoomChange?.(Number(event.transform.k.toFixed(2)));
+      });
+    zoomBehaviorRef.current = zoomBehavior;
+
+    // A press that never moves is a click, and leaves the node where it is
+    const drag = d3.drag<HTMLCanvasElement, unknown, { node: GraphNode; index: number; moved?: boolean } | undefined>()
+      .container(canvas)
+      .subject(event => nodeAt(event.x, event.y))
+      .on('drag', event => {
+        const [x, y] = transformRef.current.invert([event.x, event.y]);
+        const { node, index } = event.subject;
+        event.subject.moved = true;
+        if (jobRef.current) {
+          jobRef.current.drag(index, x, y);
+          return;
+        }
+        // Fixed layouts move the node directly
+        node.x = node.fx = x;
+        node.y = node.fy = y;
+        positionsChanged();
+      })
+      .on('end', event => {
+        if (!event.subject.moved) return;
+        const [x, y] = transformRef.current.invert([event.x, event.y]);
+        jobRef.current?.drop(event.subject.index);
+        stateRef.current.onPin(event.subject.node.id, { x, y });
+      });
+
+    const selection = d3.select(canvas);
+    // Drag goes first so a press on a node moves it instead of panning
+    selection.call(drag).call(zoomBehavior).on('dblclick.zoom', null);
+    selection.call(zoomBehavior.scaleTo, stateRef.current.zoom);
+    controlsRef.current = {
+      transform: () => transformRef.current,
+      setTransform: (transform, animate = true) => {
+        if (!animate) {
+          selection.call(zoomBehavior.transform, transform);
+          return;
+        }
+        selection.transition().duration(300).call(zoomBehavior.transform, transform)
+          .on('end', () => stateRef.current.onZoomChange?.(Number(transform.k.toFixed(2))));
+      },
+    };
+    selection
+      .on('click', (event: MouseEvent) => {
+        const [x, y] = d3.pointer(event, canvas);
+        const hit = nodeAt(x, y);
+        if (hit) stateRef.current.onNodeClick(hit.node);
+      })
+      .on('mousemove', (event: MouseEvent) => {
+        const [x, y] = d3.pointer(event, canvas);
+        const hit = nodeAt(x, y);
+        canvas.style.cursor = hit ? 'pointer' : 'default';
+        canvas.title = hit ? `${String(hit.node.value)} (${hit.node.type})` : '';
+      });
+
+    return () => {
+      controlsRef.current = null;
+      selection.interrupt();
+      selection.on('.zoom', null).on('.drag', null).on('click', null).on('mousemove', null);
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, [graph, controlsRef, scheduleDraw, positionsChanged, nodeAt]);
+
+  // The force layout runs in the worker, whose positions are written back onto
+  // the nodes as d3 would in place; fixed layouts animate on this thread
+  useEffect(() => {
+    // Resizing moves the view rather than laying the graph out again
+    const { width: layoutWidth, height: layoutHeight } = sizeRef.current;
+    const { records: currentRecords, pins: currentPins } = stateRef.current;
+    const targets = layoutPositions(graph, layout, currentRecords, layoutWidth, layoutHeight);
+
+    if (!targets) {
+      applyPins(graph.nodes, currentPins);
+      const applyPositions = (positions: Float32Array) => {
+        graph.nodes.forEach((node, i) => {
+          node.x = positions[2 * i];
+          node.y = positions[2 * i + 1];
+        });
+        positionsChanged();
+      };
+      jobRef.current = runLayoutInWorker(graph, layoutWidth, layoutHeight, applyPositions, message => {
+        toast.error(`Background layout failed (${message}); laying the graph out here instead, which may be slow`);
+        jobRef.current = runLayoutOnMainThread(graph, layoutWidth, layoutHeight, applyPositions);
+      });
+      return () => {
+        jobRef.current?.stop();
+        jobRef.current = null;
+      };
+    }
+
+    currentPins.forEach((point, id) => targets.set(id, point));
+    const timer = animateTo(graph.nodes, targets, positionsChanged);
+    return () => timer.stop();
+  }, [graph, layout, layoutVersion, positionsChanged]);
+
+  // Follow zoom changes from back/forward navigation or an edited URL
+  useEffect(() => {
+    if (!canvasRef.current || !zoomBehaviorRef.current) return;
+    if (Math.abs(transformRef.current.k - zoom) < 0.01) return;
+    d3.select(canvasRef.current).call(zoomBehaviorRef.current.scaleTo, zoom);
+  }, [zoom]);
+
+  useEffect(() => scheduleDraw(), [scheduleDraw, radius, color, highlight, selectedNodeId]);
+
+  return <canvas ref={canvasRef} className="block" style={{ width, height }} />;
+};
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef } from 'react';
+import * as d3 from 'd3';
+import { GraphNode } from '@/lib/graph';
+import { ViewControls, centerOn, nodeBounds } from '@/lib/graphView';
+
+interface GraphMinimapProps {
+  // Moved in place by the layout, so they're read afresh on every redraw
+  nodes: GraphNode[];
+  color: (node: GraphNode) => string;
+  controls: React.MutableRefObject<ViewControls | null>;
+  // Size of the main view
+  viewWidth: number;
+  viewHeight: number;
+}
+
+const WIDTH = 160;
+const HEIGHT = 110;
+const PADDING = 6;
+// Positions change with every layout tick; a few redraws a second are plenty
+const REDRAW_INTERVAL = 200;
+
+/** Overview of the whole graph with the visible part outlined; click or drag in it to pan there. */
+export const GraphMinimap: React.FC<GraphMinimapProps> = ({ nodes, color, controls, viewWidth, viewHeight }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const propsRef = useRef({ nodes, color, viewWidth, viewHeight });
+  propsRef.current = { nodes, color, viewWidth, viewHeight };
+  // Maps minimap pixels to graph coordinates, as of the last redraw
+  const scaleRef = useRef<{ x: d3.ScaleLinear<number, number>; y: d3.ScaleLinear<number, number> } | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = WIDTH * ratio;
+    canvas.height = HEIGHT * ratio;
+
+    const draw = () => {
+      const { nodes: current, color: colorOf, viewWidth: width, viewHeight: height } = propsRef.current;
+      const transform = controls.current?.transform();
+      const bounds = nodeBounds(current);
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, WIDTH, HEIGHT);
+      if (!bounds || !transform) return;
+
+      // The visible area counts toward the extent, so its outline never leaves the minimap
+      const [left, top] = transform.invert([0, 0]);
+      const [right, bottom] = transform.invert([width, height]);
+      const x0 = Math.min(bounds[0][0], left);
+      const y0 = Math.min(bounds[0][1], top);
+      const x1 = Math.max(bounds[1][0], right);
+      const y1 = Math.max(bounds[1][1], bottom);
+      const k = Math.min((WIDTH - 2 * PADDING) / Math.max(x1 - x0, 1), (HEIGHT - 2 * PADDING) / Math.max(y1 - y0, 1));
+      const x = d3.scaleLinear().domain([x0, x0 + (WIDTH - 2 * PADDING) / k]).range([PADDING, WIDTH - PADDING]);
+      const y = d3.scaleLinear().domain([y0, y0 + (HEIGHT - 2 * PADDING) / k]).range([PADDING, HEIGHT - PADDING]);
+      scaleRef.current = { x, y };
+
+      current.forEach(node => {
+        context.fillStyle = colorOf(node);
+        context.fillRect(x(node.x ?? 0) - 1, y(node.y ?? 0) - 1, 2, 2);
+      });
+      context.strokeStyle = 'hsl(220, 90%, 15%)';
+      context.lineWidth = 1;
+      context.strokeRect(x(left), y(top), x(right) - x(left), y(bottom) - y(top));
+    };
+
+    const pan = (event: { x: number; y: number }) => {
+      const scale = scaleRef.current;
+      const current = controls.current;
+      if (!scale || !current) return;
+      const { viewWidth: width, viewHeight: height } = propsRef.current;
+      current.setTransform(centerOn(current.transform(), scale.x.invert(event.x), scale.y.invert(event.y), width, height), false);
+      draw();
+    };
+
+    const timer = d3.interval(draw, REDRAW_INTERVAL);
+    draw();
+    const selection = d3.select(canvas).call(d3.drag<HTMLCanvasElement, unknown>().container(canvas).on('start drag', pan));
+    return () => {
+      timer.stop();
+      selection.on('.drag', null);
+    };
+  }, [controls]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute bottom-2 right-2 rounded-md border border-border bg-card/90 shadow-soft cursor-move"
+      style={{ width: WIDTH, height: HEIGHT }}
+    />
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Play, Save, Search, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { KnowledgeGraphData } from '@/lib/graph';
+import { EXAMPLE_QUERIES, QueryResult, QueryValue, SavedQuery, runQuery } from '@/lib/graphQuery';
+
+interface GraphQueryPanelProps {
+  graph: KnowledgeGraphData;
+  savedQueries: SavedQuery[];
+  onSavedQueriesChange?: (queries: SavedQuery[]) => void;
+  // Called with the matches to highlight, or null when the query is cleared
+  onResult: (result: QueryResult | null) => void;
+  onSelectNode: (id: string) => void;
+}
+
+const formatValue = (value: QueryValue): string => {
+  if (value === null) return '—';
+  if (typeof value === 'number') return Number.isInteger(value) ? value.toLocaleString() : value.toPrecision(4);
+  return String(value);
+};
+
+export const GraphQueryPanel: React.FC<GraphQueryPanelProps> = ({
+  graph,
+  savedQueries,
+  onSavedQueriesChange,
+  onResult,
+  onSelectNode,
+}) => {
+  const [query, setQuery] = useState(EXAMPLE_QUERIES[0].query);
+  const [name, setName] = useState('');
+  const [result, setResult] = useState<QueryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = () => {
+    try {
+      const next = runQuery(graph, query);
+      setResult(next);
+      setError(null);
+      onResult(next);
+    } catch (e) {
+      setResult(null);
+      setError((e as Error).message);
+      onResult(null);
+    }
+  };
+
+  const clear = () => {
+    setResult(null);
+    setError(null);
+    onResult(null);
+  };
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !query.trim()) return;
+    // Saving under an existing name overwrites it
+    onSavedQueriesChange?.([...savedQueries.filter(saved => saved.name !== trimmed), { name: trimmed, query }]);
+    setName('');
+    toast.success(`Saved query "${trimmed}"`);
+  };
+
+  const remove = (target: string) => onSavedQueriesChange?.(savedQueries.filter(saved => saved.name !== target));
+
+  return (
+    <Card className="p-4 bg-card shadow-soft border-border space-y-3">
+      <div className="flex items-center gap-2">
+        <Search className="w-4 h-4 text-muted-foreground" />
+        <h4 className="font-semibold text-foreground">Query the graph</h4>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-xs text-muted-foreground mr-1">Examples</span>
+        {EXAMPLE_QUERIES.map(example => (
+          <Badge key={example.name} variant="outline" className="cursor-pointer hover:bg-muted" onClick={() => setQuery(example.query)}>
+            {example.name}
+          </Badge>
+        ))}
+      </div>
+      {savedQueries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-muted-foreground mr-1">Saved</span>
+          {savedQueries.map(saved => (
+            <Badge key={saved.name} variant="secondary" className="cursor-pointer gap-1" onClick={() => setQuery(saved.query)}>
+              {saved.name}
+              <X
+                className="w-3 h-3 hover:text-destructive"
+                onClick={event => {
+                  event.stopPropagation();
+                  remove(saved.name);
+                }}
+              />
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Textarea
+        value={query}
+        onChange={event => setQuery(event.target.value)}
+        onKeyDown={event => {
+          if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+            event.preventDefault();
+            run();
+          }
+        }}
+        spellCheck={false}
+        rows={4}
+        className="font-mono text-xs"
+        placeholder="MATCH (r:region)-[e:parameter]->(p) WHERE p.value = 'temperature' RETURN r.value"
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={run} disabled={!query.trim()}>
+          <Play className="w-4 h-4 mr-2" />
+          Run
+        </Button>
+        <Button size="sm" variant="outline" onClick={clear} disabled={!result && !error}>
+          Clear
+        </Button>
+        <span className="text-xs text-muted-foreground">Ctrl+Enter runs the query</span>
+        {onSavedQueriesChange && (
+          <div className="flex items-center gap-2 ml-auto">
+            <Input
+              value={name}
+              onChange={event => setName(event.target.value)}
+              onKeyDown={event => event.key === 'Enter' && save()}
+              placeholder="Name"
+              className="h-9 w-40"
+            />
+            <Button size="sm" variant="outline" onClick={save} disabled={!name.trim() || !query.trim()}>
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            {result.rows.length.toLocaleString()} rows; {result.nodeIds.size.toLocaleString()} nodes and{' '}
+            {result.linkKeys.size.toLocaleString()} links highlighted
+          </p>
+          {result.rows.length > 0 && (
+            <div className="overflow-auto max-h-80 rounded-lg border border-border">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0">
+                  <tr className="bg-muted border-b border-border">
+                    {result.columns.map((column, i) => (
+                      <th key={i} className="p-2 text-left font-medium text-muted-foreground whitespace-nowrap">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rows.map((row, i) => (
+                    <tr key={i} className="border-b border-border">
+                      {row.map((cell, j) => (
+                        <td key={j} className="p-2 whitespace-nowrap text-muted-foreground">
+                          {cell.nodeId ? (
+                            <button className="font-medium text-foreground hover:underline" onClick={() => onSelectNode(cell.nodeId as string)}>
+                              {formatValue(cell.value)}
+                            </button>
+                          ) : (
+                            formatValue(cell.value)
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
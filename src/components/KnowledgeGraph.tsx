@@ -1,55 +1,223 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import * as d3 from 'd3';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
-import { Download, RotateCcw, ZoomIn, ZoomOut, Network } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { NodeInspector } from '@/components/NodeInspector';
+import { GraphQueryPanel } from '@/components/GraphQueryPanel';
+import { GraphCanvas } from '@/components/GraphCanvas';
+import { ColorEncoding, GraphAnalyticsPanel, SizeEncoding } from '@/components/GraphAnalyticsPanel';
+import { GraphMinimap } from '@/components/GraphMinimap';
+import { Activity, Download, FileUp, Minimize2, PinOff, RotateCcw, Scan, ZoomIn, ZoomOut, Network } from 'lucide-react';
 import { toast } from 'sonner';
+import { OceanDataset, columnsByRole, getRegions } from '@/lib/dataset';
+import {
+  DEFAULT_RELATIONSHIPS,
+  GraphHighlight,
+  GraphLink,
+  GraphNode,
+  KnowledgeGraphData,
+  RELATIONSHIP_LABELS,
+  RelationshipMethod,
+  RelationshipOptions,
+  linkKey,
+  mergeGraphs,
+  regionLinks,
+  relationshipLinks,
+  serializeGraph,
+} from '@/lib/graph';
+import { RDF_FORMATS, RdfFormat, graphToTriples, serializeRdf } from '@/lib/rdf';
+import { PROPERTY_GRAPH_FORMATS, PropertyGraphFormat, exportPropertyGraph } from '@/lib/graphExport';
+import { GRAPH_FILE_ACCEPT, GRAPH_FILE_LABELS, readGraphFile } from '@/lib/graphImport';
+import { HIERARCHY_LINK_TYPES, MAX_CHILDREN, collapseAll, collapseNode, expandNode, isExpandable, isExpanded } from '@/lib/drillDown';
+import { downloadFile } from '@/lib/download';
+import { CANVAS_NODE_THRESHOLD, createForceSimulation } from '@/lib/forceLayout';
+import { GraphLayout, LAYOUT_LABELS, LayoutPins, animateTo, applyPins, emptyPins, layoutPositions } from '@/lib/graphLayouts';
+import { SavedQuery } from '@/lib/graphQuery';
+import { analyzeGraph } from '@/lib/graphAnalytics';
+import { SCALE_EXTENT, ViewControls, fitTransform, scaleAbout, viewHeight } from '@/lib/graphView';
+import { ImageFormat, LegendEntry, PNG_RESOLUTIONS, buildScene, sceneToPdf, sceneToPng, sceneToSvg } from '@/lib/graphImage';
+import { useElementSize } from '@/hooks/use-element-size';
 
-interface CSVData {
-  latitude: number;
-  longitude: number;
-  region: string;
-  depth: number;
-  salinity: number;
-  temperature: number;
-  ph: number;
-  dissolved_oxygen: number;
-  fish_population: number;
-  plankton: number;
-  coral_coverage: number;
-  timestamp: string;
-  date: string;
+interface KnowledgeGraphProps {
+  dataset: OceanDataset;
+  // Graph restored from the workspace; generated from the dataset when absent.
+  savedGraph?: KnowledgeGraphData | null;
+  onGraphChange?: (graph: KnowledgeGraphData) => void;
+  // Selection and zoom are owned by the page so they can live in the URL.
+  selectedNodeId?: string | null;
+  onSelectNode?: (id: string | null) => void;
+  zoom?: number;
+  onZoomChange?: (scale: number) => void;
+  savedQueries?: SavedQuery[];
+  onSavedQueriesChange?: (queries: SavedQuery[]) => void;
 }
 
-interface GraphNode {
-  id: string;
-  type: 'region' | 'parameter' | 'biology' | 'time';
-  value?: number | string;
-  group: number;
-  x?: number;
-  y?: number;
-  fx?: number;
-  fy?: number;
-}
+const SIGNIFICANCE_LEVELS = [0.05, 0.01, 0.001];
 
-interface GraphLink {
-  source: string | GraphNode;
-  target: string | GraphNode;
-  value: number;
-  type: string;
-}
+const STATION_COLOR = 'hsl(265, 50%, 55%)';
+const CAST_COLOR = 'hsl(310, 45%, 60%)';
+const OBSERVATION_COLOR = 'hsl(200, 15%, 55%)';
 
-interface KnowledgeGraphProps {
-  data: CSVData[];
-}
+const POSITIVE_COLOR = 'hsl(145, 55%, 40%)';
+const NEGATIVE_COLOR = 'hsl(340, 70%, 55%)';
 
-export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
-  const [graphData, setGraphData] = useState<{ nodes: GraphNode[], links: GraphLink[] } | null>(null);
-  const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null);
+// Color scale for different node types
+const typeColor = d3.scaleOrdinal<string>()
+  .domain(['region', 'parameter', 'biology', 'time', 'station', 'cast', 'observation'])
+  .range(['hsl(220, 85%, 45%)', 'hsl(185, 70%, 45%)', 'hsl(15, 85%, 60%)', 'hsl(45, 85%, 55%)', STATION_COLOR, CAST_COLOR, OBSERVATION_COLOR]);
 
-  const generateKnowledgeGraph = () => {
+// Width to lay the graph out at until the container has been measured
+const DEFAULT_WIDTH = 800;
+
+// Community colours beyond this many are left out of the legend
+const MAX_LEGEND_COMMUNITIES = 10;
+
+const communityColor = (community: number): string => d3.schemeTableau10[community % d3.schemeTableau10.length];
+
+const nodeRadius = (d: GraphNode): number => {
+  switch (d.type) {
+    case 'region': return 12;
+    case 'parameter': return 10;
+    case 'biology': return 8;
+    case 'time': return 6;
+    case 'station': return 7;
+    case 'cast': return 5;
+    case 'observation': return 4;
+    default: return 8;
+  }
+};
+
+const linkColor = (d: GraphLink): string => {
+  switch (d.type) {
+    case 'parameter': return 'hsl(185, 70%, 45%)';
+    case 'biology': return 'hsl(15, 85%, 60%)';
+    case 'temporal': return 'hsl(45, 85%, 55%)';
+    case 'station': return STATION_COLOR;
+    case 'cast': return CAST_COLOR;
+    case 'observation': return OBSERVATION_COLOR;
+    case 'correlation': return d.stats?.direction === 'negative' ? NEGATIVE_COLOR : POSITIVE_COLOR;
+    default: return 'hsl(200, 25%, 70%)';
+  }
+};
+
+const endLabel = (end: string | GraphNode): string => (typeof end === 'string' ? end : String(end.value));
+
+const linkTooltip = (link: GraphLink): string => {
+  const ends = `${endLabel(link.source)} ↔ ${endLabel(link.target)}`;
+  if (!link.stats) return ends;
+  const { method, statistic, p, n, direction } = link.stats;
+  const value = method === 'mutual_information' ? `${statistic.toFixed(3)} bits` : statistic.toFixed(3);
+  return `${ends}\n${RELATIONSHIP_LABELS[method]} = ${value} (${direction})\np = ${p < 0.001 ? p.toExponential(1) : p.toFixed(3)}, n = ${n}`;
+};
+
+export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({
+  dataset,
+  savedGraph,
+  onGraphChange,
+  selectedNodeId = null,
+  onSelectNode,
+  zoom = 1,
+  onZoomChange,
+  savedQueries = [],
+  onSavedQueriesChange,
+}) => {
+  const data = dataset?.records;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const zoomBehaviorRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  // The d3 handlers are bound once per graph; read the latest props through refs
+  const callbacksRef = useRef({ onSelectNode, onZoomChange, zoom });
+  callbacksRef.current = { onSelectNode, onZoomChange, zoom };
+  // Copied, since the force layout mutates nodes and links in place
+  const [graphData, setGraphData] = useState<KnowledgeGraphData | null>(() => savedGraph ? serializeGraph(savedGraph) : null);
+  const selectedNode = graphData?.nodes.find(node => node.id === selectedNodeId) ?? null;
+  const [relationships, setRelationships] = useState<RelationshipOptions>(
+    () => savedGraph?.relationships ?? DEFAULT_RELATIONSHIPS,
+  );
+  const [includeObservations, setIncludeObservations] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Whether the file picked next replaces the graph or is merged into it
+  const importModeRef = useRef<'replace' | 'merge'>('replace');
+  // Bound to the d3 click handler, which outlives renders
+  const toggleNodeRef = useRef<(node: GraphNode) => void>(() => undefined);
+  // Matches of the last query, or the last shortest path; everything else is dimmed
+  const [highlight, setHighlight] = useState<GraphHighlight | null>(null);
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [sizeBy, setSizeBy] = useState<SizeEncoding>('type');
+  const [colorBy, setColorBy] = useState<ColorEncoding>('type');
+  // Betweenness is quadratic in the node count, so it's only worked out while the panel is open
+  const [layout, setLayout] = useState<GraphLayout>('force');
+  // Bumped to lay the graph out again, as when pins are released
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  const [pins, setPins] = useState<LayoutPins>(emptyPins);
+  // The d3 handlers and the layout effect read these without re-running on every change
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+  const pinsRef = useRef(pins);
+  pinsRef.current = pins;
+  const lastLayoutRef = useRef({ layout, version: layoutVersion });
+  const simulationRef = useRef<d3.Simulation<GraphNode, GraphLink> | null>(null);
+  const renderRef = useRef<() => void>(() => undefined);
+  // The graph follows its container's width, with a height to match
+  const [containerRef, { width: containerWidth }] = useElementSize<HTMLDivElement>();
+  const width = containerWidth || DEFAULT_WIDTH;
+  const height = viewHeight(width);
+  // One SVG element per node and link stops keeping up somewhere past a thousand nodes
+  const canvasMode = (graphData?.nodes.length ?? 0) > CANVAS_NODE_THRESHOLD;
+  const sizeRef = useRef({ width, height });
+  sizeRef.current = { width, height };
+  // Zoom of whichever renderer is showing, for the buttons, minimap and image export
+  const controlsRef = useRef<ViewControls | null>(null);
+  const metrics = useMemo(() => (showAnalytics && graphData ? analyzeGraph(graphData) : null), [showAnalytics, graphData]);
+  // Centrality and community encodings; node type sets size and colour otherwise
+  const encoding = useMemo(() => {
+    const byId = new Map(metrics?.nodes.map(m => [m.id, m]));
+    const measure = sizeBy === 'type' ? null : sizeBy;
+    const scale = d3.scaleSqrt()
+      .domain([0, (measure && d3.max(metrics?.nodes ?? [], m => m[measure])) || 1])
+      .range([4, 20]);
+    return {
+      radius: (d: GraphNode): number => {
+        const m = byId.get(d.id);
+        return measure && m ? scale(m[measure]) : nodeRadius(d);
+      },
+      color: (d: GraphNode): string => {
+        const m = byId.get(d.id);
+        return colorBy === 'community' && m ? communityColor(m.community) : typeColor(d.type);
+      },
+    };
+  }, [metrics, sizeBy, colorBy]);
+  // Shown above the graph and drawn under exported images
+  const legendEntries: LegendEntry[] = [
+    ...(metrics && colorBy === 'community'
+      ? d3.range(Math.min(metrics.communities, MAX_LEGEND_COMMUNITIES)).map(community => ({
+        label: `Community ${community + 1}`,
+        color: communityColor(community),
+        shape: 'circle' as const,
+      }))
+      : [
+        { label: 'Regions', color: typeColor('region'), shape: 'circle' as const },
+        { label: 'Parameters', color: typeColor('parameter'), shape: 'circle' as const },
+        { label: 'Biology', color: typeColor('biology'), shape: 'circle' as const },
+        { label: 'Time', color: typeColor('time'), shape: 'circle' as const },
+        { label: 'Stations', color: STATION_COLOR, shape: 'circle' as const },
+        { label: 'Casts', color: CAST_COLOR, shape: 'circle' as const },
+        { label: 'Observations', color: OBSERVATION_COLOR, shape: 'circle' as const },
+      ]),
+    { label: 'Positive association', color: POSITIVE_COLOR, shape: 'line' },
+    { label: 'Negative association', color: NEGATIVE_COLOR, shape: 'dashed' },
+  ];
+
+  const generateKnowledgeGraph = (options: RelationshipOptions = relationships) => {
     if (!data || data.length === 0) return;
 
     const nodes: GraphNode[] = [];
@@ -57,7 +225,7 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
     const nodeMap = new Map();
 
     // Create region nodes
-    const regions = [...new Set(data.map(d => d.region))];
+    const regions = getRegions(data);
     regions.forEach((region, index) => {
       const node: GraphNode = {
         id: `region-${region}`,
@@ -70,7 +238,10 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
     });
 
     // Create parameter nodes
-    const parameters = ['salinity', 'temperature', 'ph', 'dissolved_oxygen', 'depth'];
+    const parameters = [
+      ...columnsByRole(dataset, 'physical'),
+      ...dataset.columns.filter(c => c.name === 'depth'),
+    ].map(c => c.name);
     parameters.forEach((param, index) => {
       const node: GraphNode = {
         id: `param-${param}`,
@@ -83,7 +254,7 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
     });
 
     // Create biology nodes
-    const biologyParams = ['fish_population', 'plankton', 'coral_coverage'];
+    const biologyParams = columnsByRole(dataset, 'biological').map(c => c.name);
     biologyParams.forEach((param, index) => {
       const node: GraphNode = {
         id: `bio-${param}`,
@@ -96,7 +267,7 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
     });
 
     // Create time nodes (by month)
-    const months = [...new Set(data.map(d => d.date.substring(0, 7)))]; // YYYY-MM
+    const months = [...new Set(data.map(d => d.date.substring(0, 7)).filter(Boolean))]; // YYYY-MM, skipping missing dates
     months.forEach((month, index) => {
       const node: GraphNode = {
         id: `time-${month}`,
@@ -108,65 +279,18 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
       nodeMap.set(node.id, node);
     });
 
-    // Create links between regions and parameters
-    const regionStats = new Map();
-    data.forEach(record => {
-      const regionKey = `region-${record.region}`;
-      if (!regionStats.has(regionKey)) {
-        regionStats.set(regionKey, {
-          salinity: [],
-          temperature: [],
-          ph: [],
-          dissolved_oxygen: [],
-          depth: [],
-          fish_population: [],
-          plankton: [],
-          coral_coverage: []
-        });
-      }
-      
-      const stats = regionStats.get(regionKey);
-      stats.salinity.push(record.salinity);
-      stats.temperature.push(record.temperature);
-      stats.ph.push(record.ph);
-      stats.dissolved_oxygen.push(record.dissolved_oxygen);
-      stats.depth.push(record.depth);
-      stats.fish_population.push(record.fish_population);
-      stats.plankton.push(record.plankton);
-      stats.coral_coverage.push(record.coral_coverage);
-    });
+    // Regions link to the variables measured there, weighted by how high the
+    // regional mean sits; how the variables relate is left to the
+    // statistically derived edges below
+    links.push(...regionLinks(data, regions, parameters, biologyParams));
 
-    // Add links between regions and parameters
-    regionStats.forEach((stats, regionId) => {
-      parameters.forEach(param => {
-        const values = stats[param];
-        const avgValue = values.reduce((a: number, b: number) => a + b, 0) / values.length;
-        
-        links.push({
-          source: regionId,
-          target: `param-${param}`,
-          value: Math.max(0.1, Math.min(10, avgValue / 10)), // Normalize link strength
-          type: 'parameter'
-        });
-      });
-
-      biologyParams.forEach(param => {
-        const values = stats[param];
-        const avgValue = values.reduce((a: number, b: number) => a + b, 0) / values.length;
-        
-        links.push({
-          source: regionId,
-          target: `bio-${param}`,
-          value: Math.max(0.1, Math.min(10, avgValue / 100)), // Normalize link strength
-          type: 'biology'
-        });
-      });
-    });
+    links.push(...relationshipLinks(data, parameters, biologyParams, options));
 
     // Add temporal links
     const monthlyRegions = new Map();
     data.forEach(record => {
       const month = record.date.substring(0, 7);
+      if (!month) return;
       if (!monthlyRegions.has(month)) {
         monthlyRegions.set(month, new Set());
       }
@@ -184,32 +308,138 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
       });
     });
 
-    setGraphData({ nodes, links });
+    setGraphData({ nodes, links, relationships: options });
+    onGraphChange?.(serializeGraph({ nodes, links, relationships: options }));
+  };
+
+  const changeRelationships = (changes: Partial<RelationshipOptions>) => {
+    const next = { ...relationships, ...changes };
+    setRelationships(next);
+    generateKnowledgeGraph(next);
+  };
+
+  const updateGraph = (next: KnowledgeGraphData) => {
+    setGraphData(next);
+    onGraphChange?.(serializeGraph(next));
   };
 
+  // Drills into a region, station or cast, or folds it back up if it's open
+  const toggleNode = (node: GraphNode) => {
+    if (!graphData || !data?.length || !isExpandable(node)) return;
+    if (isExpanded(graphData, node.id)) {
+      updateGraph(collapseNode(graphData, node.id));
+      return;
+    }
+    const { graph, hidden } = expandNode(graphData, node, data);
+    updateGraph(graph);
+    if (hidden > 0) toast.info(`Showing the ${MAX_CHILDREN} largest of ${MAX_CHILDREN + hidden} children of ${node.value}`);
+  };
+  toggleNodeRef.current = toggleNode;
+
   const downloadGraph = () => {
     if (!graphData) return;
-    
-    const dataStr = JSON.stringify(graphData, null, 2);
-    const dataUri = 'data:application/json;charset=utf-8,'+ encodeURIComponent(dataStr);
-    
-    const linkElement = document.createElement('a');
-    linkElement.setAttribute('href', dataUri);
-    linkElement.setAttribute('download', 'knowledge-graph.json');
-    linkElement.click();
-    
+    downloadFile(JSON.stringify(serializeGraph(graphData), null, 2), 'knowledge-graph.json', 'application/json');
     toast.success('Knowledge graph downloaded as JSON');
   };
 
+  const openImport = (mode: 'replace' | 'merge') => {
+    importModeRef.current = mode;
+    fileInputRef.current?.click();
+  };
+
+  const importGraph = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Cleared so picking the same file again still fires a change
+    event.target.value = '';
+    if (!file) return;
+
+    readGraphFile(file)
+      .then(({ graph, format, skippedNodes, skippedLinks }) => {
+        const merge = importModeRef.current === 'merge' && graphData;
+        const next = merge ? mergeGraphs(graphData, graph) : graph;
+        setGraphData(serializeGraph(next));
+        if (next.relationships) setRelationships(next.relationships);
+        onGraphChange?.(serializeGraph(next));
+
+        const added = merge ? next.nodes.length - graphData.nodes.length : graph.nodes.length;
+        toast.success(
+          merge
+            ? `Merged ${file.name}: ${added} new of ${graph.nodes.length} nodes`
+            : `Opened ${GRAPH_FILE_LABELS[format]} graph with ${graph.nodes.length} nodes and ${graph.links.length} links`,
+        );
+        if (skippedNodes + skippedLinks > 0) {
+          toast.warning(`Skipped ${skippedNodes} nodes of unknown type and ${skippedLinks} dangling links`);
+        }
+      })
+      .catch((error: Error) => toast.error(`Could not import ${file.name}: ${error.message}`));
+  };
+
+  const downloadRdf = (format: RdfFormat) => {
+    if (!graphData) return;
+    const { label, extension, mimeType } = RDF_FORMATS[format];
+    const triples = graphToTriples(graphData, dataset, { includeObservations });
+    downloadFile(serializeRdf(triples, format), `knowledge-graph.${extension}`, mimeType);
+    toast.success(`Knowledge graph downloaded as ${label} (${triples.length.toLocaleString()} triples)`);
+  };
+
+  const downloadPropertyGraph = (format: PropertyGraphFormat) => {
+    if (!graphData) return;
+    const files = exportPropertyGraph(graphData, dataset, format);
+    files.forEach(({ content, fileName, mimeType }) => downloadFile(content, fileName, mimeType));
+    toast.success(`Knowledge graph downloaded as ${files.map(file => file.fileName).join(' and ')}`);
+  };
+
+  const zoomBy = (factor: number) => {
+    const controls = controlsRef.current;
+    if (controls) controls.setTransform(scaleAbout(controls.transform(), factor, width, height));
+  };
+
+  const fitToView = () => {
+    if (graphData) controlsRef.current?.setTransform(fitTransform(graphData.nodes, encoding.radius, width, height));
+  };
+
+  // Exactly what is on screen, pan and zoom included, with the legend below it
+  const exportImage = (format: ImageFormat, dpi = 300) => {
+    const controls = controlsRef.current;
+    if (!graphData || !controls) return;
+    const scene = buildScene(graphData, {
+      width,
+      height,
+      transform: controls.transform(),
+      radius: encoding.radius,
+      color: encoding.color,
+      linkColor,
+      highlight,
+      selectedNodeId,
+      // The canvas labels by level of detail, and the image matches it
+      allLabels: !canvasMode,
+      legend: legendEntries,
+    });
+    if (format === 'svg') {
+      downloadFile(sceneToSvg(scene), 'knowledge-graph.svg', 'image/svg+xml');
+      toast.success('Graph view downloaded as SVG');
+      return;
+    }
+    if (format === 'pdf') {
+      downloadFile(sceneToPdf(scene), 'knowledge-graph.pdf', 'application/pdf');
+      toast.success('Graph view downloaded as PDF');
+      return;
+    }
+    sceneToPng(scene, dpi)
+      .then(blob => {
+        downloadFile(blob, `knowledge-graph-${dpi}dpi.png`, 'image/png');
+        toast.success(`Graph view downloaded as PNG at ${dpi} dpi`);
+      })
+      .catch((error: Error) => toast.error(`Could not export the graph: ${error.message}`));
+  };
+
   useEffect(() => {
     if (!graphData || !svgRef.current) return;
 
     const svg = d3.select(svgRef.current);
     svg.selectAll("*").remove();
 
-    const width = 800;
-    const height = 600;
-    const margin = 40;
+    const { width, height } = sizeRef.current;
 
     svg.attr("width", width).attr("height", height);
 
@@ -217,76 +447,84 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
 
     // Create zoom behavior
     const zoom = d3.zoom<SVGSVGElement, unknown>()
-      .scaleExtent([0.1, 4])
+      .scaleExtent(SCALE_EXTENT)
       .on("zoom", (event) => {
         g.attr("transform", event.transform);
+      })
+      .on("end", (event) => {
+        // Only user gestures are reported; programmatic zooms come from the URL already
+        if (event.sourceEvent) callbacksRef.current.onZoomChange?.(Number(event.transform.k.toFixed(2)));
       });
 
     svg.call(zoom);
+    svg.call(zoom.scaleTo, callbacksRef.current.zoom);
+    zoomBehaviorRef.current = zoom;
+    controlsRef.current = {
+      transform: () => d3.zoomTransform(svg.node() as SVGSVGElement),
+      setTransform: (transform, animate = true) => {
+        if (!animate) {
+          svg.call(zoom.transform, transform);
+          return;
+        }
+        svg.transition().duration(300).call(zoom.transform, transform)
+          .on("end", () => callbacksRef.current.onZoomChange?.(Number(transform.k.toFixed(2))));
+      },
+    };
 
     // Create force simulation
-    const simulation = d3.forceSimulation(graphData.nodes)
-      .force("link", d3.forceLink(graphData.links).id((d: any) => d.id).distance(100))
-      .force("charge", d3.forceManyBody().strength(-300))
-      .force("center", d3.forceCenter(width / 2, height / 2))
-      .force("collision", d3.forceCollide().radius(30));
-
-    // Color scale for different node types
-    const colorScale = d3.scaleOrdinal<string>()
-      .domain(['region', 'parameter', 'biology', 'time'])
-      .range(['hsl(220, 85%, 45%)', 'hsl(185, 70%, 45%)', 'hsl(15, 85%, 60%)', 'hsl(45, 85%, 55%)']);
+    const simulation = createForceSimulation(graphData.nodes, graphData.links, width, height);
+    simulationRef.current = simulation;
 
     // Create links
     const link = g.append("g")
       .selectAll("line")
       .data(graphData.links)
       .enter().append("line")
-      .attr("stroke", (d) => {
-        switch (d.type) {
-          case 'parameter': return 'hsl(185, 70%, 45%)';
-          case 'biology': return 'hsl(15, 85%, 60%)';
-          case 'temporal': return 'hsl(45, 85%, 55%)';
-          default: return 'hsl(200, 25%, 70%)';
-        }
-      })
+      .attr("stroke", linkColor)
       .attr("stroke-opacity", 0.6)
-      .attr("stroke-width", (d) => Math.sqrt(d.value) * 2);
+      .attr("stroke-width", (d) => Math.sqrt(d.value) * 2)
+      .attr("stroke-dasharray", (d) => (d.stats?.direction === 'negative' ? '6 4' : null));
+
+    link.append("title").text(linkTooltip);
 
     // Create nodes
+    let moved = false;
     const node = g.append("g")
       .selectAll("circle")
       .data(graphData.nodes)
       .enter().append("circle")
-      .attr("r", (d) => {
-        switch (d.type) {
-          case 'region': return 12;
-          case 'parameter': return 10;
-          case 'biology': return 8;
-          case 'time': return 6;
-          default: return 8;
-        }
-      })
-      .attr("fill", (d) => colorScale(d.type) as string)
+      .attr("r", nodeRadius)
+      .attr("fill", (d) => typeColor(d.type))
       .attr("stroke", "#fff")
       .attr("stroke-width", 2)
       .style("cursor", "pointer")
       .on("click", (event, d) => {
-        setSelectedNode(d);
+        callbacksRef.current.onSelectNode?.(d.id);
+        toggleNodeRef.current(d);
       })
       .call(d3.drag<SVGCircleElement, GraphNode>()
-        .on("start", (event, d) => {
-          if (!event.active) simulation.alphaTarget(0.3).restart();
-          d.fx = d.x;
-          d.fy = d.y;
+        // Nothing is pinned until the pointer moves, so a click only selects
+        .on("start", () => {
+          moved = false;
         })
         .on("drag", (event, d) => {
+          if (!moved && layoutRef.current === 'force') simulation.alphaTarget(0.3).restart();
+          moved = true;
           d.fx = event.x;
           d.fy = event.y;
+          // Fixed layouts have no simulation to move the node along
+          if (layoutRef.current !== 'force') {
+            d.x = event.x;
+            d.y = event.y;
+            render();
+          }
         })
         .on("end", (event, d) => {
-          if (!event.active) simulation.alphaTarget(0);
-          d.fx = null;
-          d.fy = null;
+          if (!moved) return;
+          if (layoutRef.current === 'force' && !event.active) simulation.alphaTarget(0);
+          // Dropped nodes stay put, and are remembered for this layout
+          const point = { x: event.x, y: event.y };
+          setPins(current => ({ ...current, [layoutRef.current]: new Map(current[layoutRef.current]).set(d.id, point) }));
         }));
 
     // Add labels
@@ -303,7 +541,7 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
       .style("pointer-events", "none");
 
     // Update positions on tick
-    simulation.on("tick", () => {
+    const render = () => {
       link
         .attr("x1", (d: any) => d.source.x)
         .attr("y1", (d: any) => d.source.y)
@@ -317,15 +555,92 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
       label
         .attr("x", (d: any) => d.x)
         .attr("y", (d: any) => d.y);
-    });
-
+    };
+    simulation.on("tick", render);
+    renderRef.current = render;
+
+    return () => {
+      simulation.stop();
+      svg.interrupt();
+      controlsRef.current = null;
+    };
   }, [graphData]);
 
+  // Follows the container; the view keeps its middle where it was
   useEffect(() => {
-    generateKnowledgeGraph();
+    const element = svgRef.current;
+    if (!element || !zoomBehaviorRef.current) return;
+    const svg = d3.select(element);
+    const previous = { width: Number(svg.attr("width")), height: Number(svg.attr("height")) };
+    if (previous.width === width && previous.height === height) return;
+    svg.attr("width", width).attr("height", height);
+    const { x, y, k } = d3.zoomTransform(element);
+    svg.call(zoomBehaviorRef.current.transform, d3.zoomIdentity.translate(x + (width - previous.width) / 2, y + (height - previous.height) / 2).scale(k));
+  }, [width, height, graphData]);
+
+  // Moves between the force simulation and the fixed layouts
+  useEffect(() => {
+    const simulation = simulationRef.current;
+    if (!graphData || !svgRef.current || !simulation) return;
+    const pinned = pinsRef.current[layout];
+    const changed = lastLayoutRef.current.layout !== layout || lastLayoutRef.current.version !== layoutVersion;
+    lastLayoutRef.current = { layout, version: layoutVersion };
+
+    // Laid out at the current size; resizing afterwards moves the view instead
+    const { width, height } = sizeRef.current;
+    const targets = layoutPositions(graphData, layout, data ?? [], width, height);
+    if (!targets) {
+      applyPins(graphData.nodes, pinned);
+      // Coming back from a fixed layout, the simulation picks up from where the nodes are
+      if (changed) simulation.alpha(0.5).restart();
+      return;
+    }
+    simulation.stop();
+    pinned.forEach((point, id) => targets.set(id, point));
+    const timer = animateTo(graphData.nodes, targets, renderRef.current);
+    return () => timer.stop();
+  }, [graphData, data, layout, layoutVersion]);
+
+  // Follow zoom changes from back/forward navigation or an edited URL
+  useEffect(() => {
+    if (!svgRef.current || !zoomBehaviorRef.current) return;
+    if (Math.abs(d3.zoomTransform(svgRef.current).k - zoom) < 0.01) return;
+    d3.select(svgRef.current).call(zoomBehaviorRef.current.scaleTo, zoom);
+  }, [zoom]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    d3.select(svgRef.current)
+      .selectAll<SVGCircleElement, GraphNode>("circle")
+      .attr("stroke", (d) => (d.id === selectedNodeId ? "hsl(220, 90%, 15%)" : "#fff"))
+      .attr("stroke-width", (d) => (d.id === selectedNodeId ? 4 : 2));
+  }, [selectedNodeId, graphData]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const matched = (d: GraphNode) => !highlight || highlight.nodeIds.has(d.id);
+    svg.selectAll<SVGCircleElement, GraphNode>("circle").attr("opacity", (d) => (matched(d) ? 1 : 0.15));
+    svg.selectAll<SVGTextElement, GraphNode>("text").attr("opacity", (d) => (matched(d) ? 1 : 0.15));
+    svg.selectAll<SVGLineElement, GraphLink>("line")
+      .attr("stroke-opacity", (d) => (!highlight ? 0.6 : highlight.linkKeys.has(linkKey(d)) ? 0.9 : 0.05));
+  }, [highlight, graphData]);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    d3.select(svgRef.current)
+      .selectAll<SVGCircleElement, GraphNode>("circle")
+      .attr("r", encoding.radius)
+      .attr("fill", encoding.color);
+  }, [encoding, graphData]);
+
+  useEffect(() => {
+    if (!graphData) generateKnowledgeGraph();
   }, [data]);
 
-  if (!data || data.length === 0) {
+  const hasData = data && data.length > 0;
+
+  if (!hasData && !graphData) {
     return (
       <Card className="p-8 text-center bg-card shadow-soft border-border">
         <Network className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
@@ -341,60 +656,247 @@ export const KnowledgeGraph: React.FC<KnowledgeGraphProps> = ({ data }) => {
         <div className="flex justify-between items-center mb-4">
           <div>
             <h3 className="text-xl font-bold text-foreground mb-2">Knowledge Graph Visualization</h3>
-            <p className="text-muted-foreground">Interactive network of oceanic data relationships</p>
+            <p className="text-muted-foreground">
+              {hasData
+                ? 'Interactive network of oceanic data relationships'
+                : 'Imported graph; upload its dataset to regenerate or merge it with new data'}
+            </p>
           </div>
-          <div className="flex gap-2">
-            <Button onClick={generateKnowledgeGraph} variant="outline" size="sm">
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={relationships.method}
+              disabled={!hasData}
+              onValueChange={value => changeRelationships({ method: value as RelationshipMethod })}
+            >
+              <SelectTrigger className="w-44 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RELATIONSHIP_LABELS).map(([method, label]) => (
+                  <SelectItem key={method} value={method}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={String(relationships.alpha)}
+              disabled={!hasData}
+              onValueChange={value => changeRelationships({ alpha: Number(value) })}
+            >
+              <SelectTrigger className="w-32 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIGNIFICANCE_LEVELS.map(alpha => (
+                  <SelectItem key={alpha} value={String(alpha)}>p &lt; {alpha}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => generateKnowledgeGraph()} variant="outline" size="sm" disabled={!hasData}>
               <RotateCcw className="w-4 h-4 mr-2" />
               Regenerate
             </Button>
-            <Button onClick={downloadGraph} variant="outline" size="sm">
-              <Download className="w-4 h-4 mr-2" />
-              Download
+            <Button
+              onClick={() => graphData && updateGraph(collapseAll(graphData))}
+              variant="outline"
+              size="sm"
+              disabled={!graphData?.links.some(link => HIERARCHY_LINK_TYPES.includes(link.type))}
+            >
+              <Minimize2 className="w-4 h-4 mr-2" />
+              Collapse all
+            </Button>
+            <Select value={layout} onValueChange={value => setLayout(value as GraphLayout)}>
+              <SelectTrigger className="w-44 h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LAYOUT_LABELS) as GraphLayout[]).map(option => (
+                  <SelectItem key={option} value={option}>{LAYOUT_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => {
+                setPins(current => ({ ...current, [layout]: new Map() }));
+                setLayoutVersion(version => version + 1);
+              }}
+              variant="outline"
+              size="sm"
+              disabled={pins[layout].size === 0}
+            >
+              <PinOff className="w-4 h-4 mr-2" />
+              Release {pins[layout].size > 0 ? pins[layout].size : ''} pins
+            </Button>
+            <Button onClick={() => setShowAnalytics(!showAnalytics)} variant={showAnalytics ? 'secondary' : 'outline'} size="sm">
+              <Activity className="w-4 h-4 mr-2" />
+              Analytics
             </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={GRAPH_FILE_ACCEPT}
+              className="hidden"
+              onChange={importGraph}
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <FileUp className="w-4 h-4 mr-2" />
+                  Import
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-64">
+                <DropdownMenuLabel>JSON, JSON-LD or GraphML</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => openImport('replace')}>Open in place of this graph</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => openImport('merge')}>Merge into this graph</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-64">
+                <DropdownMenuItem onSelect={downloadGraph}>Graph JSON</DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>RDF (SOSA/SSN, CF, QUDT)</DropdownMenuLabel>
+                {(Object.keys(RDF_FORMATS) as RdfFormat[]).map(format => (
+                  <DropdownMenuItem key={format} onSelect={() => downloadRdf(format)}>
+                    {RDF_FORMATS[format].label} (.{RDF_FORMATS[format].extension})
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuCheckboxItem
+                  checked={includeObservations}
+                  onCheckedChange={checked => setIncludeObservations(checked === true)}
+                  // Keep the menu open so a format can be picked next
+                  onSelect={event => event.preventDefault()}
+                >
+                  Include {data.length.toLocaleString()} records as observations
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Property graph (Gephi, Neo4j)</DropdownMenuLabel>
+                {(Object.keys(PROPERTY_GRAPH_FORMATS) as PropertyGraphFormat[]).map(format => (
+                  <DropdownMenuItem key={format} onSelect={() => downloadPropertyGraph(format)}>
+                    {PROPERTY_GRAPH_FORMATS[format]}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Image of the current view</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => exportImage('svg')}>SVG</DropdownMenuItem>
+                {PNG_RESOLUTIONS.map(dpi => (
+                  <DropdownMenuItem key={dpi} onSelect={() => exportImage('png', dpi)}>PNG at {dpi} dpi</DropdownMenuItem>
+                ))}
+                <DropdownMenuItem onSelect={() => exportImage('pdf')}>PDF</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </div>
         </div>
 
         {/* Legend */}
         <div className="flex flex-wrap gap-4 mb-4 p-4 bg-muted/30 rounded-lg">
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: 'hsl(220, 85%, 45%)' }}></div>
-            <span className="text-sm text-muted-foreground">Regions</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: 'hsl(185, 70%, 45%)' }}></div>
-            <span className="text-sm text-muted-foreground">Parameters</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: 'hsl(15, 85%, 60%)' }}></div>
-            <span className="text-sm text-muted-foreground">Biology</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: 'hsl(45, 85%, 55%)' }}></div>
-            <span className="text-sm text-muted-foreground">Time</span>
-          </div>
+          {legendEntries.map(({ label, color, shape }) => (
+            <div key={label} className="flex items-center gap-2">
+              {shape === 'circle' && <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }}></div>}
+              {shape === 'line' && <div className="w-5 h-0.5" style={{ backgroundColor: color }}></div>}
+              {shape === 'dashed' && <div className="w-5 border-t-2 border-dashed" style={{ borderColor: color }}></div>}
+              <span className="text-sm text-muted-foreground">{label}</span>
+            </div>
+          ))}
+          {metrics && colorBy === 'community' && metrics.communities > MAX_LEGEND_COMMUNITIES && (
+            <span className="text-sm text-muted-foreground">
+              and {metrics.communities - MAX_LEGEND_COMMUNITIES} more communities, listed under Graph analytics
+            </span>
+          )}
         </div>
 
-        <div className="border border-border rounded-lg overflow-hidden bg-card">
-          <svg ref={svgRef} className="w-full"></svg>
+        <div ref={containerRef} className="relative border border-border rounded-lg overflow-hidden bg-card">
+          {canvasMode ? (
+            <GraphCanvas
+              graph={graphData}
+              radius={encoding.radius}
+              color={encoding.color}
+              linkColor={linkColor}
+              highlight={highlight}
+              selectedNodeId={selectedNodeId}
+              width={width}
+              height={height}
+              zoom={zoom}
+              onZoomChange={onZoomChange}
+              layout={layout}
+              layoutVersion={layoutVersion}
+              records={data ?? []}
+              pins={pins[layout]}
+              controlsRef={controlsRef}
+              onPin={(id, point) => setPins(current => ({ ...current, [layout]: new Map(current[layout]).set(id, point) }))}
+              onNodeClick={node => {
+                onSelectNode?.(node.id);
+                toggleNode(node);
+              }}
+            />
+          ) : (
+            <svg ref={svgRef} className="block"></svg>
+          )}
+          <div className="absolute top-2 right-2 flex flex-col gap-1">
+            <Button onClick={() => zoomBy(1.5)} variant="outline" size="icon" className="h-8 w-8 bg-card/90" title="Zoom in">
+              <ZoomIn className="w-4 h-4" />
+            </Button>
+            <Button onClick={() => zoomBy(1 / 1.5)} variant="outline" size="icon" className="h-8 w-8 bg-card/90" title="Zoom out">
+              <ZoomOut className="w-4 h-4" />
+            </Button>
+            <Button onClick={fitToView} variant="outline" size="icon" className="h-8 w-8 bg-card/90" title="Fit to view">
+              <Scan className="w-4 h-4" />
+            </Button>
+          </div>
+          {graphData && (
+            <GraphMinimap nodes={graphData.nodes} color={encoding.color} controls={controlsRef} viewWidth={width} viewHeight={height} />
+          )}
         </div>
 
         <p className="text-xs text-muted-foreground mt-2">
-          Click and drag nodes to reposition them. Use mouse wheel to zoom. Click nodes for details.
+          Drag nodes to pin them where they are dropped; each layout keeps its own pins. Use the mouse wheel or the buttons to zoom, and the overview in the corner to pan.
+          Click nodes for details; clicking a region, station or cast also opens or closes the level below it, down to single readings.
+          Parameter–biology edges are drawn where the association is significant; hover one for its statistics.
         </p>
       </Card>
 
-      {selectedNode && (
-        <Card className="p-4 bg-card shadow-soft border-border">
-          <h4 className="font-semibold text-foreground mb-2">Selected Node Details</h4>
-          <div className="flex gap-2 mb-2">
-            <Badge variant="outline">{selectedNode.type}</Badge>
-            <Badge variant="secondary">{String(selectedNode.value)}</Badge>
-          </div>
-          <p className="text-sm text-muted-foreground">
-            Node ID: {selectedNode.id}
-          </p>
-        </Card>
+      {metrics && graphData && (
+        <GraphAnalyticsPanel
+          graph={graphData}
+          metrics={metrics}
+          sizeBy={sizeBy}
+          onSizeByChange={setSizeBy}
+          colorBy={colorBy}
+          onColorByChange={setColorBy}
+          communityColor={communityColor}
+          selectedNodeId={selectedNodeId}
+          onSelectNode={id => onSelectNode?.(id)}
+          onHighlight={setHighlight}
+          onClose={() => {
+            setShowAnalytics(false);
+            setHighlight(null);
+          }}
+        />
+      )}
+
+      {graphData && (
+        <GraphQueryPanel
+          graph={graphData}
+          savedQueries={savedQueries}
+          onSavedQueriesChange={onSavedQueriesChange}
+          onResult={setHighlight}
+          onSelectNode={id => onSelectNode?.(id)}
+        />
+      )}
+
+      {selectedNode && graphData && (
+        <NodeInspector
+          graph={graphData}
+          node={selectedNode}
+          dataset={dataset}
+          onSelectNode={id => onSelectNode?.(id)}
+          onClose={() => onSelectNode?.(null)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,338 @@
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DataTable } from '@/components/DataTable';
+import { Table2, X } from 'lucide-react';
+import { OceanDataset, formatCell, formatColumnLabel, measuredColumns } from '@/lib/dataset';
+import { GraphNode, KnowledgeGraphData } from '@/lib/graph';
+import { nodeRecords } from '@/lib/drillDown';
+import { describe, formatStat, sortedValues } from '@/lib/statistics';
+import { formatBucket } from '@/lib/timeSeries';
+import { RegionDistribution, monthDeviations, monthlyMeans, neighborsByType, regionDistributions } from '@/lib/nodeInspection';
+
+interface NodeInspectorProps {
+  graph: KnowledgeGraphData;
+  node: GraphNode;
+  // Records the graph was built from; empty for an imported graph
+  dataset: OceanDataset;
+  onSelectNode: (id: string) => void;
+  onClose: () => void;
+}
+
+const RELATION_LABELS: Record<string, string> = {
+  parent: 'Part of',
+  parameter: 'Parameters',
+  biology: 'Biology',
+  temporal: 'Sampled together in time',
+  correlation: 'Significant associations',
+  station: 'Stations',
+  cast: 'Casts',
+  observation: 'Observations',
+  related: 'Related',
+};
+
+// Neighbors listed per relation before the rest are summarised
+const MAX_NEIGHBORS = 24;
+
+const SPARK_WIDTH = 320;
+const SPARK_HEIGHT = 56;
+
+const BOX_WIDTH = 480;
+const BOX_LABEL_WIDTH = 120;
+const BOX_ROW = 22;
+
+// Red above the region's mean, blue below, saturating at three standard deviations.
+const deviationColor = (z: number): string => d3.interpolateRdBu(0.5 - Math.max(-1, Math.min(1, z / 3)) / 2);
+
+const Sparkline: React.FC<{ points: { time: number; mean: number }[] }> = ({ points }) => {
+  if (points.length < 2) {
+    return <p className="text-xs text-muted-foreground">Fewer than two months with values.</p>;
+  }
+  const x = d3.scaleLinear().domain(d3.extent(points, p => p.time) as [number, number]).range([4, SPARK_WIDTH - 4]);
+  const y = d3.scaleLinear().domain(d3.extent(points, p => p.mean) as [number, number]).nice().range([SPARK_HEIGHT - 4, 4]);
+  const path = d3.line<{ time: number; mean: number }>().x(p => x(p.time)).y(p => y(p.mean))(points) ?? '';
+  const last = points[points.length - 1];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`} className="w-full max-w-sm h-14">
+        <path d={path} fill="none" stroke="hsl(var(--primary))" strokeWidth={1.5} />
+        <circle cx={x(last.time)} cy={y(last.mean)} r={2.5} fill="hsl(var(--primary))" />
+      </svg>
+      <div className="flex justify-between max-w-sm text-xs text-muted-foreground">
+        <span>{formatBucket(points[0].time, 'month')}</span>
+        <span>{formatStat(d3.min(points, p => p.mean) as number)} – {formatStat(d3.max(points, p => p.mean) as number)}</span>
+        <span>{formatBucket(last.time, 'month')}</span>
+      </div>
+    </div>
+  );
+};
+
+// One horizontal box plot per region on a shared axis.
+const RegionBoxPlots: React.FC<{ distributions: RegionDistribution[]; unit?: string }> = ({ distributions, unit }) => {
+  const x = d3.scaleLinear()
+    .domain([d3.min(distributions, d => d.box.lowerWhisker) as number, d3.max(distributions, d => d.box.upperWhisker) as number])
+    .nice()
+    .range([BOX_LABEL_WIDTH, BOX_WIDTH - 8]);
+  const height = distributions.length * BOX_ROW + 20;
+
+  return (
+    <svg viewBox={`0 0 ${BOX_WIDTH} ${height}`} className="w-full max-w-xl">
+      {distributions.map(({ region, stats, box }, index) => {
+        const middle = index * BOX_ROW + BOX_ROW / 2;
+        return (
+          <g key={region}>
+            <title>
+              {`${region}: n = ${stats.count}, median ${formatStat(box.median)}, mean ${formatStat(stats.mean)}${unit ? ` ${unit}` : ''}`}
+            </title>
+            <text x={BOX_LABEL_WIDTH - 8} y={middle} dy="0.35em" textAnchor="end" fontSize={11} className="fill-muted-foreground">
+              {region.length > 18 ? `${region.slice(0, 17)}…` : region}
+            </text>
+            <line x1={x(box.lowerWhisker)} x2={x(box.upperWhisker)} y1={middle} y2={middle} stroke="hsl(var(--muted-foreground))" />
+            <rect
+              x={x(box.q1)}
+              width={Math.max(1, x(box.q3) - x(box.q1))}
+              y={middle - 6}
+              height={12}
+              fill="hsl(var(--primary))"
+              fillOpacity={0.25}
+              stroke="hsl(var(--primary))"
+            />
+            <line x1={x(box.median)} x2={x(box.median)} y1={middle - 6} y2={middle + 6} stroke="hsl(var(--primary))" strokeWidth={2} />
+          </g>
+        );
+      })}
+      {x.ticks(5).map(tick => (
+        <text key={tick} x={x(tick)} y={height - 4} textAnchor="middle" fontSize={10} className="fill-muted-foreground">
+          {formatStat(tick)}
+        </text>
+      ))}
+    </svg>
+  );
+};
+
+/**
+ * Everything known about the selected node: what it links to and, where the
+ * dataset is loaded, the records behind it.
+ */
+export const NodeInspector: React.FC<NodeInspectorProps> = ({ graph, node, dataset, onSelectNode, onClose }) => {
+  const [sparkVariable, setSparkVariable] = useState<string | null>(null);
+  const [showRecords, setShowRecords] = useState(false);
+
+  const variables = useMemo(() => measuredColumns(dataset), [dataset]);
+  const neighbors = useMemo(() => [...neighborsByType(graph, node.id).entries()], [graph, node.id]);
+  // Parameter nodes stand for every record with a value; listing those adds nothing
+  const aggregatesRecords = node.type !== 'parameter' && node.type !== 'biology';
+  const records = useMemo(() => nodeRecords(node, dataset.records), [node, dataset.records]);
+
+  const summaries = useMemo(
+    () => variables
+      .map(column => ({ column, stats: describe(sortedValues(records, column.name).values, 0) }))
+      .filter(({ stats }) => stats.count > 0),
+    [variables, records],
+  );
+  const variable = sparkVariable && summaries.some(s => s.column.name === sparkVariable)
+    ? sparkVariable
+    : summaries[0]?.column.name ?? null;
+  const sparkline = useMemo(() => (variable ? monthlyMeans(records, variable) : []), [records, variable]);
+
+  const distributions = useMemo(
+    () => (aggregatesRecords ? [] : regionDistributions(dataset.records, String(node.value))),
+    [aggregatesRecords, dataset.records, node.value],
+  );
+  const deviations = useMemo(
+    () => (node.type === 'time' ? monthDeviations(dataset.records, String(node.value), summaries.map(s => s.column.name)) : []),
+    [node.type, node.value, dataset.records, summaries],
+  );
+  const column = dataset.columns.find(c => c.name === node.value);
+
+  return (
+    <Card className="p-4 bg-card shadow-soft border-border space-y-5">
+      <div className="flex justify-between items-start">
+        <div>
+          <h4 className="font-semibold text-foreground mb-2">{String(node.value ?? node.id)}</h4>
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{node.type}</Badge>
+            {dataset.records.length > 0 && aggregatesRecords && (
+              <Badge variant="secondary">{records.length.toLocaleString()} records</Badge>
+            )}
+            {node.latitude !== undefined && node.longitude !== undefined && (
+              <Badge variant="secondary">{node.latitude.toFixed(3)}, {node.longitude.toFixed(3)}</Badge>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">Node ID: {node.id}</p>
+        </div>
+        <Button onClick={onClose} variant="ghost" size="sm">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {dataset.records.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Upload the dataset this graph was built from to see the records behind the node.
+        </p>
+      )}
+
+      {/* A single reading: its values */}
+      {node.type === 'observation' && records[0] && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+          {dataset.columns.map(c => (
+            <div key={c.name} className="p-2 rounded-md bg-muted/30">
+              <div className="text-xs text-muted-foreground">{formatColumnLabel(c)}</div>
+              <div className="font-medium text-foreground">{formatCell(records[0], c)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Summary and trend of the records a region, month, station or cast stands for */}
+      {aggregatesRecords && node.type !== 'observation' && summaries.length > 0 && (
+        <div className="grid lg:grid-cols-2 gap-4">
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted border-b border-border">
+                  {['Variable', 'Count', 'Min', 'Mean', 'Max', 'Std'].map(heading => (
+                    <th key={heading} className={`p-2 font-medium text-muted-foreground ${heading === 'Variable' ? 'text-left' : 'text-right'}`}>
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map(({ column: c, stats }) => (
+                  <tr key={c.name} className="border-b border-border">
+                    <td className="p-2 whitespace-nowrap font-medium text-foreground">{formatColumnLabel(c)}</td>
+                    <td className="p-2 text-right text-muted-foreground">{stats.count.toLocaleString()}</td>
+                    {[stats.min, stats.mean, stats.max, stats.std].map((value, i) => (
+                      <td key={i} className="p-2 text-right text-muted-foreground">{formatStat(value)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-foreground">Monthly mean of</span>
+              <Select value={variable ?? undefined} onValueChange={setSparkVariable}>
+                <SelectTrigger className="w-48 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {summaries.map(({ column: c }) => (
+                    <SelectItem key={c.name} value={c.name}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Sparkline points={sparkline} />
+          </div>
+        </div>
+      )}
+
+      {/* Parameter: how it is distributed across regions */}
+      {distributions.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-foreground mb-2">
+            Distribution across regions{column ? ` (${formatColumnLabel(column)})` : ''}
+          </h5>
+          <RegionBoxPlots distributions={distributions} unit={column?.unit} />
+        </div>
+      )}
+
+      {/* Month: the regions sampled and how far they were from usual */}
+      {deviations.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-foreground mb-1">Regions sampled in {String(node.value)}</h5>
+          <p className="text-xs text-muted-foreground mb-2">
+            Month mean minus the region's overall mean; colour in standard deviations of the region.
+          </p>
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="bg-muted border-b border-border">
+                  <th className="p-2 text-left font-medium text-muted-foreground">Region</th>
+                  <th className="p-2 text-right font-medium text-muted-foreground">Records</th>
+                  {summaries.map(({ column: c }) => (
+                    <th key={c.name} className="p-2 text-right font-medium text-muted-foreground whitespace-nowrap">{c.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {deviations.map(({ region, count, deviations: byVariable }) => (
+                  <tr key={region} className="border-b border-border">
+                    <td className="p-2 whitespace-nowrap">
+                      <button className="font-medium text-foreground hover:underline" onClick={() => onSelectNode(`region-${region}`)}>
+                        {region}
+                      </button>
+                    </td>
+                    <td className="p-2 text-right text-muted-foreground">{count.toLocaleString()}</td>
+                    {summaries.map(({ column: c }) => {
+                      const deviation = byVariable[c.name];
+                      if (!deviation) return <td key={c.name} className="p-2 text-right text-muted-foreground">—</td>;
+                      const difference = deviation.mean - deviation.regionMean;
+                      return (
+                        <td
+                          key={c.name}
+                          className="p-2 text-right"
+                          style={{ backgroundColor: deviationColor(deviation.z), color: Math.abs(deviation.z) > 2 ? 'white' : undefined }}
+                          title={`${formatStat(deviation.mean)} this month vs ${formatStat(deviation.regionMean)} overall (z = ${deviation.z.toFixed(2)})`}
+                        >
+                          {difference > 0 ? '+' : ''}{formatStat(difference)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {neighbors.length > 0 && (
+        <div className="space-y-2">
+          <h5 className="text-sm font-medium text-foreground">Neighbors</h5>
+          {neighbors.map(([relation, linked]) => (
+            <div key={relation} className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-muted-foreground w-48 shrink-0">
+                {RELATION_LABELS[relation] ?? relation} ({linked.length})
+              </span>
+              {linked.slice(0, MAX_NEIGHBORS).map(neighbor => (
+                <Badge
+                  key={neighbor.id}
+                  variant="outline"
+                  className="cursor-pointer hover:bg-muted"
+                  onClick={() => onSelectNode(neighbor.id)}
+                >
+                  {String(neighbor.value ?? neighbor.id)}
+                </Badge>
+              ))}
+              {linked.length > MAX_NEIGHBORS && (
+                <span className="text-xs text-muted-foreground">and {linked.length - MAX_NEIGHBORS} more</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {aggregatesRecords && node.type !== 'observation' && records.length > 0 && (
+        <div>
+          <Button variant="outline" size="sm" onClick={() => setShowRecords(!showRecords)}>
+            <Table2 className="w-4 h-4 mr-2" />
+            {showRecords ? 'Hide records' : `Show ${records.length.toLocaleString()} records`}
+          </Button>
+          {showRecords && (
+            <div className="mt-3">
+              <DataTable dataset={{ ...dataset, records }} />
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { Card } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Activity } from 'lucide-react';
+import { OceanDataset, OceanRecord, formatColumnLabel, getColumn, getRegions, numericColumns, numericValue } from '@/lib/dataset';
+import { Cast, groupCasts, recordDensity, sigmaIsopleth, sigmaTheta } from '@/lib/oceanography';
+import { recordTime } from '@/lib/timeSeries';
+import { groupColor } from '@/lib/palette';
+
+interface ProfilePanelProps {
+  dataset: OceanDataset;
+  highlightedRecord?: OceanRecord | null;
+  onSelectRecord?: (record: OceanRecord) => void;
+}
+
+type ColorBy = 'region' | 'date';
+
+interface PlotPoint {
+  record: OceanRecord;
+  x: number;
+  y: number;
+}
+
+interface AxisProps {
+  scale: d3.ScaleLinear<number, number>;
+  orientation: 'bottom' | 'left';
+  offset: number;
+  label: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 420;
+const MARGIN = { top: 16, right: 24, bottom: 44, left: 60 };
+// Beyond this many points whole casts are thinned out to keep the SVG responsive
+const MAX_POINTS = 4000;
+
+const X_RANGE: [number, number] = [MARGIN.left, WIDTH - MARGIN.right];
+const Y_RANGE: [number, number] = [MARGIN.top, HEIGHT - MARGIN.bottom];
+
+const HIGHLIGHT_COLOR = 'hsl(0, 85%, 50%)';
+
+const Axis: React.FC<AxisProps> = ({ scale, orientation, offset, label }) => {
+  const [start, end] = scale.range();
+  const ticks = scale.ticks(6);
+  const format = scale.tickFormat(6);
+
+  if (orientation === 'bottom') {
+    return (
+      <g transform={`translate(0, ${offset})`} className="text-muted-foreground" fontSize={11}>
+        <line x1={start} x2={end} stroke="currentColor" />
+        {ticks.map(tick => (
+          <g key={tick} transform={`translate(${scale(tick)}, 0)`}>
+            <line y2={5} stroke="currentColor" />
+            <text y={17} textAnchor="middle" fill="currentColor">{format(tick)}</text>
+          </g>
+        ))}
+        <text x={(start + end) / 2} y={36} textAnchor="middle" fill="currentColor">{label}</text>
+      </g>
+    );
+  }
+  return (
+    <g transform={`translate(${offset}, 0)`} className="text-muted-foreground" fontSize={11}>
+      <line y1={start} y2={end} stroke="currentColor" />
+      {ticks.map(tick => (
+        <g key={tick} transform={`translate(0, ${scale(tick)})`}>
+          <line x2={-5} stroke="currentColor" />
+          <text x={-8} dy="0.32em" textAnchor="end" fill="currentColor">{format(tick)}</text>
+        </g>
+      ))}
+      <text transform={`translate(-46, ${(start + end) / 2}) rotate(-90)`} textAnchor="middle" fill="currentColor">
+        {label}
+      </text>
+    </g>
+  );
+};
+
+const padded = ([min, max]: [number, number], fraction = 0.05): [number, number] => {
+  const pad = (max - min) * fraction || 1;
+  return [min - pad, max + pad];
+};
+
+// Keeps every n-th cast so large datasets still show whole profiles.
+const thinCasts = (casts: Cast[]): Cast[] => {
+  const total = casts.reduce((sum, cast) => sum + cast.records.length, 0);
+  const stride = Math.ceil(total / MAX_POINTS);
+  return stride > 1 ? casts.filter((_, index) => index % stride === 0) : casts;
+};
+
+export const ProfilePanel: React.FC<ProfilePanelProps> = ({ dataset, highlightedRecord, onSelectRecord }) => {
+  const variables = useMemo(() => numericColumns(dataset).filter(c => c.role !== 'coordinate'), [dataset]);
+  const [variable, setVariable] = useState<string>(() =>
+    getColumn(dataset, 'temperature') ? 'temperature' : variables[0]?.name ?? '',
+  );
+  const [colorBy, setColorBy] = useState<ColorBy>('region');
+  const variableColumn = getColumn(dataset, variable);
+  const hasTS = Boolean(getColumn(dataset, 'temperature') && getColumn(dataset, 'salinity'));
+
+  const allCasts = useMemo(() => groupCasts(dataset.records), [dataset]);
+  const casts = useMemo(() => thinCasts(allCasts), [allCasts]);
+  const regions = useMemo(() => getRegions(dataset.records), [dataset]);
+
+  const timeScale = useMemo(() => {
+    const [min, max] = d3.extent(dataset.records, recordTime);
+    return d3.scaleSequential(d3.interpolateViridis).domain([min ?? 0, max ?? 1]);
+  }, [dataset]);
+
+  const colorOf = (record: OceanRecord): string => {
+    if (colorBy === 'region') return groupColor(Math.max(0, regions.indexOf(record.region)));
+    const time = recordTime(record);
+    return isNaN(time) ? 'hsl(200, 25%, 70%)' : timeScale(time);
+  };
+
+  // Profiles: the variable against depth, surface at the top
+  const profile = useMemo(() => {
+    const lines = casts.map(cast => ({
+      cast,
+      points: cast.records
+        .map(record => ({ record, x: numericValue(record, variable), y: numericValue(record, 'depth') }))
+        .filter(point => !isNaN(point.x) && !isNaN(point.y)),
+    })).filter(line => line.points.length > 0);
+    const points = lines.flatMap(line => line.points);
+    const x = d3.scaleLinear().domain(padded(d3.extent(points, p => p.x) as [number, number])).range(X_RANGE).nice();
+    const y = d3.scaleLinear().domain([0, d3.max(points, p => p.y) || 1]).range(Y_RANGE).nice();
+    return { lines, points, x, y };
+  }, [casts, variable]);
+
+  // T–S diagram: potential temperature against salinity, with σθ isopleths
+  const tsDiagram = useMemo(() => {
+    const points: PlotPoint[] = casts.flatMap(cast =>
+      cast.records.map(record => ({ record, x: numericValue(record, 'salinity'), y: recordDensity(record).theta })),
+    ).filter(point => !isNaN(point.x) && !isNaN(point.y));
+    const salinity = padded(d3.extent(points, p => p.x) as [number, number]);
+    const theta = padded(d3.extent(points, p => p.y) as [number, number]);
+    const x = d3.scaleLinear().domain(salinity).range(X_RANGE);
+    const y = d3.scaleLinear().domain(theta).range([Y_RANGE[1], Y_RANGE[0]]);
+
+    // Densest water is cold and salty, lightest warm and fresh
+    const levels = d3.ticks(sigmaTheta(salinity[0], theta[1]), sigmaTheta(salinity[1], theta[0]), 8);
+    const isopleths = levels.map(level => ({ level, points: sigmaIsopleth(level, salinity, theta) }))
+      .filter(isopleth => isopleth.points.length > 1);
+    return { points, x, y, isopleths };
+  }, [casts]);
+
+  const renderPoint = ({ record, x, y }: PlotPoint, index: number, xScale: d3.ScaleLinear<number, number>, yScale: d3.ScaleLinear<number, number>) => (
+    <circle
+      key={index}
+      cx={xScale(x)}
+      cy={yScale(y)}
+      r={3}
+      fill={colorOf(record)}
+      fillOpacity={0.8}
+      className="cursor-pointer"
+      onClick={() => onSelectRecord?.(record)}
+    >
+      <title>
+        {`${record.region} · ${record.timestamp || record.date}\n${Number(record.depth).toFixed(1)} m · ${x.toFixed(3)}, ${y.toFixed(3)}`}
+      </title>
+    </circle>
+  );
+
+  const renderHighlight = (points: PlotPoint[], xScale: d3.ScaleLinear<number, number>, yScale: d3.ScaleLinear<number, number>) => {
+    const point = highlightedRecord && points.find(p => p.record === highlightedRecord);
+    if (!point) return null;
+    return (
+      <circle cx={xScale(point.x)} cy={yScale(point.y)} r={7} fill="none" stroke={HIGHLIGHT_COLOR} strokeWidth={2.5} pointerEvents="none" />
+    );
+  };
+
+  const totalRecords = allCasts.reduce((sum, cast) => sum + cast.records.length, 0);
+  const dateDomain = timeScale.domain().map(time => new Date(time).toISOString().slice(0, 10));
+
+  return (
+    <Card className="p-6 bg-card shadow-soft border-border">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-foreground mb-2 flex items-center">
+            <Activity className="w-5 h-5 mr-2" />
+            Vertical Profiles
+          </h3>
+          <p className="text-muted-foreground">
+            {casts.length === allCasts.length
+              ? `${allCasts.length} casts`
+              : `${casts.length} of ${allCasts.length} casts shown (${totalRecords} records)`}
+            {' '}· click a point to find it in the table
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={variable} onValueChange={setVariable}>
+            <SelectTrigger className="w-48 h-9">
+              <SelectValue placeholder="Variable" />
+            </SelectTrigger>
+            <SelectContent>
+              {variables.map(column => (
+                <SelectItem key={column.name} value={column.name}>{formatColumnLabel(column)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={colorBy} onValueChange={value => setColorBy(value as ColorBy)}>
+            <SelectTrigger className="w-40 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="region">Colour by region</SelectItem>
+              <SelectItem value="date">Colour by date</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-4">
+        {/* Depth profiles */}
+        <div className="rounded-lg border border-border p-2">
+          {profile.points.length === 0 || !variableColumn ? (
+            <p className="p-4 text-sm text-muted-foreground">No depth values to plot</p>
+          ) : (
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+              {profile.lines.map(({ cast, points }) => (
+                <path
+                  key={cast.key}
+                  d={d3.line<PlotPoint>(p => profile.x(p.x), p => profile.y(p.y))(points) ?? ''}
+                  fill="none"
+                  stroke={colorOf(cast.records[0])}
+                  strokeOpacity={0.5}
+                  strokeWidth={highlightedRecord && cast.records.includes(highlightedRecord) ? 2.5 : 1}
+                />
+              ))}
+              {profile.points.map((point, index) => renderPoint(point, index, profile.x, profile.y))}
+              {renderHighlight(profile.points, profile.x, profile.y)}
+              <Axis scale={profile.x} orientation="bottom" offset={Y_RANGE[1]} label={formatColumnLabel(variableColumn)} />
+              <Axis scale={profile.y} orientation="left" offset={X_RANGE[0]} label="Depth (m)" />
+            </svg>
+          )}
+        </div>
+
+        {/* Temperature–salinity diagram */}
+        <div className="rounded-lg border border-border p-2">
+          {!hasTS || tsDiagram.points.length === 0 ? (
+            <p className="p-4 text-sm text-muted-foreground">A T–S diagram needs temperature and salinity values</p>
+          ) : (
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+              {tsDiagram.isopleths.map(({ level, points }) => {
+                const [s, t] = points[points.length - 1];
+                return (
+                  <g key={level} className="text-muted-foreground">
+                    <path
+                      d={d3.line(([sal]) => tsDiagram.x(sal), ([, theta]) => tsDiagram.y(theta))(points) ?? ''}
+                      fill="none"
+                      stroke="currentColor"
+                      strokeOpacity={0.4}
+                      strokeDasharray="3 3"
+                    />
+                    <text x={tsDiagram.x(s) - 4} y={tsDiagram.y(t) - 4} textAnchor="end" fontSize={10} fill="currentColor">
+                      {level}
+                    </text>
+                  </g>
+                );
+              })}
+              {tsDiagram.points.map((point, index) => renderPoint(point, index, tsDiagram.x, tsDiagram.y))}
+              {renderHighlight(tsDiagram.points, tsDiagram.x, tsDiagram.y)}
+              <Axis scale={tsDiagram.x} orientation="bottom" offset={Y_RANGE[1]} label="Salinity (PSU)" />
+              <Axis scale={tsDiagram.y} orientation="left" offset={X_RANGE[0]} label="Potential temperature θ (°C)" />
+            </svg>
+          )}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="mt-4 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {colorBy === 'region' ? (
+          regions.map((region, index) => (
+            <span key={region} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: groupColor(index) }} />
+              {region}
+            </span>
+          ))
+        ) : (
+          <>
+            <span>{dateDomain[0]}</span>
+            <svg width={200} height={10}>
+              <defs>
+                <linearGradient id="profile-date-legend">
+                  {d3.range(0, 1.01, 0.1).map(t => (
+                    <stop key={t} offset={`${t * 100}%`} stopColor={d3.interpolateViridis(t)} />
+                  ))}
+                </linearGradient>
+              </defs>
+              <rect width={200} height={10} rx={2} fill="url(#profile-date-legend)" />
+            </svg>
+            <span>{dateDomain[1]}</span>
+          </>
+        )}
+        {hasTS && <span className="ml-auto">Dashed lines: σθ isopleths (kg/m³, EOS-80)</span>}
+      </div>
+    </Card>
+  );
+};
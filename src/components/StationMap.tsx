@@ -0,0 +1,323 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Hand, Lasso, MapPin, RotateCcw, SquareDashed, X } from 'lucide-react';
+import { OceanDataset, formatColumnLabel, getColumn, numericColumns } from '@/lib/dataset';
+import { GeoPolygon, LAND, Station, clusterStations, groupStations, inArea } from '@/lib/geo';
+
+interface StationMapProps {
+  dataset: OceanDataset;
+  area: GeoPolygon | null;
+  onAreaChange: (area: GeoPolygon | null) => void;
+}
+
+type SelectionMode = 'pan' | 'box' | 'lasso';
+
+const WIDTH = 960;
+const HEIGHT = 500;
+// Clusters are this many screen pixels wide at every zoom level.
+const CLUSTER_CELL = 28;
+const MAX_ZOOM = 64;
+// Lasso points closer than this (in pixels) are dropped while drawing.
+const LASSO_STEP = 4;
+
+const NO_VALUE_COLOR = 'hsl(200, 25%, 70%)';
+
+export const StationMap: React.FC<StationMapProps> = ({ dataset, area, onAreaChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const modeRef = useRef<SelectionMode>('pan');
+  const [mode, setMode] = useState<SelectionMode>('pan');
+  const [transform, setTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+  // Selection being drawn, in screen (viewBox) coordinates
+  const [draft, setDraft] = useState<[number, number][] | null>(null);
+
+  const variables = useMemo(
+    () => numericColumns(dataset).filter(c => c.name !== 'latitude' && c.name !== 'longitude'),
+    [dataset],
+  );
+  const [variable, setVariable] = useState<string | null>(() =>
+    getColumn(dataset, 'temperature') ? 'temperature' : variables[0]?.name ?? null,
+  );
+  const variableColumn = variable ? getColumn(dataset, variable) : undefined;
+
+  const projection = useMemo(() => d3.geoEquirectangular().fitSize([WIDTH, HEIGHT], { type: 'Sphere' }), []);
+  const landPath = useMemo(() => d3.geoPath(projection)(LAND) ?? '', [projection]);
+  const graticulePath = useMemo(() => d3.geoPath(projection)(d3.geoGraticule10()) ?? '', [projection]);
+
+  const stations = useMemo(() => groupStations(dataset.records, variable), [dataset, variable]);
+
+  const colorScale = useMemo(() => {
+    const [min, max] = d3.extent(stations.filter(s => !isNaN(s.value)), s => s.value);
+    return d3.scaleSequential(d3.interpolateViridis).domain([min ?? 0, max ?? 1]);
+  }, [stations]);
+  const colorOf = (value: number) => (isNaN(value) ? NO_VALUE_COLOR : colorScale(value));
+
+  // Re-cluster per doubling of the zoom, not on every wheel step
+  const zoomLevel = Math.floor(Math.log2(transform.k));
+  const clusters = useMemo(
+    () => clusterStations(stations, s => projection([s.longitude, s.latitude]), CLUSTER_CELL / 2 ** zoomLevel),
+    [stations, projection, zoomLevel],
+  );
+
+  const areaPath = useMemo(
+    () => (area ? `M${area.map(point => projection(point)).filter(Boolean).join('L')}Z` : null),
+    [area, projection],
+  );
+  const isSelected = (station: Station) => !area || inArea(station.latitude, station.longitude, area);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([1, MAX_ZOOM])
+      .translateExtent([[0, 0], [WIDTH, HEIGHT]])
+      // While drawing a selection, dragging draws instead of panning
+      .filter(event => modeRef.current === 'pan' || event.type === 'wheel')
+      .on('zoom', event => setTransform(event.transform));
+    svg.call(zoom);
+    zoomRef.current = zoom;
+    return () => {
+      svg.on('.zoom', null);
+    };
+  }, []);
+
+  const changeMode = (next: SelectionMode) => {
+    modeRef.current = next;
+    setMode(next);
+  };
+
+  const zoomTo = (x: number, y: number, k: number) => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current)
+      .transition()
+      .duration(500)
+      .call(zoomRef.current.transform, d3.zoomIdentity.translate(WIDTH / 2, HEIGHT / 2).scale(k).translate(-x, -y));
+  };
+
+  const resetZoom = () => {
+    if (!svgRef.current || !zoomRef.current) return;
+    d3.select(svgRef.current).transition().duration(500).call(zoomRef.current.transform, d3.zoomIdentity);
+  };
+
+  const pointerPosition = (event: React.PointerEvent<SVGSVGElement>): [number, number] =>
+    d3.pointer(event.nativeEvent, svgRef.current);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (mode === 'pan') return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const start = pointerPosition(event);
+    setDraft([start, start]);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+    const point = pointerPosition(event);
+    if (mode === 'box') {
+      setDraft([draft[0], point]);
+      return;
+    }
+    const last = draft[draft.length - 1];
+    if (Math.hypot(point[0] - last[0], point[1] - last[1]) >= LASSO_STEP) setDraft([...draft, point]);
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    setDraft(null);
+
+    const screen: [number, number][] = mode === 'box'
+      ? [draft[0], [draft[1][0], draft[0][1]], draft[1], [draft[0][0], draft[1][1]]]
+      : draft;
+    // Ignore clicks and slivers; a selection must enclose some area on screen
+    if (Math.abs(d3.polygonArea(screen)) < 25) return;
+
+    const polygon = screen
+      .map(point => projection.invert?.(transform.invert(point)))
+      .filter((point): point is [number, number] => Boolean(point));
+    if (polygon.length >= 3) onAreaChange(polygon);
+  };
+
+  const legendStops = d3.range(0, 1.01, 0.1).map(t => ({
+    offset: `${t * 100}%`,
+    color: colorScale(colorScale.domain()[0] + t * (colorScale.domain()[1] - colorScale.domain()[0])),
+  }));
+
+  return (
+    <Card className="p-6 bg-card shadow-soft border-border">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-foreground mb-2 flex items-center">
+            <MapPin className="w-5 h-5 mr-2" />
+            Sampling Stations
+          </h3>
+          <p className="text-muted-foreground">
+            {stations.length} stations · {dataset.records.length} records
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={variable ?? undefined} onValueChange={setVariable}>
+            <SelectTrigger className="w-52 h-9">
+              <SelectValue placeholder="Colour by" />
+            </SelectTrigger>
+            <SelectContent>
+              {variables.map(column => (
+                <SelectItem key={column.name} value={column.name}>{formatColumnLabel(column)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex rounded-md border border-border">
+            {([
+              ['pan', Hand, 'Pan and zoom'],
+              ['box', SquareDashed, 'Box select'],
+              ['lasso', Lasso, 'Lasso select'],
+            ] as const).map(([id, Icon, title]) => (
+              <Button
+                key={id}
+                onClick={() => changeMode(id)}
+                variant={mode === id ? 'default' : 'ghost'}
+                size="sm"
+                title={title}
+                className={mode === id ? 'bg-gradient-ocean text-white' : ''}
+              >
+                <Icon className="w-4 h-4" />
+              </Button>
+            ))}
+          </div>
+          <Button onClick={resetZoom} variant="outline" size="sm">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset
+          </Button>
+          {area && (
+            <Button onClick={() => onAreaChange(null)} variant="outline" size="sm">
+              <X className="w-4 h-4 mr-2" />
+              Clear Selection
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="border border-border rounded-lg overflow-hidden bg-primary/5">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className={`w-full h-auto touch-none ${mode === 'pan' ? 'cursor-grab' : 'cursor-crosshair'}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          <g transform={transform.toString()}>
+            <path d={graticulePath} fill="none" stroke="hsl(200, 25%, 85%)" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+            <path d={landPath} fill="hsl(200, 20%, 88%)" stroke="hsl(200, 25%, 65%)" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+            {areaPath && (
+              <path
+                d={areaPath}
+                fill="hsl(220, 85%, 45%)"
+                fillOpacity={0.1}
+                stroke="hsl(220, 85%, 45%)"
+                strokeDasharray="4 3"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+            {clusters.map(cluster => {
+              const single = cluster.stations.length === 1;
+              const selected = cluster.stations.some(isSelected);
+              const radius = (single ? 4 : 7 + Math.sqrt(cluster.stations.length)) / transform.k;
+              return (
+                <g
+                  key={cluster.key}
+                  opacity={selected ? 1 : 0.25}
+                  className={single ? undefined : 'cursor-pointer'}
+                  onClick={() => !single && mode === 'pan' && zoomTo(cluster.x, cluster.y, Math.min(MAX_ZOOM, transform.k * 4))}
+                >
+                  <circle
+                    cx={cluster.x}
+                    cy={cluster.y}
+                    r={radius}
+                    fill={colorOf(cluster.value)}
+                    stroke="#fff"
+                    strokeWidth={1}
+                    vectorEffect="non-scaling-stroke"
+                  >
+                    <title>
+                      {single
+                        ? `${cluster.stations[0].latitude.toFixed(3)}, ${cluster.stations[0].longitude.toFixed(3)}`
+                        : `${cluster.stations.length} stations`}
+                      {` · ${cluster.count} records`}
+                      {variableColumn && !isNaN(cluster.value) && ` · ${variableColumn.label} ${cluster.value.toFixed(2)}`}
+                    </title>
+                  </circle>
+                  {!single && (
+                    <text
+                      x={cluster.x}
+                      y={cluster.y}
+                      dy="0.35em"
+                      textAnchor="middle"
+                      fontSize={10 / transform.k}
+                      fontWeight="bold"
+                      fill="#fff"
+                      pointerEvents="none"
+                    >
+                      {cluster.stations.length}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </g>
+
+          {draft && (
+            mode === 'box' ? (
+              <rect
+                x={Math.min(draft[0][0], draft[1][0])}
+                y={Math.min(draft[0][1], draft[1][1])}
+                width={Math.abs(draft[1][0] - draft[0][0])}
+                height={Math.abs(draft[1][1] - draft[0][1])}
+                fill="hsl(220, 85%, 45%)"
+                fillOpacity={0.1}
+                stroke="hsl(220, 85%, 45%)"
+                strokeDasharray="4 3"
+              />
+            ) : (
+              <polygon
+                points={draft.map(point => point.join(',')).join(' ')}
+                fill="hsl(220, 85%, 45%)"
+                fillOpacity={0.1}
+                stroke="hsl(220, 85%, 45%)"
+                strokeDasharray="4 3"
+              />
+            )
+          )}
+        </svg>
+      </div>
+
+      {/* Colour legend */}
+      {variableColumn && (
+        <div className="mt-4 flex items-center gap-3 text-xs text-muted-foreground">
+          <span>{formatColumnLabel(variableColumn)}</span>
+          <span>{colorScale.domain()[0].toFixed(2)}</span>
+          <svg width={200} height={10}>
+            <defs>
+              <linearGradient id="station-map-legend">
+                {legendStops.map(stop => (
+                  <stop key={stop.offset} offset={stop.offset} stopColor={stop.color} />
+                ))}
+              </linearGradient>
+            </defs>
+            <rect width={200} height={10} rx={2} fill="url(#station-map-legend)" />
+          </svg>
+          <span>{colorScale.domain()[1].toFixed(2)}</span>
+          <span className="flex items-center gap-1 ml-4">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: NO_VALUE_COLOR }} />
+            no value
+          </span>
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-2">
+        Scroll to zoom and click a cluster to expand it. Box and lasso selections filter every view.
+      </p>
+    </Card>
+  );
+};
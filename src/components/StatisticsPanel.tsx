@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { Sigma } from 'lucide-react';
+import { ColumnSchema, OceanDataset, OceanRecord, formatColumnLabel, getRegions, numericColumns } from '@/lib/dataset';
+import {
+  BoxPlotSummary,
+  DescriptiveStats,
+  binEdges,
+  boxPlotSummary,
+  describe,
+  formatStat,
+  histogram,
+  sortedValues,
+} from '@/lib/statistics';
+import { groupColor, groupKey } from '@/lib/palette';
+
+interface StatisticsPanelProps {
+  dataset: OceanDataset;
+}
+
+interface GroupStats {
+  group: string;
+  stats: DescriptiveStats;
+  box: BoxPlotSummary;
+  counts: number[];
+}
+
+interface VariableStats {
+  column: ColumnSchema;
+  edges: number[];
+  groups: GroupStats[];
+}
+
+type BoxDatum = BoxPlotSummary & { group: string; key: string; range: [number, number] };
+
+interface BoxShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: BoxDatum;
+}
+
+const ALL_GROUP = 'All data';
+
+const computeGroup = (group: string, records: OceanRecord[], column: string) => {
+  const { values, missing } = sortedValues(records, column);
+  return { group, values, stats: describe(values, missing), box: boxPlotSummary(values) };
+};
+
+/**
+ * Draws one box plot into the band of a range bar spanning the whiskers.
+ * Quartile positions are interpolated inside that band.
+ */
+const BoxShape: React.FC<BoxShapeProps & { fill: string }> = ({ x = 0, y = 0, width = 0, height = 0, payload, fill }) => {
+  if (!payload) return null;
+  const { lowerWhisker, upperWhisker, q1, median, q3 } = payload;
+  const span = upperWhisker - lowerWhisker;
+  const toY = (value: number) => (span === 0 ? y + height / 2 : y + (height * (upperWhisker - value)) / span);
+  const center = x + width / 2;
+  const boxWidth = Math.max(6, width * 0.6);
+  const left = center - boxWidth / 2;
+
+  return (
+    <g stroke={fill} strokeWidth={1.5}>
+      <line x1={center} x2={center} y1={toY(upperWhisker)} y2={toY(q3)} />
+      <line x1={center} x2={center} y1={toY(q1)} y2={toY(lowerWhisker)} />
+      <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={toY(upperWhisker)} y2={toY(upperWhisker)} />
+      <line x1={center - boxWidth / 4} x2={center + boxWidth / 4} y1={toY(lowerWhisker)} y2={toY(lowerWhisker)} />
+      <rect x={left} width={boxWidth} y={toY(q3)} height={Math.max(1, toY(q1) - toY(q3))} fill={fill} fillOpacity={0.25} />
+      <line x1={left} x2={left + boxWidth} y1={toY(median)} y2={toY(median)} strokeWidth={2.5} />
+    </g>
+  );
+};
+
+export const StatisticsPanel: React.FC<StatisticsPanelProps> = ({ dataset }) => {
+  const [byRegion, setByRegion] = useState(false);
+  const regions = useMemo(() => getRegions(dataset.records), [dataset]);
+
+  const variables = useMemo<VariableStats[]>(() => {
+    const recordsByRegion = new Map<string, OceanRecord[]>(regions.map(region => [region, []]));
+    if (byRegion) dataset.records.forEach(record => recordsByRegion.get(record.region)?.push(record));
+
+    return numericColumns(dataset).map(column => {
+      const all = computeGroup(ALL_GROUP, dataset.records, column.name);
+      // Regions share the overall bin edges so their histograms stack
+      const edges = binEdges(all.stats.min, all.stats.max, all.stats.count);
+      const parts = byRegion
+        ? regions.map(region => computeGroup(region, recordsByRegion.get(region) ?? [], column.name))
+        : [all];
+
+      return {
+        column,
+        edges,
+        groups: parts.map(part => ({
+          group: part.group,
+          stats: part.stats,
+          box: part.box,
+          counts: histogram(part.values, edges).map(bin => bin.count),
+        })),
+      };
+    });
+  }, [dataset, regions, byRegion]);
+
+  const chartConfig = useMemo<ChartConfig>(() => {
+    const groups = byRegion ? regions : [ALL_GROUP];
+    return Object.fromEntries(
+      groups.map((group, index) => [groupKey(index), { label: group, color: groupColor(index) }]),
+    );
+  }, [byRegion, regions]);
+
+  return (
+    <Card className="p-6 bg-card shadow-soft border-border">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-foreground mb-2 flex items-center">
+            <Sigma className="w-5 h-5 mr-2" />
+            Descriptive Statistics
+          </h3>
+          <p className="text-muted-foreground">Distribution of every numeric variable</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="stats-by-region" checked={byRegion} onCheckedChange={setByRegion} />
+          <Label htmlFor="stats-by-region">By region</Label>
+        </div>
+      </div>
+
+      {/* Summary table */}
+      <div className="overflow-x-auto rounded-lg border border-border mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-muted border-b border-border">
+              {['Variable', ...(byRegion ? ['Region'] : []), 'Count', 'Missing', 'Min', 'Q1', 'Median', 'Mean', 'Q3', 'Max', 'Std', 'Skew'].map(
+                heading => (
+                  <th
+                    key={heading}
+                    className={`p-3 font-medium text-muted-foreground whitespace-nowrap ${
+                      heading === 'Variable' || heading === 'Region' ? 'text-left' : 'text-right'
+                    }`}
+                  >
+                    {heading}
+                  </th>
+                ),
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {variables.flatMap(({ column, groups }) =>
+              groups.map(({ group, stats }, index) => (
+                <tr key={`${column.name}-${group}`} className="border-b border-border hover:bg-muted/50 transition-smooth">
+                  <td className="p-3 whitespace-nowrap font-medium text-foreground">
+                    {index === 0 ? formatColumnLabel(column) : ''}
+                  </td>
+                  {byRegion && <td className="p-3 whitespace-nowrap text-muted-foreground">{group}</td>}
+                  {[stats.count, stats.missing].map((value, i) => (
+                    <td key={i} className="p-3 text-right text-muted-foreground">{value.toLocaleString()}</td>
+                  ))}
+                  {[stats.min, stats.q1, stats.median, stats.mean, stats.q3, stats.max, stats.std, stats.skewness].map((value, i) => (
+                    <td key={i} className="p-3 text-right text-muted-foreground">{formatStat(value)}</td>
+                  ))}
+                </tr>
+              )),
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Histograms and box plots */}
+      <div className="grid md:grid-cols-2 gap-4">
+        {variables.map(({ column, edges, groups }) => {
+          const histogramData = edges.slice(0, -1).map((x0, bin) => ({
+            bin: formatStat(x0),
+            ...Object.fromEntries(groups.map((group, index) => [groupKey(index), group.counts[bin]])),
+          }));
+          const boxData: BoxDatum[] = groups
+            .filter(group => group.stats.count > 0)
+            .map(group => ({
+              ...group.box,
+              group: group.group,
+              key: groupKey(groups.indexOf(group)),
+              range: [group.box.lowerWhisker, group.box.upperWhisker],
+            }));
+
+          return (
+            <div key={column.name} className="p-4 rounded-lg border border-border">
+              <h4 className="text-sm font-medium text-foreground mb-3">{formatColumnLabel(column)}</h4>
+              {edges.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No values</p>
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  <ChartContainer config={chartConfig} className="col-span-2 aspect-auto h-48 w-full">
+                    <BarChart data={histogramData} barCategoryGap={1}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="bin" tickLine={false} minTickGap={16} />
+                      <YAxis tickLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `≥ ${payload[0]?.payload.bin}`} />} />
+                      {byRegion && <ChartLegend content={<ChartLegendContent />} />}
+                      {groups.map((group, index) => (
+                        <Bar key={group.group} dataKey={groupKey(index)} stackId="counts" fill={`var(--color-${groupKey(index)})`} />
+                      ))}
+                    </BarChart>
+                  </ChartContainer>
+                  <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+                    <BarChart data={boxData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="group" tickLine={false} tick={byRegion} />
+                      <YAxis tickLine={false} width={40} domain={['auto', 'auto']} />
+                      <ChartTooltip
+                        content={({ active, payload }) => {
+                          const datum = payload?.[0]?.payload as BoxDatum | undefined;
+                          if (!active || !datum) return null;
+                          return (
+                            <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                              <p className="font-medium mb-1">{datum.group}</p>
+                              <p>Whiskers: {formatStat(datum.lowerWhisker)} – {formatStat(datum.upperWhisker)}</p>
+                              <p>Q1 / Median / Q3: {formatStat(datum.q1)} / {formatStat(datum.median)} / {formatStat(datum.q3)}</p>
+                              <p>Outliers: {datum.outliers}</p>
+                            </div>
+                          );
+                        }}
+                      />
+                      <Bar
+                        dataKey="range"
+                        isAnimationActive={false}
+                        shape={(props: BoxShapeProps) => (
+                          <BoxShape {...props} fill={`var(--color-${props.payload?.key})`} />
+                        )}
+                      />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { Area, Brush, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip } from '@/components/ui/chart';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { OceanDataset, formatColumnLabel, getColumn, getRegions, numericColumns } from '@/lib/dataset';
+import { TIME_BUCKETS, TimeBucket, aggregateSeries, formatBucket } from '@/lib/timeSeries';
+import { groupColor, groupKey } from '@/lib/palette';
+
+interface TimeSeriesPanelProps {
+  dataset: OceanDataset;
+}
+
+type ChartRow = { time: number } & Record<string, number | [number, number] | undefined>;
+
+interface TooltipEntry {
+  payload?: ChartRow;
+}
+
+// Radix Select can't hold an empty value, so "no second variable" needs a sentinel.
+const NONE = '__none__';
+
+const BUCKET_LABELS: Record<TimeBucket, string> = { day: 'Daily', week: 'Weekly', month: 'Monthly' };
+
+// The second variable's series use the same region colours with a suffixed key.
+const SECONDARY = 'Alt';
+
+const formatValue = (value: number | undefined): string =>
+  value === undefined ? '—' : Number(value.toPrecision(4)).toLocaleString();
+
+/**
+ * Collects per-period statistics of one variable into chart rows, under
+ * `groupN` (mean) and `groupNRange` ([min, max]) keys per region.
+ */
+const addSeries = (
+  rows: Map<number, ChartRow>,
+  dataset: OceanDataset,
+  variable: string,
+  bucket: TimeBucket,
+  regions: string[],
+  suffix: string,
+) => {
+  aggregateSeries(dataset.records, variable, bucket).forEach(({ time, groups }) => {
+    const row = rows.get(time) ?? { time };
+    regions.forEach((region, index) => {
+      const stats = groups[region];
+      if (!stats) return;
+      row[`${groupKey(index)}${suffix}`] = stats.mean;
+      row[`${groupKey(index)}${suffix}Range`] = [stats.min, stats.max];
+    });
+    rows.set(time, row);
+  });
+};
+
+export const TimeSeriesPanel: React.FC<TimeSeriesPanelProps> = ({ dataset }) => {
+  const variables = useMemo(
+    () => numericColumns(dataset).filter(c => c.role !== 'coordinate' || c.name === 'depth'),
+    [dataset],
+  );
+  const [primary, setPrimary] = useState<string>(() =>
+    getColumn(dataset, 'temperature') ? 'temperature' : variables[0]?.name ?? '',
+  );
+  const [secondary, setSecondary] = useState<string | null>(null);
+  const [bucket, setBucket] = useState<TimeBucket>('month');
+  const [showBands, setShowBands] = useState(true);
+
+  const regions = useMemo(() => getRegions(dataset.records), [dataset]);
+  const primaryColumn = getColumn(dataset, primary);
+  const secondaryColumn = secondary ? getColumn(dataset, secondary) : undefined;
+
+  const rows = useMemo(() => {
+    const byTime = new Map<number, ChartRow>();
+    if (primaryColumn) addSeries(byTime, dataset, primaryColumn.name, bucket, regions, '');
+    if (secondaryColumn) addSeries(byTime, dataset, secondaryColumn.name, bucket, regions, SECONDARY);
+    return [...byTime.values()].sort((a, b) => a.time - b.time);
+  }, [dataset, primaryColumn, secondaryColumn, bucket, regions]);
+
+  const chartConfig = useMemo<ChartConfig>(() => {
+    const entries = regions.flatMap((region, index) => {
+      const color = groupColor(index);
+      const main: [string, ChartConfig[string]] = [groupKey(index), { label: region, color }];
+      return secondaryColumn
+        ? [main, [`${groupKey(index)}${SECONDARY}`, { label: `${region} · ${secondaryColumn.label}`, color }]]
+        : [main];
+    });
+    return Object.fromEntries(entries);
+  }, [regions, secondaryColumn]);
+
+  const renderSeries = (suffix: string, axis: string) =>
+    regions.flatMap((region, index) => {
+      const key = `${groupKey(index)}${suffix}`;
+      const color = `var(--color-${groupKey(index)})`;
+      return [
+        showBands && (
+          <Area
+            key={`${key}Range`}
+            yAxisId={axis}
+            dataKey={`${key}Range`}
+            stroke="none"
+            fill={color}
+            fillOpacity={suffix ? 0.08 : 0.15}
+            connectNulls
+            legendType="none"
+            isAnimationActive={false}
+          />
+        ),
+        <Line
+          key={key}
+          yAxisId={axis}
+          dataKey={key}
+          name={key}
+          stroke={color}
+          strokeWidth={2}
+          strokeDasharray={suffix ? '5 3' : undefined}
+          dot={rows.length <= 60}
+          connectNulls
+          isAnimationActive={false}
+        />,
+      ];
+    });
+
+  const renderTooltip = ({ active, payload }: { active?: boolean; payload?: TooltipEntry[] }) => {
+    const row = payload?.[0]?.payload;
+    if (!active || !row) return null;
+    return (
+      <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl space-y-1">
+        <p className="font-medium">{formatBucket(row.time, bucket)}</p>
+        {regions.map((region, index) => {
+          const lines = [primaryColumn, secondaryColumn]
+            .map((column, i) => {
+              const key = `${groupKey(index)}${i === 0 ? '' : SECONDARY}`;
+              const value = row[key] as number | undefined;
+              const range = row[`${key}Range`] as [number, number] | undefined;
+              if (!column || value === undefined) return null;
+              return `${column.label} ${formatValue(value)} (${formatValue(range?.[0])} – ${formatValue(range?.[1])})`;
+            })
+            .filter(Boolean);
+          if (lines.length === 0) return null;
+          return (
+            <div key={region} className="flex gap-2">
+              <span className="mt-0.5 h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ backgroundColor: groupColor(index) }} />
+              <div>
+                <p className="text-muted-foreground">{region}</p>
+                {lines.map(line => <p key={line} className="font-mono tabular-nums">{line}</p>)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="p-6 bg-card shadow-soft border-border">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+        <div>
+          <h3 className="text-xl font-bold text-foreground mb-2 flex items-center">
+            <LineChartIcon className="w-5 h-5 mr-2" />
+            Time Series
+          </h3>
+          <p className="text-muted-foreground">
+            {BUCKET_LABELS[bucket]} mean per region{showBands && ', shaded between min and max'}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={primary}
+            onValueChange={value => {
+              setPrimary(value);
+              if (value === secondary) setSecondary(null);
+            }}
+          >
+            <SelectTrigger className="w-48 h-9">
+              <SelectValue placeholder="Variable" />
+            </SelectTrigger>
+            <SelectContent>
+              {variables.map(column => (
+                <SelectItem key={column.name} value={column.name}>{formatColumnLabel(column)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={secondary ?? NONE} onValueChange={value => setSecondary(value === NONE ? null : value)}>
+            <SelectTrigger className="w-48 h-9">
+              <SelectValue placeholder="Overlay" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No overlay</SelectItem>
+              {variables.filter(column => column.name !== primary).map(column => (
+                <SelectItem key={column.name} value={column.name}>{formatColumnLabel(column)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={bucket} onValueChange={value => setBucket(value as TimeBucket)}>
+            <SelectTrigger className="w-32 h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_BUCKETS.map(option => (
+                <SelectItem key={option} value={option}>{BUCKET_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2 ml-2">
+            <Switch id="time-series-bands" checked={showBands} onCheckedChange={setShowBands} />
+            <Label htmlFor="time-series-bands">Min/max</Label>
+          </div>
+        </div>
+      </div>
+
+      {rows.length === 0 || !primaryColumn ? (
+        <p className="text-sm text-muted-foreground">No dated values to plot</p>
+      ) : (
+        <>
+          <ChartContainer config={chartConfig} className="aspect-auto h-96 w-full">
+            {/* Remount when the series change so the brush doesn't keep stale indices */}
+            <ComposedChart key={`${primary}|${secondary}|${bucket}|${rows.length}`} data={rows}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="time" tickLine={false} minTickGap={24} tickFormatter={time => formatBucket(time, bucket)} />
+              <YAxis
+                yAxisId="primary"
+                tickLine={false}
+                width={56}
+                domain={['auto', 'auto']}
+                label={{ value: formatColumnLabel(primaryColumn), angle: -90, position: 'insideLeft', fontSize: 12 }}
+              />
+              {secondaryColumn && (
+                <YAxis
+                  yAxisId="secondary"
+                  orientation="right"
+                  tickLine={false}
+                  width={56}
+                  domain={['auto', 'auto']}
+                  label={{ value: formatColumnLabel(secondaryColumn), angle: 90, position: 'insideRight', fontSize: 12 }}
+                />
+              )}
+              <ChartTooltip content={renderTooltip} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {renderSeries('', 'primary')}
+              {secondaryColumn && renderSeries(SECONDARY, 'secondary')}
+              {rows.length > 1 && (
+                <Brush dataKey="time" height={24} travellerWidth={8} tickFormatter={time => formatBucket(time, bucket)} />
+              )}
+            </ComposedChart>
+          </ChartContainer>
+          <p className="text-xs text-muted-foreground mt-2">
+            Drag the handles below the chart to zoom into a period.
+            {secondaryColumn && ` Dashed lines show ${secondaryColumn.label} on the right axis.`}
+          </p>
+        </>
+      )}
+    </Card>
+  );
+};
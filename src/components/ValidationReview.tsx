@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ShieldAlert, Download, ArrowRight, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { OceanDataset } from '@/lib/dataset';
+import {
+  ISSUE_LABELS,
+  IssueKind,
+  IssueResolution,
+  ValidationReport,
+  applyFixesToRecords,
+  applyFixesToReport,
+  issueKey,
+  reportToCSV,
+  resolveIssues,
+} from '@/lib/validation';
+
+interface ValidationReviewProps {
+  fileName: string;
+  dataset: OceanDataset;
+  report: ValidationReport;
+  onImport: (dataset: OceanDataset) => void;
+  onCancel: () => void;
+}
+
+// Only the first issues are editable inline; the downloadable report has the rest.
+const MAX_LISTED_ISSUES = 100;
+
+export const ValidationReview: React.FC<ValidationReviewProps> = ({
+  fileName,
+  dataset,
+  report: initialReport,
+  onImport,
+  onCancel,
+}) => {
+  const [fixes, setFixes] = useState<Record<string, string>>({});
+  const [resolution, setResolution] = useState<IssueResolution>('missing');
+
+  const report = useMemo(
+    () => applyFixesToReport(initialReport, fixes, dataset.columns),
+    [initialReport, fixes, dataset.columns],
+  );
+  const { countsByKind, countsByColumn } = report;
+
+  const importedCount = resolution === 'drop' ? report.rowCount - report.invalidRowCount : report.rowCount;
+
+  const downloadReport = () => {
+    const dataUri = 'data:text/csv;charset=utf-8,' + encodeURIComponent(reportToCSV(report));
+
+    const linkElement = document.createElement('a');
+    linkElement.setAttribute('href', dataUri);
+    linkElement.setAttribute('download', `${fileName.replace(/\.[^.]+$/, '')}-validation-report.csv`);
+    linkElement.click();
+
+    toast.success('Validation report downloaded');
+  };
+
+  const handleFix = (row: number, column: string, value: string) => {
+    setFixes(prev => ({ ...prev, [issueKey(row, column)]: value }));
+  };
+
+  return (
+    <Card className="p-6 bg-card shadow-ocean border-border">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-foreground mb-1 flex items-center">
+            <ShieldAlert className="w-5 h-5 mr-2 text-destructive" />
+            Validation Report
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {report.issueCount} issues in {report.invalidRowCount} of {report.rowCount} rows in {fileName}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={downloadReport} variant="outline" size="sm" className="transition-smooth">
+            <Download className="w-4 h-4 mr-2" />
+            Report
+          </Button>
+          <Button onClick={onCancel} variant="ghost" size="sm">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="flex flex-wrap gap-2 mb-3">
+        {(Object.keys(countsByKind) as IssueKind[]).map(kind => (
+          <Badge key={kind} variant="outline" className="border-destructive/40">
+            {ISSUE_LABELS[kind]}: {countsByKind[kind]}
+          </Badge>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2 mb-4">
+        {Object.entries(countsByColumn).map(([column, count]) => (
+          <Badge key={column} variant="secondary" className="font-mono">
+            {column}: {count}
+          </Badge>
+        ))}
+      </div>
+
+      {/* Issue list with inline fixes */}
+      {report.issues.length > 0 && (
+        <div className="max-h-80 overflow-y-auto rounded-lg border border-border mb-4">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0">
+              <tr className="bg-muted border-b border-border">
+                <th className="text-left p-2 font-medium text-muted-foreground">Row</th>
+                <th className="text-left p-2 font-medium text-muted-foreground">Column</th>
+                <th className="text-left p-2 font-medium text-muted-foreground">Issue</th>
+                <th className="text-left p-2 font-medium text-muted-foreground">Fix</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.issues.slice(0, MAX_LISTED_ISSUES).map(issue => (
+                <tr key={issueKey(issue.row, issue.column)} className="border-b border-border">
+                  <td className="p-2 text-muted-foreground">{issue.row}</td>
+                  <td className="p-2 font-mono text-foreground">{issue.column || '—'}</td>
+                  <td className="p-2 text-muted-foreground">{issue.message}</td>
+                  <td className="p-2">
+                    <Input
+                      defaultValue={issue.value}
+                      // A malformed row can only be kept as parsed or dropped
+                      disabled={!issue.column}
+                      className="h-8"
+                      onBlur={e => {
+                        if (e.target.value !== issue.value) handleFix(issue.row, issue.column, e.target.value);
+                      }}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.issueCount > MAX_LISTED_ISSUES && (
+            <p className="p-2 text-xs text-muted-foreground">
+              Showing the first {MAX_LISTED_ISSUES} issues. Download the report for
+              {report.truncated ? ` the first ${report.issues.length}` : ' the full list'}.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Resolution */}
+      <RadioGroup
+        value={resolution}
+        onValueChange={value => setResolution(value as IssueResolution)}
+        className="mb-4"
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="missing" id="resolve-missing" />
+          <Label htmlFor="resolve-missing">Keep rows, load invalid cells as missing values</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="drop" id="resolve-drop" />
+          <Label htmlFor="resolve-drop">Drop rows that still have issues</Label>
+        </div>
+      </RadioGroup>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => {
+            const records = applyFixesToRecords(dataset.records, fixes, dataset.columns);
+            onImport({ ...dataset, records: resolveIssues(records, report, resolution, dataset.columns) });
+          }}
+          disabled={importedCount === 0}
+          className="bg-gradient-ocean transition-smooth"
+        >
+          Import {importedCount} Rows
+          <ArrowRight className="w-4 h-4 ml-2" />
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Filter, Lasso, X } from 'lucide-react';
+import { OceanDataset, getRegions } from '@/lib/dataset';
+import { NO_FILTERS, ViewFilters, getMonths, hasFilters } from '@/lib/viewState';
+
+interface ViewFilterBarProps {
+  dataset: OceanDataset;
+  filters: ViewFilters;
+  matchingCount: number;
+  onChange: (filters: Partial<ViewFilters>) => void;
+}
+
+// Radix Select can't hold an empty value, so "no filter" needs a sentinel.
+const ALL = '__all__';
+
+export const ViewFilterBar: React.FC<ViewFilterBarProps> = ({ dataset, filters, matchingCount, onChange }) => {
+  const regions = useMemo(() => getRegions(dataset.records), [dataset]);
+  const months = useMemo(() => getMonths(dataset), [dataset]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3 bg-card rounded-lg shadow-soft border border-border">
+      <Filter className="w-4 h-4 text-muted-foreground" />
+      <Select value={filters.region ?? ALL} onValueChange={value => onChange({ region: value === ALL ? null : value })}>
+        <SelectTrigger className="w-48 h-9">
+          <SelectValue placeholder="Region" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All regions</SelectItem>
+          {regions.map(region => (
+            <SelectItem key={region} value={region}>{region}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={filters.month ?? ALL} onValueChange={value => onChange({ month: value === ALL ? null : value })}>
+        <SelectTrigger className="w-36 h-9">
+          <SelectValue placeholder="Month" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All months</SelectItem>
+          {months.map(month => (
+            <SelectItem key={month} value={month}>{month}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {filters.area && (
+        <Badge variant="secondary" className="gap-1">
+          <Lasso className="w-3 h-3" />
+          Map selection
+          <button onClick={() => onChange({ area: null })} aria-label="Clear map selection">
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      )}
+      {hasFilters(filters) && (
+        <>
+          <span className="text-sm text-muted-foreground">
+            {matchingCount} of {dataset.records.length} records
+          </span>
+          <Button onClick={() => onChange(NO_FILTERS)} variant="ghost" size="sm">
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
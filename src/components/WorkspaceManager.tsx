@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { FolderOpen, HardDrive, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatBytes } from '@/lib/csvStream';
+import {
+  StorageUsage,
+  WorkspaceSummary,
+  deleteWorkspace,
+  getStorageUsage,
+  listWorkspaces,
+  renameWorkspace,
+} from '@/lib/workspaceStore';
+
+interface WorkspaceManagerProps {
+  current: WorkspaceSummary | null;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRenamed: (summary: WorkspaceSummary) => void;
+  onDeleted: (id: string) => void;
+}
+
+export const WorkspaceManager: React.FC<WorkspaceManagerProps> = ({ current, onOpen, onNew, onRenamed, onDeleted }) => {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+
+  // Reload whenever the open workspace is saved, so counts and sizes stay current
+  useEffect(() => {
+    listWorkspaces()
+      .then(setWorkspaces)
+      .catch(() => toast.error('Could not read saved workspaces'));
+    getStorageUsage().then(setStorage).catch(() => setStorage(null));
+  }, [current]);
+
+  const handleDelete = (id: string) => {
+    deleteWorkspace(id)
+      .then(() => {
+        setWorkspaces(prev => prev.filter(w => w.id !== id));
+        getStorageUsage().then(setStorage).catch(() => setStorage(null));
+        onDeleted(id);
+        toast.success('Workspace deleted');
+      })
+      .catch(() => toast.error('Could not delete the workspace'));
+  };
+
+  const handleRename = (id: string, name: string) => {
+    if (!name.trim()) return;
+    renameWorkspace(id, name.trim())
+      .then(onRenamed)
+      .catch(() => toast.error('Could not rename the workspace'));
+  };
+
+  return (
+    <Card className="p-6 bg-card shadow-soft border-border">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Workspaces</h3>
+          <p className="text-sm text-muted-foreground">Datasets, graphs and chats are saved in this browser</p>
+        </div>
+        <Button onClick={onNew} variant="outline" size="sm" disabled={!current}>
+          <Plus className="w-4 h-4 mr-2" />
+          New
+        </Button>
+      </div>
+
+      {workspaces.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No saved workspaces yet. Uploading data creates one.</p>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {workspaces.map(workspace => {
+            const isCurrent = workspace.id === current?.id;
+            return (
+              <div
+                key={workspace.id}
+                className={`flex items-center gap-3 p-3 rounded-lg border transition-smooth ${
+                  isCurrent ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  {isCurrent ? (
+                    <Input
+                      key={workspace.name}
+                      defaultValue={workspace.name}
+                      className="h-8 font-medium"
+                      onBlur={e => {
+                        if (e.target.value !== workspace.name) handleRename(workspace.id, e.target.value);
+                      }}
+                    />
+                  ) : (
+                    <p className="font-medium text-foreground truncate">{workspace.name}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {workspace.recordCount} records · {workspace.sourceCount} files · updated{' '}
+                    {new Date(workspace.updatedAt).toLocaleString()}
+                  </p>
+                </div>
+                {isCurrent ? (
+                  <Badge variant="secondary">Open</Badge>
+                ) : (
+                  <Button onClick={() => onOpen(workspace.id)} variant="ghost" size="sm">
+                    <FolderOpen className="w-4 h-4" />
+                  </Button>
+                )}
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm">
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete {workspace.name}?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        The dataset, knowledge graph and chat history of this workspace are removed from this browser.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleDelete(workspace.id)}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {storage && storage.quota > 0 && (
+        <div className="mt-4 space-y-2">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span className="flex items-center">
+              <HardDrive className="w-3 h-3 mr-1" />
+              Browser storage
+            </span>
+            <span>
+              {formatBytes(storage.usage)} of {formatBytes(storage.quota)}
+            </span>
+          </div>
+          <Progress value={(storage.usage / storage.quota) * 100} />
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Size of an element's content box, kept up to date as it resizes. Returns a
+ * callback ref to attach to the element, so one that mounts late is still seen.
+ */
+export function useElementSize<T extends HTMLElement>() {
+  const [element, setElement] = useState<T | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const width = Math.round(entry.contentRect.width);
+      const height = Math.round(entry.contentRect.height);
+      setSize((current) => (current.width === width && current.height === height ? current : { width, height }));
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  return [setElement, size] as const;
+}
@@ -0,0 +1,61 @@
+import { useCallback, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ViewFilters } from "@/lib/viewState";
+import { decodeArea, encodeArea } from "@/lib/geo";
+
+const DEFAULT_ZOOM = 1;
+
+/**
+ * View state kept in the query string (`?region=…&month=…&area=…&node=…&zoom=…`), so
+ * a URL reproduces what is on screen and back/forward restores it.
+ */
+export function useViewParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const region = searchParams.get("region");
+  const month = searchParams.get("month");
+  const area = searchParams.get("area");
+  const filters = useMemo<ViewFilters>(() => ({ region, month, area: decodeArea(area) }), [region, month, area]);
+  const selectedNodeId = searchParams.get("node");
+  const zoom = Number(searchParams.get("zoom")) || DEFAULT_ZOOM;
+
+  const update = useCallback(
+    (changes: Record<string, string | null>, replace = false) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          Object.entries(changes).forEach(([key, value]) => {
+            if (value === null) next.delete(key);
+            else next.set(key, value);
+          });
+          return next;
+        },
+        { replace },
+      );
+    },
+    [setSearchParams],
+  );
+
+  // Filters change what every view shows, so the selected node no longer applies
+  const setFilters = useCallback(
+    (changes: Partial<ViewFilters>) => {
+      const { area: changedArea, ...rest } = changes;
+      update({
+        ...rest,
+        ...(changedArea !== undefined && { area: changedArea && encodeArea(changedArea) }),
+        node: null,
+      });
+    },
+    [update],
+  );
+
+  const setSelectedNodeId = useCallback((id: string | null) => update({ node: id }), [update]);
+
+  // Zooming emits many steps; keep one history entry for it
+  const setZoom = useCallback(
+    (scale: number) => update({ zoom: scale === DEFAULT_ZOOM ? null : String(scale) }, true),
+    [update],
+  );
+
+  return { filters, setFilters, selectedNodeId, setSelectedNodeId, zoom, setZoom, searchParams };
+}
@@ -0,0 +1,252 @@
+import { NetCDFReader } from 'netcdfjs';
+import { ColumnSchema, OceanDataset, OceanRecord, regionForPosition } from '@/lib/dataset';
+import { oxygenToMgPerLitre } from '@/lib/oceanography';
+
+export const NETCDF_EXTENSIONS = ['.nc'];
+
+// JULD is expressed in days since this reference date (REFERENCE_DATE_TIME in every Argo file).
+const ARGO_EPOCH = Date.UTC(1950, 0, 1);
+const MS_PER_DAY = 86400000;
+const DEFAULT_FILL_VALUE = 99999;
+
+// Argo QC flag 4 marks a value as bad; such values are dropped to missing.
+const BAD_QC_FLAG = '4';
+
+interface ArgoVariable {
+  variable: string;
+  column: ColumnSchema;
+}
+
+// Argo physical names → dataset columns. BGC variables only appear in B/S-files.
+// DOXY is reported in µmol/kg and converted to the core column's mg/L.
+const ARGO_VARIABLES: ArgoVariable[] = [
+  { variable: 'TEMP', column: { name: 'temperature', label: 'Temperature', type: 'number', role: 'physical', unit: '°C' } },
+  { variable: 'PSAL', column: { name: 'salinity', label: 'Salinity', type: 'number', role: 'physical', unit: 'PSU' } },
+  { variable: 'DOXY', column: { name: 'dissolved_oxygen', label: 'Dissolved Oxygen', type: 'number', role: 'physical', unit: 'mg/L' } },
+  { variable: 'PH_IN_SITU_TOTAL', column: { name: 'ph', label: 'pH', type: 'number', role: 'physical' } },
+  { variable: 'NITRATE', column: { name: 'nitrate', label: 'Nitrate', type: 'number', role: 'physical', unit: 'µmol/kg' } },
+  { variable: 'CHLA', column: { name: 'chlorophyll', label: 'Chlorophyll', type: 'number', role: 'biological', unit: 'mg/m³' } },
+];
+
+const PRESSURE_COLUMN: ColumnSchema = { name: 'pressure', label: 'Pressure', type: 'number', role: 'physical', unit: 'dbar' };
+
+const ARGO_COLUMNS: ColumnSchema[] = [
+  { name: 'latitude', label: 'Latitude', type: 'number', role: 'coordinate', unit: '°N' },
+  { name: 'longitude', label: 'Longitude', type: 'number', role: 'coordinate', unit: '°E' },
+  { name: 'region', label: 'Region', type: 'string', role: 'categorical' },
+  { name: 'depth', label: 'Depth', type: 'number', role: 'coordinate', unit: 'm' },
+  { name: 'float_wmo', label: 'Float WMO ID', type: 'string', role: 'categorical' },
+  { name: 'cycle_number', label: 'Cycle Number', type: 'number', role: 'categorical' },
+  { name: 'data_mode', label: 'Data Mode', type: 'string', role: 'categorical' },
+  { name: 'timestamp', label: 'Timestamp', type: 'date', role: 'time' },
+  { name: 'date', label: 'Date', type: 'date', role: 'time' },
+];
+
+export const isNetCDFFile = (fileName: string): boolean =>
+  NETCDF_EXTENSIONS.some(ext => fileName.toLowerCase().endsWith(ext));
+
+/**
+ * Depth in metres from sea pressure in dbar (UNESCO 1983, Saunders & Fofonoff).
+ */
+export const pressureToDepth = (pressure: number, latitude: number): number => {
+  const x = Math.pow(Math.sin(latitude / 57.29578), 2);
+  const gravity = 9.780318 * (1 + (5.2788e-3 + 2.36e-5 * x) * x) + 1.092e-6 * pressure;
+  return ((((-1.82e-15 * pressure + 2.279e-10) * pressure - 2.2512e-5) * pressure + 9.72659) * pressure) / gravity;
+};
+
+export const julianDayToDate = (juld: number): Date => new Date(ARGO_EPOCH + juld * MS_PER_DAY);
+
+const findVariable = (reader: NetCDFReader, name: string) =>
+  reader.variables.find(v => v.name === name);
+
+const fillValueOf = (reader: NetCDFReader, name: string): number => {
+  const attributes = (findVariable(reader, name)?.attributes ?? []) as { name: string; value: number | string }[];
+  const fill = attributes.find(a => a.name === '_FillValue');
+  return fill ? Number(fill.value) : DEFAULT_FILL_VALUE;
+};
+
+// Numeric variable with fill values replaced by NaN, or null when absent.
+const readNumeric = (reader: NetCDFReader, name: string): number[] | null => {
+  if (!reader.dataVariableExists(name)) return null;
+  const fill = fillValueOf(reader, name);
+  // Strip float32 representation noise (28.100000381… → 28.1).
+  const isFloat = findVariable(reader, name)?.type === 'float';
+  return reader.getDataVariable(name).map(v => {
+    const n = Number(v);
+    if (isNaN(n) || n === fill || Math.abs(n) >= DEFAULT_FILL_VALUE) return NaN;
+    return isFloat ? Number(n.toPrecision(7)) : n;
+  });
+};
+
+// Char variable flattened to one character per element, or null when absent.
+const readChars = (reader: NetCDFReader, name: string): string[] | null => {
+  if (!reader.dataVariableExists(name)) return null;
+  return reader.getDataVariable(name).map(v => (typeof v === 'string' ? v : ''));
+};
+
+// Split a (N, STRINGn) char array into N trimmed strings.
+const readStrings = (reader: NetCDFReader, name: string, count: number): string[] => {
+  const chars = readChars(reader, name);
+  if (!chars || count === 0) return new Array(count).fill('');
+  const width = Math.max(1, Math.floor(chars.length / count));
+  return Array.from({ length: count }, (_, i) => chars.slice(i * width, (i + 1) * width).join('').trim());
+};
+
+// UNLIMITED dimensions are listed with size 0; their length is the record count.
+const dimensionSize = (reader: NetCDFReader, name: string): number | undefined => {
+  const dimension = reader.dimensions.find(d => d.name === name);
+  if (!dimension) return undefined;
+  return reader.recordDimension.name === name ? reader.recordDimension.length : dimension.size;
+};
+
+interface ArgoSeries {
+  values: number[];
+  qc: string[] | null;
+}
+
+/**
+ * Pick raw or adjusted values per element. Adjusted values win whenever the
+ * profile is in adjusted/delayed mode and an adjusted value is present.
+ */
+const readSeries = (
+  reader: NetCDFReader,
+  variable: string,
+  useAdjusted: (index: number) => boolean,
+): ArgoSeries | null => {
+  const raw = readNumeric(reader, variable);
+  if (!raw) return null;
+  const adjusted = readNumeric(reader, `${variable}_ADJUSTED`);
+  const rawQc = readChars(reader, `${variable}_QC`);
+  const adjustedQc = readChars(reader, `${variable}_ADJUSTED_QC`);
+
+  const values: number[] = [];
+  const qc: string[] = [];
+  raw.forEach((value, i) => {
+    const adjustedValue = adjusted?.[i];
+    const pickAdjusted = useAdjusted(i) && adjustedValue !== undefined && !isNaN(adjustedValue);
+    const flag = (pickAdjusted ? adjustedQc?.[i] : rawQc?.[i]) ?? '';
+    values.push(flag === BAD_QC_FLAG ? NaN : pickAdjusted ? adjustedValue : value);
+    qc.push(flag);
+  });
+
+  return { values, qc: rawQc || adjustedQc ? qc : null };
+};
+
+const formatTimestamp = (juld: number) => {
+  if (isNaN(juld)) return { timestamp: '', date: '' };
+  const iso = julianDayToDate(juld).toISOString();
+  return { timestamp: iso.replace('.000Z', 'Z'), date: iso.substring(0, 10) };
+};
+
+interface Sample {
+  profile: number;
+  index: number;
+}
+
+/**
+ * Parse an Argo core/BGC profile or trajectory NetCDF file into the shared row
+ * model. Each profile level (or trajectory measurement) becomes one record.
+ */
+export const parseArgoNetCDF = (buffer: ArrayBuffer): OceanDataset => {
+  let reader: NetCDFReader;
+  try {
+    reader = new NetCDFReader(buffer);
+  } catch (error) {
+    throw new Error('Not a NetCDF classic file (NetCDF-4/HDF5 is not supported)');
+  }
+
+  const nProf = dimensionSize(reader, 'N_PROF');
+  const nLevels = dimensionSize(reader, 'N_LEVELS');
+  const nMeasurement = dimensionSize(reader, 'N_MEASUREMENT');
+  const isProfile = nProf !== undefined && nLevels !== undefined;
+
+  if (!isProfile && nMeasurement === undefined) {
+    throw new Error('File is not an Argo profile or trajectory file (no N_PROF or N_MEASUREMENT dimension)');
+  }
+  if (!reader.dataVariableExists('PRES')) {
+    throw new Error('Argo file has no PRES variable');
+  }
+
+  // Per-profile metadata; trajectory files share one platform for all measurements.
+  const profileCount = isProfile ? nProf : 1;
+  const platforms = readStrings(reader, 'PLATFORM_NUMBER', profileCount);
+  const dataModes = readChars(reader, 'DATA_MODE') ?? [];
+  const latitudes = readNumeric(reader, 'LATITUDE') ?? [];
+  const longitudes = readNumeric(reader, 'LONGITUDE') ?? [];
+  const julds = readNumeric(reader, 'JULD') ?? [];
+  const cycles = readNumeric(reader, 'CYCLE_NUMBER') ?? [];
+
+  const samples: Sample[] = isProfile
+    ? Array.from({ length: nProf * nLevels }, (_, i) => ({ profile: Math.floor(i / nLevels), index: i }))
+    : Array.from({ length: nMeasurement }, (_, i) => ({ profile: i, index: i }));
+
+  // Trajectory files carry DATA_MODE per cycle, not per measurement; use the file-level mode.
+  const modeOf = (profile: number) => (isProfile ? dataModes[profile] : dataModes[0]) || 'R';
+  const useAdjusted = (index: number) => {
+    const profile = isProfile ? Math.floor(index / nLevels) : index;
+    return modeOf(profile) === 'A' || modeOf(profile) === 'D';
+  };
+
+  const pressure = readSeries(reader, 'PRES', useAdjusted);
+  const variables = ARGO_VARIABLES
+    .map(v => ({ ...v, series: readSeries(reader, v.variable, useAdjusted) }))
+    .filter(v => v.series !== null);
+
+  const oxygen = variables.find(v => v.variable === 'DOXY')?.series;
+  if (oxygen) {
+    const salinity = variables.find(v => v.variable === 'PSAL')?.series.values ?? [];
+    const temperature = variables.find(v => v.variable === 'TEMP')?.series.values ?? [];
+    oxygen.values = oxygen.values.map((value, i) =>
+      isNaN(value) ? NaN : Number(oxygenToMgPerLitre(value, salinity[i] ?? NaN, temperature[i] ?? NaN, pressure.values[i]).toFixed(3)),
+    );
+  }
+
+  const qcColumns: ColumnSchema[] = [PRESSURE_COLUMN, ...variables.map(v => v.column)]
+    .filter((column, i) => (i === 0 ? pressure.qc : variables[i - 1].series.qc) !== null)
+    .map(column => ({ name: `${column.name}_qc`, label: `${column.label} QC`, type: 'string', role: 'categorical' }));
+
+  const columns: ColumnSchema[] = [
+    ...ARGO_COLUMNS.slice(0, 4),
+    PRESSURE_COLUMN,
+    ...variables.map(v => v.column),
+    ...ARGO_COLUMNS.slice(4),
+    ...qcColumns,
+  ];
+
+  const records: OceanRecord[] = [];
+  samples.forEach(({ profile, index }) => {
+    const pres = pressure.values[index];
+    const latitude = latitudes[profile];
+    const longitude = longitudes[profile];
+    const hasMeasurement = !isNaN(pres) || variables.some(v => !isNaN(v.series.values[index]));
+    if (!hasMeasurement || isNaN(latitude) || isNaN(longitude)) return;
+
+    const record = {
+      latitude,
+      longitude,
+      region: regionForPosition(latitude, longitude),
+      depth: isNaN(pres) ? NaN : Number(pressureToDepth(pres, latitude).toFixed(2)),
+      pressure: pres,
+      float_wmo: platforms[isProfile ? profile : 0],
+      cycle_number: cycles[profile] ?? NaN,
+      data_mode: modeOf(profile),
+      ...formatTimestamp(julds[profile]),
+    } as OceanRecord;
+
+    variables.forEach(v => {
+      record[v.column.name] = v.series.values[index];
+    });
+    if (pressure.qc) record.pressure_qc = pressure.qc[index];
+    variables.forEach(v => {
+      if (v.series.qc) record[`${v.column.name}_qc`] = v.series.qc[index];
+    });
+
+    records.push(record);
+  });
+
+  if (records.length === 0) {
+    throw new Error('Argo file contains no valid measurements');
+  }
+
+  return { columns, records };
+};
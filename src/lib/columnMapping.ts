@@ -0,0 +1,177 @@
+import { REQUIRED_COLUMNS, regionForPosition } from '@/lib/dataset';
+
+// Required column → header it is read from, or null when the field is skipped.
+export type ColumnMapping = Record<string, string | null>;
+
+export interface MappingSuggestion {
+  header: string | null;
+  score: number;
+}
+
+export interface MappingProfile {
+  name: string;
+  source: string;
+  mapping: ColumnMapping;
+  extraColumns: string[];
+  createdAt: string;
+}
+
+const PROFILES_STORAGE_KEY = 'oceanic.mappingProfiles';
+
+// Minimum similarity for a fuzzy match to be suggested.
+const SUGGESTION_THRESHOLD = 0.6;
+
+// Header spellings seen in cruise, CTD and Argo exports, already normalized.
+const COLUMN_ALIASES: Record<string, string[]> = {
+  latitude: ['latitude', 'lat', 'lat_deg', 'lat_degn', 'latitude_n', 'y'],
+  longitude: ['longitude', 'lon', 'long', 'lng', 'lon_dege', 'longitude_e', 'x'],
+  region: ['region', 'area', 'zone', 'basin', 'ocean', 'sea', 'station_region'],
+  depth: ['depth', 'depth_m', 'dep', 'depsm', 'z', 'depth_below_surface'],
+  salinity: ['salinity', 'sal', 'psal', 'sal_psu', 'salinity_psu', 'sal00', 'practical_salinity'],
+  temperature: ['temperature', 'temp', 'temp_its90', 't090c', 'sst', 'water_temp', 'sea_water_temperature'],
+  ph: ['ph', 'ph_total', 'ph_in_situ_total', 'ph_insitu'],
+  dissolved_oxygen: ['dissolved_oxygen', 'do', 'doxy', 'oxygen', 'o2', 'dissolved_o2', 'sbeox0mg_l'],
+  fish_population: ['fish_population', 'fish', 'fish_count', 'fish_abundance'],
+  plankton: ['plankton', 'plankton_count', 'phytoplankton', 'plankton_density'],
+  coral_coverage: ['coral_coverage', 'coral', 'coral_cover', 'coral_pct', 'coral_percent'],
+  timestamp: ['timestamp', 'datetime', 'date_time', 'time', 'time_utc', 'juld'],
+  date: ['date', 'sample_date', 'day', 'date_utc'],
+};
+
+/**
+ * Lower-case a header and drop unit annotations, so `Lon (degE)` and `lon`
+ * compare equal.
+ */
+export const normalizeHeader = (header: string): string =>
+  header
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+};
+
+const similarity = (a: string, b: string): number =>
+  a.length === 0 && b.length === 0 ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+/**
+ * How well a header matches a required column, from 0 to 1. Exact aliases
+ * score 1, a leading alias token (`temp_its90`) 0.9, otherwise edit distance.
+ */
+export const scoreHeader = (column: string, header: string): number => {
+  const normalized = normalizeHeader(header);
+  const aliases = COLUMN_ALIASES[column] ?? [column];
+  if (aliases.includes(normalized)) return 1;
+
+  const [firstToken] = normalized.split('_');
+  if (aliases.includes(firstToken) && firstToken.length > 1) return 0.9;
+
+  return Math.max(...aliases.map(alias => similarity(alias, normalized)));
+};
+
+/**
+ * Suggest a header for every required column. Best-scoring pairs are assigned
+ * first and each header is used at most once.
+ */
+export const suggestMapping = (headers: string[]): Record<string, MappingSuggestion> => {
+  const candidates = REQUIRED_COLUMNS.flatMap(column =>
+    headers.map(header => ({ column, header, score: scoreHeader(column, header) })),
+  ).filter(c => c.score >= SUGGESTION_THRESHOLD);
+  candidates.sort((a, b) => b.score - a.score);
+
+  const suggestions: Record<string, MappingSuggestion> = {};
+  REQUIRED_COLUMNS.forEach(column => {
+    suggestions[column] = { header: null, score: 0 };
+  });
+
+  const usedHeaders = new Set<string>();
+  candidates.forEach(({ column, header, score }) => {
+    if (suggestions[column].header !== null || usedHeaders.has(header)) return;
+    suggestions[column] = { header, score };
+    usedHeaders.add(header);
+  });
+
+  return suggestions;
+};
+
+/**
+ * Rename raw rows to the required column names, keeping the selected extra
+ * columns. Skipped fields are left out (and load as missing), except `region`,
+ * `date` and `timestamp`, which are derived from the position or each other
+ * when possible.
+ */
+export const applyMapping = (
+  rows: Record<string, unknown>[],
+  mapping: ColumnMapping,
+  extraColumns: string[],
+): Record<string, unknown>[] =>
+  rows.map(row => {
+    const mapped: Record<string, unknown> = {};
+    // Absent rather than blank, so validation knows the field was never provided
+    REQUIRED_COLUMNS.forEach(column => {
+      const header = mapping[column];
+      if (header) mapped[column] = row[header];
+    });
+
+    if (!mapping.region) {
+      mapped.region = regionForPosition(parseFloat(String(mapped.latitude)), parseFloat(String(mapped.longitude)));
+    }
+    if (!mapping.date && mapping.timestamp) {
+      mapped.date = String(mapped.timestamp ?? '').substring(0, 10);
+    }
+    if (!mapping.timestamp && mapping.date) {
+      mapped.timestamp = mapped.date;
+    }
+
+    extraColumns.forEach(header => {
+      const name = normalizeHeader(header);
+      if (!REQUIRED_COLUMNS.includes(name)) mapped[name] = row[header];
+    });
+
+    return mapped;
+  });
+
+export const loadMappingProfiles = (): MappingProfile[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const saveMappingProfile = (profile: MappingProfile): MappingProfile[] => {
+  const profiles = [...loadMappingProfiles().filter(p => p.name !== profile.name), profile];
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const deleteMappingProfile = (name: string): MappingProfile[] => {
+  const profiles = loadMappingProfiles().filter(p => p.name !== name);
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+/**
+ * Restrict a saved profile to the headers of the current file, so a profile
+ * from a slightly different export still applies where it can.
+ */
+export const mappingFromProfile = (profile: MappingProfile, headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  REQUIRED_COLUMNS.forEach(column => {
+    const header = profile.mapping[column];
+    mapping[column] = header && headers.includes(header) ? header : null;
+  });
+  return mapping;
+};
@@ -0,0 +1,215 @@
+import { CellValue, ColumnSchema, OceanDataset, OceanRecord, parseNumber } from '@/lib/dataset';
+
+interface StringColumn {
+  codes: Uint32Array;
+  dictionary: string[];
+}
+
+/**
+ * Column-oriented storage used while parsing. Numbers live in Float64Arrays and
+ * strings are dictionary-encoded, so a million-row file costs a few bytes per
+ * cell instead of one JS object per row. Buffers are transferable.
+ */
+export interface ColumnarTable {
+  columns: ColumnSchema[];
+  rowCount: number;
+  numbers: Record<string, Float64Array>;
+  strings: Record<string, StringColumn>;
+}
+
+export interface ColumnarBuilder {
+  append: (row: Record<string, unknown>) => void;
+  finish: () => ColumnarTable;
+}
+
+const INITIAL_CAPACITY = 1024;
+
+const grow = <T extends Float64Array | Uint32Array>(array: T, needed: number): T => {
+  if (needed <= array.length) return array;
+  let capacity = array.length;
+  while (capacity < needed) capacity *= 2;
+  const next = new (array.constructor as { new (length: number): T })(capacity);
+  next.set(array);
+  return next;
+};
+
+export const createColumnarBuilder = (columns: ColumnSchema[]): ColumnarBuilder => {
+  let rowCount = 0;
+  const numbers: Record<string, Float64Array> = {};
+  const codes: Record<string, Uint32Array> = {};
+  const dictionaries: Record<string, { values: string[]; index: Map<string, number> }> = {};
+
+  columns.forEach(column => {
+    if (column.type === 'number') {
+      numbers[column.name] = new Float64Array(INITIAL_CAPACITY);
+    } else {
+      codes[column.name] = new Uint32Array(INITIAL_CAPACITY);
+      dictionaries[column.name] = { values: [], index: new Map() };
+    }
+  });
+
+  const encode = (name: string, raw: unknown): number => {
+    const text = raw === undefined || raw === null ? '' : String(raw);
+    const dictionary = dictionaries[name];
+    let code = dictionary.index.get(text);
+    if (code === undefined) {
+      code = dictionary.values.length;
+      dictionary.values.push(text);
+      dictionary.index.set(text, code);
+    }
+    return code;
+  };
+
+  return {
+    append: row => {
+      columns.forEach(column => {
+        if (column.type === 'number') {
+          numbers[column.name] = grow(numbers[column.name], rowCount + 1);
+          numbers[column.name][rowCount] = parseNumber(row[column.name]);
+        } else {
+          codes[column.name] = grow(codes[column.name], rowCount + 1);
+          codes[column.name][rowCount] = encode(column.name, row[column.name]);
+        }
+      });
+      rowCount++;
+    },
+    finish: () => ({
+      columns,
+      rowCount,
+      numbers: Object.fromEntries(Object.entries(numbers).map(([name, array]) => [name, array.slice(0, rowCount)])),
+      strings: Object.fromEntries(Object.entries(codes).map(([name, array]) => [
+        name,
+        { codes: array.slice(0, rowCount), dictionary: dictionaries[name].values },
+      ])),
+    }),
+  };
+};
+
+export const transferablesOf = (table: ColumnarTable): ArrayBuffer[] => [
+  ...Object.values(table.numbers).map(array => array.buffer as ArrayBuffer),
+  ...Object.values(table.strings).map(column => column.codes.buffer as ArrayBuffer),
+];
+
+// Row objects handed out by record views, so one row built twice still matches itself
+const rowOrigins = new WeakMap<OceanRecord, { table: ColumnarTable; index: number }>();
+const viewTables = new WeakMap<OceanRecord[], ColumnarTable>();
+
+const cellAt = (table: ColumnarTable, column: ColumnSchema, index: number): CellValue =>
+  column.type === 'number'
+    ? table.numbers[column.name][index]
+    : table.strings[column.name].dictionary[table.strings[column.name].codes[index]];
+
+// Reads one column by row index without building rows; null where the table lacks it
+export const columnReader = (table: ColumnarTable, name: string): ((index: number) => CellValue) => {
+  const column = table.columns.find(c => c.name === name);
+  return column ? index => cellAt(table, column, index) : () => null;
+};
+
+export const rowAt = (table: ColumnarTable, index: number): OceanRecord => {
+  const record = {} as OceanRecord;
+  table.columns.forEach(column => {
+    record[column.name] = cellAt(table, column, index);
+  });
+  rowOrigins.set(record, { table, index });
+  return record;
+};
+
+// Array index named by a property key, if it's within the table
+const indexOf = (key: string | symbol, rowCount: number): number | null => {
+  if (typeof key !== 'string') return null;
+  const index = Number(key);
+  return Number.isInteger(index) && index >= 0 && index < rowCount && String(index) === key ? index : null;
+};
+
+/**
+ * Read-only array of the table's rows. Nothing is stored per row: each row
+ * object is built when it's read and can be collected once dropped, so a
+ * scan over a million rows never holds them all at once.
+ */
+export const recordView = (table: ColumnarTable): OceanRecord[] => {
+  const view = new Proxy([] as OceanRecord[], {
+    get: (target, key, receiver) => {
+      if (key === 'length') return table.rowCount;
+      const index = indexOf(key, table.rowCount);
+      return index === null ? Reflect.get(target, key, receiver) : rowAt(table, index);
+    },
+    has: (target, key) => indexOf(key, table.rowCount) !== null || Reflect.has(target, key),
+    set: () => false,
+    deleteProperty: () => false,
+  });
+  viewTables.set(view, table);
+  return view;
+};
+
+// The table behind a record view; undefined for plain arrays of records
+export const tableOf = (records: OceanRecord[]): ColumnarTable | undefined => viewTables.get(records);
+
+// Same row, even when built twice from a record view
+export const sameRecord = (a: OceanRecord | null | undefined, b: OceanRecord | null | undefined): boolean => {
+  if (a === b) return true;
+  const origin = a && rowOrigins.get(a);
+  const other = b && rowOrigins.get(b);
+  return !!origin && !!other && origin.table === other.table && origin.index === other.index;
+};
+
+export const tableToDataset = (table: ColumnarTable): OceanDataset => ({
+  columns: table.columns,
+  records: recordView(table),
+});
+
+export interface CellEdit {
+  index: number;
+  column: string;
+  value: CellValue;
+}
+
+/** Copy of the table with some cells replaced. Columns without edits are shared. */
+export const updateCells = (table: ColumnarTable, edits: CellEdit[]): ColumnarTable => {
+  const numbers = { ...table.numbers };
+  const strings = { ...table.strings };
+  const copied = new Set<string>();
+  edits.forEach(({ index, column, value }) => {
+    if (column in numbers) {
+      if (!copied.has(column)) numbers[column] = numbers[column].slice();
+      numbers[column][index] = parseNumber(value);
+    } else if (column in strings) {
+      if (!copied.has(column)) strings[column] = { codes: strings[column].codes.slice(), dictionary: [...strings[column].dictionary] };
+      const text = value === null || (typeof value === 'number' && isNaN(value)) ? '' : String(value);
+      const { codes, dictionary } = strings[column];
+      let code = dictionary.indexOf(text);
+      if (code < 0) code = dictionary.push(text) - 1;
+      codes[index] = code;
+    }
+    copied.add(column);
+  });
+  return { ...table, numbers, strings };
+};
+
+/** The rows for which `keep` holds, in order. */
+export const selectRows = (table: ColumnarTable, keep: (index: number) => boolean): ColumnarTable => {
+  const kept = new Uint32Array(table.rowCount);
+  let rowCount = 0;
+  for (let i = 0; i < table.rowCount; i++) {
+    if (keep(i)) kept[rowCount++] = i;
+  }
+  const rows = kept.subarray(0, rowCount);
+  return {
+    columns: table.columns,
+    rowCount,
+    numbers: Object.fromEntries(Object.entries(table.numbers).map(([name, array]) => [
+      name,
+      Float64Array.from(rows, i => array[i]),
+    ])),
+    strings: Object.fromEntries(Object.entries(table.strings).map(([name, { codes, dictionary }]) => [
+      name,
+      { codes: Uint32Array.from(rows, i => codes[i]), dictionary },
+    ])),
+  };
+};
+
+// Adds (or overwrites) a string column holding the same value in every row
+export const withConstantColumn = (table: ColumnarTable, column: ColumnSchema, value: string): ColumnarTable => ({
+  ...table,
+  columns: table.columns.some(c => c.name === column.name) ? table.columns : [...table.columns, column],
+  strings: { ...table.strings, [column.name]: { codes: new Uint32Array(table.rowCount), dictionary: [value] } },
+});
@@ -0,0 +1,284 @@
+import { OceanRecord, numericValue } from '@/lib/dataset';
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export interface CorrelationResult {
+  // Coefficient in [−1, 1]; NaN with fewer than three pairs or a constant variable
+  r: number;
+  // Two-sided p-value of the null hypothesis r = 0
+  p: number;
+  // Records where both variables have a value
+  n: number;
+}
+
+// Mutual information of two variables after equal-frequency binning.
+export interface MutualInformationResult {
+  // Bits
+  mi: number;
+  // MI divided by the smaller marginal entropy, in [0, 1]
+  normalized: number;
+  // G-test p-value of independence
+  p: number;
+  n: number;
+}
+
+export interface Regression {
+  slope: number;
+  intercept: number;
+  r2: number;
+}
+
+/** Values of two columns from the records where both are present. */
+export const pairedValues = (records: OceanRecord[], a: string, b: string): { xs: number[]; ys: number[] } => {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  records.forEach(record => {
+    const x = numericValue(record, a);
+    const y = numericValue(record, b);
+    if (isNaN(x) || isNaN(y)) return;
+    xs.push(x);
+    ys.push(y);
+  });
+  return { xs, ys };
+};
+
+export const pearson = (xs: number[], ys: number[]): number => {
+  const n = xs.length;
+  if (n < 3) return NaN;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    sxy += dx * dy;
+    sxx += dx * dx;
+    syy += dy * dy;
+  }
+  if (sxx === 0 || syy === 0) return NaN;
+  return Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+};
+
+// Ranks from 1, ties sharing the mean of the ranks they span.
+export const rank = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const ranks = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const shared = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) ranks[order[i].index] = shared;
+    start = end + 1;
+  }
+  return ranks;
+};
+
+export const spearman = (xs: number[], ys: number[]): number => pearson(rank(xs), rank(ys));
+
+// Lanczos approximation (g = 7), accurate to ~15 digits for positive x.
+const logGamma = (x: number): number => {
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = c[0];
+  for (let i = 1; i < 9; i++) sum += c[i] / (z + i);
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Continued fraction for the incomplete beta function (modified Lentz).
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d);
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 / (Math.abs(1 + aa * d) < tiny ? tiny : 1 + aa * d);
+    c = Math.abs(1 + aa / c) < tiny ? tiny : 1 + aa / c;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+};
+
+/** Regularized incomplete beta function I_x(a, b). */
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The fraction converges fastest on this side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+/**
+ * Two-sided p-value for a correlation coefficient from `n` pairs, using the
+ * t distribution with n − 2 degrees of freedom. For Spearman's ρ this is the
+ * usual large-sample approximation.
+ */
+export const correlationPValue = (r: number, n: number): number => {
+  if (isNaN(r) || n < 3) return NaN;
+  if (Math.abs(r) >= 1) return 0;
+  const df = n - 2;
+  const t2 = (r * r * df) / (1 - r * r);
+  return incompleteBeta(df / (df + t2), df / 2, 0.5);
+};
+
+export const correlate = (
+  records: OceanRecord[],
+  a: string,
+  b: string,
+  method: CorrelationMethod,
+): CorrelationResult => {
+  const { xs, ys } = pairedValues(records, a, b);
+  const r = method === 'pearson' ? pearson(xs, ys) : spearman(xs, ys);
+  return { r, p: correlationPValue(r, xs.length), n: xs.length };
+};
+
+/** Symmetric matrix of correlations between every pair of columns. */
+export const correlationMatrix = (
+  records: OceanRecord[],
+  columns: string[],
+  method: CorrelationMethod,
+): CorrelationResult[][] => {
+  const matrix = columns.map(() => new Array<CorrelationResult>(columns.length));
+  columns.forEach((a, i) => {
+    matrix[i][i] = { r: 1, p: 0, n: pairedValues(records, a, a).xs.length };
+    for (let j = i + 1; j < columns.length; j++) {
+      const result = correlate(records, a, columns[j], method);
+      matrix[i][j] = result;
+      matrix[j][i] = result;
+    }
+  });
+  return matrix;
+};
+
+// Series for the lower incomplete gamma function, P(a, x).
+const gammaSeries = (a: number, x: number): number => {
+  let term = 1 / a;
+  let sum = term;
+  for (let n = 1; n < 500; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * 1e-14) break;
+  }
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+};
+
+// Continued fraction for the upper incomplete gamma function, Q(a, x).
+const gammaContinuedFraction = (a: number, x: number): number => {
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    d = 1 / (Math.abs(d) < tiny ? tiny : d);
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+};
+
+/** Upper-tail probability of the χ² distribution with `df` degrees of freedom. */
+export const chiSquareSurvival = (statistic: number, df: number): number => {
+  if (statistic <= 0) return 1;
+  const a = df / 2;
+  const x = statistic / 2;
+  return x < a + 1 ? 1 - gammaSeries(a, x) : gammaContinuedFraction(a, x);
+};
+
+// Bin indices by rank, so every bin holds about the same number of values.
+const quantileBins = (values: number[], bins: number): number[] =>
+  rank(values).map(r => Math.min(bins - 1, Math.floor(((r - 1) * bins) / values.length)));
+
+const entropy = (counts: number[], n: number): number =>
+  counts.reduce((sum, count) => (count > 0 ? sum - (count / n) * Math.log(count / n) : sum), 0);
+
+/**
+ * Mutual information between paired values, estimated on equal-frequency bins.
+ * The bin count keeps about five expected values per cell so the G-test
+ * (2·N·MI ~ χ²) holds.
+ */
+export const mutualInformation = (xs: number[], ys: number[]): MutualInformationResult => {
+  const n = xs.length;
+  const bins = Math.max(2, Math.min(10, Math.floor(Math.sqrt(n / 5))));
+  if (n < 3) return { mi: NaN, normalized: NaN, p: NaN, n };
+
+  const bx = quantileBins(xs, bins);
+  const by = quantileBins(ys, bins);
+  const joint = new Array<number>(bins * bins).fill(0);
+  const px = new Array<number>(bins).fill(0);
+  const py = new Array<number>(bins).fill(0);
+  for (let i = 0; i < n; i++) {
+    joint[bx[i] * bins + by[i]]++;
+    px[bx[i]]++;
+    py[by[i]]++;
+  }
+
+  // Nats; converted to bits for display
+  let mi = 0;
+  joint.forEach((count, cell) => {
+    if (count === 0) return;
+    const i = Math.floor(cell / bins);
+    const j = cell % bins;
+    mi += (count / n) * Math.log((count * n) / (px[i] * py[j]));
+  });
+  const hx = entropy(px, n);
+  const hy = entropy(py, n);
+  // Ties can leave bins empty; only occupied ones count towards the degrees of freedom
+  const df = (px.filter(Boolean).length - 1) * (py.filter(Boolean).length - 1);
+
+  return {
+    mi: mi / Math.LN2,
+    normalized: Math.min(hx, hy) > 0 ? mi / Math.min(hx, hy) : NaN,
+    p: df > 0 ? chiSquareSurvival(2 * n * mi, df) : NaN,
+    n,
+  };
+};
+
+// Conventional significance markers: * p < 0.05, ** p < 0.01, *** p < 0.001.
+export const significanceStars = (p: number): string => {
+  if (isNaN(p)) return '';
+  if (p < 0.001) return '***';
+  if (p < 0.01) return '**';
+  if (p < 0.05) return '*';
+  return '';
+};
+
+/** Ordinary least-squares fit of y on x. */
+export const linearRegression = (xs: number[], ys: number[]): Regression => {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    sxx += (xs[i] - meanX) ** 2;
+  }
+  const slope = sxx === 0 ? NaN : sxy / sxx;
+  const r = pearson(xs, ys);
+  return { slope, intercept: meanY - slope * meanX, r2: r * r };
+};
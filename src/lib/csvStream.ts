@@ -0,0 +1,101 @@
+import Papa from 'papaparse';
+import { OceanDataset } from '@/lib/dataset';
+import { ColumnMapping } from '@/lib/columnMapping';
+import { ColumnarTable, tableToDataset } from '@/lib/columnar';
+import { ValidationReport } from '@/lib/validation';
+
+export interface ParseRequest {
+  file: File;
+  mapping?: { mapping: ColumnMapping; extraColumns: string[] };
+}
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+  issues: number;
+}
+
+export type ParseMessage =
+  | ({ type: 'progress' } & ParseProgress)
+  | { type: 'done'; table: ColumnarTable; report: ValidationReport }
+  | { type: 'error'; message: string };
+
+export interface ParseResult {
+  dataset: OceanDataset;
+  report: ValidationReport;
+}
+
+export interface ParseJob {
+  result: Promise<ParseResult>;
+  cancel: () => void;
+}
+
+// Cancellation rejects with a DOM-style AbortError, like fetch does.
+export const isCancelled = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Read only the first rows of a CSV, enough to check headers and drive the
+ * column-mapping wizard without loading the whole file.
+ */
+export const peekCSV = (file: File): Promise<Record<string, unknown>[]> =>
+  new Promise((resolve, reject) => {
+    Papa.parse<Record<string, unknown>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      preview: 5,
+      complete: results => resolve(results.data),
+      error: error => reject(error),
+    });
+  });
+
+/**
+ * Stream-parse a CSV in a Web Worker. Rows are validated chunk by chunk and
+ * stored column-wise; the main thread only receives progress and the final
+ * typed arrays.
+ */
+export const parseCSVInWorker = (request: ParseRequest, onProgress: (progress: ParseProgress) => void): ParseJob => {
+  const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+  let rejectResult: (error: Error) => void = () => undefined;
+
+  const result = new Promise<ParseResult>((resolve, reject) => {
+    rejectResult = reject;
+    worker.onmessage = (event: MessageEvent<ParseMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve({ dataset: tableToDataset(message.table), report: message.report });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'CSV worker failed'));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      const error = new Error('Parsing cancelled');
+      error.name = 'AbortError';
+      rejectResult(error);
+    },
+  };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
@@ -0,0 +1,186 @@
+export type ColumnRole = 'coordinate' | 'time' | 'physical' | 'biological' | 'categorical';
+
+export type ColumnType = 'number' | 'string' | 'date';
+
+export interface ColumnSchema {
+  name: string;
+  label: string;
+  type: ColumnType;
+  role: ColumnRole;
+  unit?: string;
+  // Physically plausible [min, max]; values outside are flagged on import.
+  validRange?: [number, number];
+}
+
+export type CellValue = number | string | null;
+
+export interface OceanRecord {
+  latitude: number;
+  longitude: number;
+  region: string;
+  depth: number;
+  timestamp: string;
+  date: string;
+  [column: string]: CellValue;
+}
+
+// Provenance of one imported file within a (possibly merged) dataset.
+export interface SourceSummary {
+  fileName: string;
+  format: 'csv' | 'netcdf';
+  // Records read from the file, before duplicates were removed.
+  records: number;
+  duplicates: number;
+  // Columns of the merged schema this file did not provide.
+  missingColumns: string[];
+  importedAt: string;
+}
+
+export interface OceanDataset {
+  columns: ColumnSchema[];
+  records: OceanRecord[];
+  sources?: SourceSummary[];
+}
+
+// Columns every dataset must provide, in display order.
+export const CORE_COLUMNS: ColumnSchema[] = [
+  { name: 'latitude', label: 'Latitude', type: 'number', role: 'coordinate', unit: '°N', validRange: [-90, 90] },
+  { name: 'longitude', label: 'Longitude', type: 'number', role: 'coordinate', unit: '°E', validRange: [-180, 360] },
+  { name: 'region', label: 'Region', type: 'string', role: 'categorical' },
+  { name: 'depth', label: 'Depth', type: 'number', role: 'coordinate', unit: 'm', validRange: [0, 11000] },
+  { name: 'salinity', label: 'Salinity', type: 'number', role: 'physical', unit: 'PSU', validRange: [0, 45] },
+  { name: 'temperature', label: 'Temperature', type: 'number', role: 'physical', unit: '°C', validRange: [-2.5, 40] },
+  { name: 'ph', label: 'pH', type: 'number', role: 'physical', validRange: [0, 14] },
+  { name: 'dissolved_oxygen', label: 'Dissolved Oxygen', type: 'number', role: 'physical', unit: 'mg/L', validRange: [0, 20] },
+  { name: 'fish_population', label: 'Fish Population', type: 'number', role: 'biological', unit: 'individuals', validRange: [0, Infinity] },
+  { name: 'plankton', label: 'Plankton', type: 'number', role: 'biological', unit: 'cells/mL', validRange: [0, Infinity] },
+  { name: 'coral_coverage', label: 'Coral Coverage', type: 'number', role: 'biological', unit: '%', validRange: [0, 100] },
+  { name: 'timestamp', label: 'Timestamp', type: 'date', role: 'time' },
+  { name: 'date', label: 'Date', type: 'date', role: 'time' },
+];
+
+// Optional variables we know how to describe when they appear as extra columns.
+const KNOWN_COLUMNS: ColumnSchema[] = [
+  { name: 'nitrate', label: 'Nitrate', type: 'number', role: 'physical', unit: 'µmol/kg' },
+  { name: 'phosphate', label: 'Phosphate', type: 'number', role: 'physical', unit: 'µmol/kg' },
+  { name: 'silicate', label: 'Silicate', type: 'number', role: 'physical', unit: 'µmol/kg' },
+  { name: 'pressure', label: 'Pressure', type: 'number', role: 'physical', unit: 'dbar' },
+  { name: 'turbidity', label: 'Turbidity', type: 'number', role: 'physical', unit: 'NTU' },
+  { name: 'chlorophyll', label: 'Chlorophyll', type: 'number', role: 'biological', unit: 'mg/m³' },
+  { name: 'zooplankton', label: 'Zooplankton', type: 'number', role: 'biological', unit: 'mg/m³' },
+];
+
+export const REQUIRED_COLUMNS = CORE_COLUMNS.map(c => c.name);
+
+export const toLabel = (name: string): string =>
+  name
+    .split(/[_\s]+/)
+    .filter(Boolean)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+
+/**
+ * Describe a column we have not seen before. Known variables get their unit and
+ * role from the catalog; anything else is classified from its sample values.
+ */
+export const inferColumnSchema = (name: string, samples: unknown[]): ColumnSchema => {
+  const known = [...CORE_COLUMNS, ...KNOWN_COLUMNS].find(c => c.name === name);
+  if (known) return known;
+
+  const present = samples.filter(v => v !== null && v !== undefined && String(v).trim() !== '');
+  const numeric = present.length > 0 && present.every(v => !isNaN(Number(v)));
+  return {
+    name,
+    label: toLabel(name),
+    type: numeric ? 'number' : 'string',
+    role: numeric ? 'physical' : 'categorical',
+  };
+};
+
+export const getColumn = (dataset: OceanDataset, name: string): ColumnSchema | undefined =>
+  dataset.columns.find(c => c.name === name);
+
+export const columnsByRole = (dataset: OceanDataset, ...roles: ColumnRole[]): ColumnSchema[] =>
+  dataset.columns.filter(c => roles.includes(c.role));
+
+export const numericColumns = (dataset: OceanDataset): ColumnSchema[] =>
+  dataset.columns.filter(c => c.type === 'number');
+
+// Physical and biological variables, i.e. everything that was measured rather than located.
+export const measuredColumns = (dataset: OceanDataset): ColumnSchema[] =>
+  columnsByRole(dataset, 'physical', 'biological');
+
+export const formatColumnLabel = (column: ColumnSchema): string =>
+  column.unit ? `${column.label} (${column.unit})` : column.label;
+
+// Display text for a table cell; missing numbers show as a dash.
+export const formatCell = (record: OceanRecord, column: ColumnSchema): string => {
+  const value = record[column.name];
+  if (column.type !== 'number') return String(value ?? '');
+  if (typeof value !== 'number' || isNaN(value)) return '—';
+  return column.name === 'latitude' || column.name === 'longitude' ? value.toFixed(3) : String(value);
+};
+
+export const numericValue = (record: OceanRecord, name: string): number => {
+  const value = record[name];
+  if (value === null || value === undefined || value === '') return NaN;
+  return typeof value === 'number' ? value : Number(value);
+};
+
+/**
+ * Strict numeric parse: blank cells and trailing garbage (`12abc`) are missing,
+ * unlike `parseFloat`.
+ */
+export const parseNumber = (raw: unknown): number => {
+  if (typeof raw === 'number') return raw;
+  const text = raw === null || raw === undefined ? '' : String(raw).trim();
+  return text === '' ? NaN : Number(text);
+};
+
+/**
+ * Milliseconds since the epoch for a date or timestamp. ISO times without an
+ * offset, with a `T` or a space before the time, are read as UTC like plain
+ * dates are, rather than in the browser's time zone.
+ */
+export const parseTime = (text: string | null | undefined): number => {
+  const trimmed = (text ?? '').trim();
+  const local = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)$/.exec(trimmed);
+  return Date.parse(local ? `${local[1]}T${local[2]}Z` : trimmed);
+};
+
+export const getNumericValues = (records: OceanRecord[], name: string): number[] =>
+  records.map(r => numericValue(r, name)).filter(v => !isNaN(v));
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? NaN : values.reduce((a, b) => a + b, 0) / values.length;
+
+export const getRegions = (records: OceanRecord[]): string[] =>
+  [...new Set(records.map(r => r.region))];
+
+/**
+ * Coarse ocean basin for a position. Used when a source (Argo files, CSVs
+ * without a region column) carries no region name.
+ */
+export const regionForPosition = (latitude: number, longitude: number): string => {
+  if (isNaN(latitude) || isNaN(longitude)) return 'Unknown';
+  const lon = ((longitude + 540) % 360) - 180;
+  if (latitude >= 66) return 'Arctic Ocean';
+  if (latitude <= -60) return 'Southern Ocean';
+  if (lon >= 20 && lon < 147 && latitude < 30) {
+    if (latitude > 0 && lon < 78 && lon >= 50) return 'Arabian Sea';
+    if (latitude > 0 && lon >= 78 && lon < 100) return 'Bay of Bengal';
+    if (lon < 120 || latitude < -10) return 'Indian Ocean';
+  }
+  if (lon >= -70 && lon < 20) return latitude >= 0 ? 'North Atlantic' : 'South Atlantic';
+  if (lon >= -100 && lon < -70 && latitude > 8) return 'North Atlantic';
+  return latitude >= 0 ? 'North Pacific' : 'South Pacific';
+};
+
+// Schema for raw parsed rows: the core columns followed by any extra headers.
+export const describeColumns = (rows: Record<string, unknown>[]): ColumnSchema[] => {
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const extraColumns = headers
+    .filter(h => !REQUIRED_COLUMNS.includes(h))
+    .map(h => inferColumnSchema(h, rows.slice(0, 100).map(r => r[h])));
+  return [...CORE_COLUMNS, ...extraColumns];
+};
@@ -0,0 +1,13 @@
+/**
+ * Saves generated text or bytes as a file. A blob URL rather than a data URI,
+ * since graph exports with observations can run to many megabytes.
+ */
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const linkElement = document.createElement('a');
+  linkElement.setAttribute('href', url);
+  linkElement.setAttribute('download', fileName);
+  linkElement.click();
+  // Revoked after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,191 @@
+import { OceanRecord, numericValue } from '@/lib/dataset';
+import { GraphLink, GraphNode, KnowledgeGraphData, NODE_GROUPS, NodeType, linkKey, nodeId, serializeGraph } from '@/lib/graph';
+import { castKey, compareDepths } from '@/lib/oceanography';
+
+// Stations are casts pooled on a grid of this many degrees (about 11 km).
+export const STATION_GRID = 0.1;
+
+// More children than this would swamp the layout; the largest are kept.
+export const MAX_CHILDREN = 200;
+
+// Link types that make up the drill-down hierarchy, each from parent to child.
+export const HIERARCHY_LINK_TYPES = ['station', 'cast', 'observation'];
+
+const CHILD_TYPES: Partial<Record<NodeType, NodeType>> = {
+  region: 'station',
+  station: 'cast',
+  cast: 'observation',
+};
+
+const DETAIL_TYPES: NodeType[] = ['station', 'cast', 'observation'];
+
+export interface Expansion {
+  graph: KnowledgeGraphData;
+  // Children left out over MAX_CHILDREN
+  hidden: number;
+}
+
+export const isExpandable = (node: GraphNode): boolean => node.type in CHILD_TYPES;
+
+export const isExpanded = (graph: KnowledgeGraphData, id: string): boolean =>
+  graph.links.some(link => nodeId(link.source) === id && HIERARCHY_LINK_TYPES.includes(link.type));
+
+const stationKey = (record: OceanRecord): string => {
+  const cell = (value: number) => (Math.round(value / STATION_GRID) * STATION_GRID).toFixed(1);
+  return `${cell(Number(record.latitude))},${cell(Number(record.longitude))}`;
+};
+
+const formatPosition = (latitude: number, longitude: number): string =>
+  `${Math.abs(latitude).toFixed(2)}°${latitude < 0 ? 'S' : 'N'} ${Math.abs(longitude).toFixed(2)}°${longitude < 0 ? 'W' : 'E'}`;
+
+/** Whether a record is one of those a node stands for. Aggregate variable nodes take every record with a value. */
+export const recordMatcher = (node: GraphNode): ((record: OceanRecord, index: number) => boolean) => {
+  switch (node.type) {
+    case 'region':
+      return record => record.region === node.value;
+    case 'time':
+      return record => record.date.startsWith(String(node.value));
+    case 'parameter':
+    case 'biology':
+      return record => !isNaN(numericValue(record, String(node.value)));
+    case 'station':
+      return record => `station-${stationKey(record)}` === node.id;
+    case 'cast':
+      return record => `cast-${castKey(record)}` === node.id;
+    case 'observation':
+      return (_, index) => index === node.record;
+  }
+};
+
+export const nodeRecords = (node: GraphNode, records: OceanRecord[]): OceanRecord[] =>
+  records.filter(recordMatcher(node));
+
+// Indices of a node's records, grouped by the key of the child they fall in.
+const childGroups = (node: GraphNode, records: OceanRecord[]): Map<string, number[]> => {
+  const belongs = recordMatcher(node);
+  const childKey = node.type === 'region' ? stationKey : node.type === 'station' ? castKey : (_: OceanRecord, index: number) => String(index);
+
+  const groups = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    if (!belongs(record, index)) return;
+    const key = childKey(record, index);
+    const group = groups.get(key);
+    if (group) group.push(index);
+    else groups.set(key, [index]);
+  });
+  return groups;
+};
+
+const childNode = (type: NodeType, key: string, indices: number[], records: OceanRecord[]): GraphNode => {
+  const first = records[indices[0]];
+  const mean = (name: string) => indices.reduce((sum, index) => sum + Number(records[index][name]), 0) / indices.length;
+  const latitude = mean('latitude');
+  const longitude = mean('longitude');
+  const group = NODE_GROUPS[type];
+
+  switch (type) {
+    case 'station':
+      return { id: `station-${key}`, type, value: formatPosition(latitude, longitude), group, latitude, longitude, count: indices.length };
+    case 'cast': {
+      const time = first.timestamp || first.date;
+      return { id: `cast-${key}`, type, value: time.replace('T', ' ').slice(0, 16), group, latitude, longitude, time, count: indices.length };
+    }
+    default: {
+      const depth = numericValue(first, 'depth');
+      return {
+        id: `obs-${indices[0]}`,
+        type,
+        value: isNaN(depth) ? `#${indices[0]}` : `${depth} m`,
+        group,
+        latitude,
+        longitude,
+        time: first.timestamp || first.date,
+        record: indices[0],
+      };
+    }
+  }
+};
+
+/**
+ * Adds the next level of detail below a node: stations under a region, casts
+ * under a station (also linked to their month) and single records under a
+ * cast. Children start next to their parent so the layout doesn't jump.
+ */
+export const expandNode = (graph: KnowledgeGraphData, parent: GraphNode, records: OceanRecord[]): Expansion => {
+  const childType = CHILD_TYPES[parent.type];
+  const { nodes, links, ...rest } = serializeGraph(graph);
+  if (!childType) return { graph: { nodes, links, ...rest }, hidden: 0 };
+
+  const groups = [...childGroups(parent, records).entries()];
+  // Observations stay in depth order, missing depths last; otherwise the busiest children come first
+  const kept = childType === 'observation'
+    ? groups.sort(([, a], [, b]) => compareDepths(numericValue(records[a[0]], 'depth'), numericValue(records[b[0]], 'depth'))).slice(0, MAX_CHILDREN)
+    : groups.sort(([, a], [, b]) => b.length - a.length).slice(0, MAX_CHILDREN);
+
+  const present = new Set(nodes.map(node => node.id));
+  const linked = new Set(links.map(linkKey));
+  const addLink = (link: GraphLink) => {
+    const key = linkKey(link);
+    if (linked.has(key)) return;
+    linked.add(key);
+    links.push(link);
+  };
+
+  kept.forEach(([key, indices]) => {
+    const child = childNode(childType, key, indices, records);
+    if (!present.has(child.id)) {
+      present.add(child.id);
+      const angle = Math.random() * 2 * Math.PI;
+      nodes.push({ ...child, x: (parent.x ?? 0) + 30 * Math.cos(angle), y: (parent.y ?? 0) + 30 * Math.sin(angle) });
+    }
+    addLink({ source: parent.id, target: child.id, value: 1, type: childType });
+    // Casts sit under their month as well as their station
+    const month = `time-${child.time?.slice(0, 7)}`;
+    if (childType === 'cast' && present.has(month)) addLink({ source: month, target: child.id, value: 1, type: 'temporal' });
+  });
+
+  return { graph: { nodes, links, ...rest }, hidden: groups.length - kept.length };
+};
+
+/**
+ * Removes everything below a node. A descendant that another expanded node
+ * also holds, such as a station straddling two regions, stays.
+ */
+export const collapseNode = (graph: KnowledgeGraphData, id: string): KnowledgeGraphData => {
+  const { nodes, links, ...rest } = serializeGraph(graph);
+  const hierarchy = links.filter(link => HIERARCHY_LINK_TYPES.includes(link.type));
+  const removed = new Set<string>();
+  const queue = [id];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    hierarchy
+      .filter(link => link.source === current)
+      .forEach(link => {
+        const child = link.target as string;
+        const parents = hierarchy.filter(other => other.target === child).map(other => other.source as string);
+        if (removed.has(child) || !parents.every(parent => parent === id || removed.has(parent))) return;
+        removed.add(child);
+        queue.push(child);
+      });
+  }
+
+  return {
+    ...rest,
+    nodes: nodes.filter(node => !removed.has(node.id)),
+    links: links.filter(link => {
+      if (removed.has(link.source as string) || removed.has(link.target as string)) return false;
+      return !(link.source === id && HIERARCHY_LINK_TYPES.includes(link.type));
+    }),
+  };
+};
+
+/** Drops every drill-down level, back to the aggregate graph. */
+export const collapseAll = (graph: KnowledgeGraphData): KnowledgeGraphData => {
+  const { nodes, links, ...rest } = serializeGraph(graph);
+  const detail = new Set(nodes.filter(node => DETAIL_TYPES.includes(node.type)).map(node => node.id));
+  return {
+    ...rest,
+    nodes: nodes.filter(node => !detail.has(node.id)),
+    links: links.filter(link => !detail.has(link.source as string) && !detail.has(link.target as string)),
+  };
+};
@@ -0,0 +1,115 @@
+import * as d3 from 'd3';
+import { HIERARCHY_LINK_TYPES } from '@/lib/drillDown';
+import { KnowledgeGraphData, nodeId } from '@/lib/graph';
+
+// Above this many nodes the graph is drawn on a canvas and laid out in a worker.
+export const CANVAS_NODE_THRESHOLD = 1000;
+
+export interface LayoutNode extends d3.SimulationNodeDatum {
+  id: string;
+}
+
+export interface LayoutLink extends d3.SimulationLinkDatum<LayoutNode> {
+  type: string;
+}
+
+export type LayoutRequest =
+  | { type: 'start'; nodes: LayoutNode[]; links: { source: string; target: string; type: string }[]; width: number; height: number }
+  | { type: 'drag'; index: number; x: number; y: number }
+  // The node stays pinned where it was dropped
+  | { type: 'drop'; index: number };
+
+// Positions are x, y pairs in node order.
+export type LayoutMessage =
+  | { type: 'tick'; positions: Float32Array }
+  | { type: 'end' };
+
+export interface LayoutJob {
+  drag: (index: number, x: number, y: number) => void;
+  drop: (index: number) => void;
+  stop: () => void;
+}
+
+/**
+ * The force layout used by both renderers. Drill-down children are kept close
+ * to their parent, and a graph whose nodes are all placed already, as after a
+ * drill-down, only settles rather than starting over.
+ */
+export const createForceSimulation = <N extends LayoutNode, L extends d3.SimulationLinkDatum<N> & { type: string }>(
+  nodes: N[],
+  links: L[],
+  width: number,
+  height: number,
+): d3.Simulation<N, L> => {
+  const simulation = d3.forceSimulation(nodes)
+    .force('link', d3.forceLink<N, L>(links).id(d => d.id)
+      .distance(d => (HIERARCHY_LINK_TYPES.includes(d.type) ? 40 : 100)))
+    .force('charge', d3.forceManyBody().strength(-300))
+    .force('center', d3.forceCenter(width / 2, height / 2))
+    .force('collision', d3.forceCollide().radius(30));
+  if (nodes.every(node => node.x !== undefined)) simulation.alpha(0.3);
+  return simulation;
+};
+
+const layoutNodes = (graph: KnowledgeGraphData): LayoutNode[] =>
+  graph.nodes.map(({ id, x, y, fx, fy }) => ({ id, x, y, fx, fy }));
+
+const layoutLinks = (graph: KnowledgeGraphData) =>
+  graph.links.map(link => ({ source: nodeId(link.source), target: nodeId(link.target), type: link.type }));
+
+/**
+ * Runs the force layout in a Web Worker and reports positions on every tick.
+ * The nodes' own x and y are where the layout starts from, and fx and fy pin them.
+ * If the worker fails it is stopped and `onError` gets the reason.
+ */
+export const runLayoutInWorker = (
+  graph: KnowledgeGraphData,
+  width: number,
+  height: number,
+  onTick: (positions: Float32Array) => void,
+  onError: (message: string) => void,
+): LayoutJob => {
+  const worker = new Worker(new URL('../workers/forceLayout.worker.ts', import.meta.url), { type: 'module' });
+  const post = (request: LayoutRequest) => worker.postMessage(request);
+
+  worker.onmessage = (event: MessageEvent<LayoutMessage>) => {
+    if (event.data.type === 'tick') onTick(event.data.positions);
+  };
+  worker.onerror = event => {
+    event.preventDefault();
+    worker.terminate();
+    onError(event.message || 'the layout worker stopped');
+  };
+
+  post({ type: 'start', nodes: layoutNodes(graph), links: layoutLinks(graph), width, height });
+
+  return {
+    drag: (index, x, y) => post({ type: 'drag', index, x, y }),
+    drop: index => post({ type: 'drop', index }),
+    stop: () => worker.terminate(),
+  };
+};
+
+/** The same layout on this thread, for when the worker can't run. */
+export const runLayoutOnMainThread = (
+  graph: KnowledgeGraphData,
+  width: number,
+  height: number,
+  onTick: (positions: Float32Array) => void,
+): LayoutJob => {
+  const nodes = layoutNodes(graph);
+  const simulation = createForceSimulation(nodes, layoutLinks(graph) as LayoutLink[], width, height)
+    .on('tick', () => onTick(new Float32Array(nodes.flatMap(node => [node.x ?? 0, node.y ?? 0]))));
+
+  return {
+    drag: (index, x, y) => {
+      const node = nodes[index];
+      if (!node) return;
+      if (simulation.alphaTarget() === 0) simulation.alphaTarget(0.3).restart();
+      node.fx = x;
+      node.fy = y;
+    },
+    drop: () => simulation.alphaTarget(0),
+    stop: () => simulation.stop(),
+  };
+};
@@ -0,0 +1,120 @@
+import { polygonContains } from 'd3';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import landTopology from 'world-atlas/land-110m.json';
+import { OceanRecord, numericValue } from '@/lib/dataset';
+
+// Natural Earth 1:110m land, bundled so the map works without a tile server.
+export const LAND = feature(
+  landTopology as unknown as Topology<{ land: GeometryCollection }>,
+  (landTopology as unknown as Topology<{ land: GeometryCollection }>).objects.land,
+);
+
+// Polygon in [longitude, latitude] degrees, as drawn on the map.
+export type GeoPolygon = [number, number][];
+
+export interface Station {
+  key: string;
+  latitude: number;
+  longitude: number;
+  // Records sampled at this position.
+  count: number;
+  // Those of the records with a value for the colour variable.
+  valued: number;
+  // Mean of the colour variable over the valued records; NaN when there are none.
+  value: number;
+}
+
+export interface StationCluster {
+  key: string;
+  x: number;
+  y: number;
+  count: number;
+  value: number;
+  stations: Station[];
+}
+
+// Datasets may use 0–360° longitudes; the map uses −180–180°.
+export const normalizeLongitude = (longitude: number): number => ((((longitude + 180) % 360) + 360) % 360) - 180;
+
+/**
+ * One station per distinct position (to ~100 m), with the mean of `variable`
+ * over the records sampled there.
+ */
+export const groupStations = (records: OceanRecord[], variable: string | null): Station[] => {
+  const stations = new Map<string, Station & { sum: number }>();
+  records.forEach(record => {
+    const latitude = Number(record.latitude);
+    const longitude = normalizeLongitude(Number(record.longitude));
+    if (isNaN(latitude) || isNaN(longitude)) return;
+
+    const key = `${latitude.toFixed(3)},${longitude.toFixed(3)}`;
+    let station = stations.get(key);
+    if (!station) {
+      station = { key, latitude, longitude, count: 0, value: NaN, sum: 0, valued: 0 };
+      stations.set(key, station);
+    }
+    station.count++;
+    const value = variable ? numericValue(record, variable) : NaN;
+    if (!isNaN(value)) {
+      station.sum += value;
+      station.valued++;
+    }
+  });
+
+  return [...stations.values()].map(({ sum, ...station }) => ({
+    ...station,
+    value: station.valued > 0 ? sum / station.valued : NaN,
+  }));
+};
+
+/**
+ * Group stations falling in the same grid cell of the projected plane. The
+ * cell shrinks as the map zooms in, so clusters break up into stations.
+ */
+export const clusterStations = (
+  stations: Station[],
+  project: (station: Station) => [number, number] | null,
+  cellSize: number,
+): StationCluster[] => {
+  const cells = new Map<string, { stations: Station[]; x: number; y: number }>();
+  stations.forEach(station => {
+    const point = project(station);
+    if (!point) return;
+    const key = `${Math.floor(point[0] / cellSize)}:${Math.floor(point[1] / cellSize)}`;
+    const cell = cells.get(key) ?? { stations: [], x: 0, y: 0 };
+    cell.stations.push(station);
+    cell.x += point[0];
+    cell.y += point[1];
+    cells.set(key, cell);
+  });
+
+  return [...cells.entries()].map(([key, cell]) => {
+    const count = cell.stations.reduce((total, s) => total + s.count, 0);
+    // Each station's mean covers only its valued records, so those are its weight
+    const valued = cell.stations.filter(s => s.valued > 0);
+    const weight = valued.reduce((total, s) => total + s.valued, 0);
+    return {
+      key,
+      x: cell.x / cell.stations.length,
+      y: cell.y / cell.stations.length,
+      count,
+      value: weight > 0 ? valued.reduce((total, s) => total + s.value * s.valued, 0) / weight : NaN,
+      stations: cell.stations,
+    };
+  });
+};
+
+export const inArea = (latitude: number, longitude: number, area: GeoPolygon): boolean =>
+  polygonContains(area, [normalizeLongitude(longitude), latitude]);
+
+// Compact query-string form: `lon,lat;lon,lat;…` at ~100 m precision.
+export const encodeArea = (area: GeoPolygon): string =>
+  area.map(([lon, lat]) => `${Number(lon.toFixed(3))},${Number(lat.toFixed(3))}`).join(';');
+
+export const decodeArea = (text: string | null): GeoPolygon | null => {
+  if (!text) return null;
+  const points = text.split(';').map(pair => pair.split(',').map(Number) as [number, number]);
+  if (points.length < 3 || points.some(point => point.length !== 2 || point.some(isNaN))) return null;
+  return points;
+};
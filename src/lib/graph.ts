@@ -0,0 +1,219 @@
+import { OceanRecord, getNumericValues, mean } from '@/lib/dataset';
+import { CorrelationMethod, correlationPValue, mutualInformation, pairedValues, pearson, spearman } from '@/lib/correlation';
+
+export type RelationshipMethod = CorrelationMethod | 'mutual_information';
+
+// How parameter↔biology edges were derived; kept with the graph it produced.
+export interface RelationshipOptions {
+  method: RelationshipMethod;
+  // Edges are only drawn for p-values below this
+  alpha: number;
+}
+
+// Evidence behind a statistically derived edge.
+export interface LinkStatistic {
+  method: RelationshipMethod;
+  // r, ρ or mutual information in bits
+  statistic: number;
+  p: number;
+  n: number;
+  direction: 'positive' | 'negative';
+}
+
+export const NODE_TYPES = ['region', 'parameter', 'biology', 'time', 'station', 'cast', 'observation'] as const;
+
+export type NodeType = typeof NODE_TYPES[number];
+
+// Group numbers the generator gives each node type.
+export const NODE_GROUPS: Record<NodeType, number> = {
+  region: 1,
+  parameter: 2,
+  biology: 3,
+  time: 4,
+  station: 5,
+  cast: 6,
+  observation: 7,
+};
+
+export interface GraphNode {
+  id: string;
+  type: NodeType;
+  value?: number | string;
+  group: number;
+  // Drill-down nodes: where and when they were sampled, and how many records they hold
+  latitude?: number;
+  longitude?: number;
+  time?: string;
+  count?: number;
+  // Observation nodes: index of their record in the dataset the graph was built from
+  record?: number;
+  x?: number;
+  y?: number;
+  fx?: number;
+  fy?: number;
+}
+
+export interface GraphLink {
+  source: string | GraphNode;
+  target: string | GraphNode;
+  value: number;
+  type: string;
+  stats?: LinkStatistic;
+}
+
+// Nodes and links to pick out in the view, such as query matches or a path
+export interface GraphHighlight {
+  nodeIds: Set<string>;
+  linkKeys: Set<string>;
+}
+
+export interface KnowledgeGraphData {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  relationships?: RelationshipOptions;
+}
+
+export const DEFAULT_RELATIONSHIPS: RelationshipOptions = { method: 'pearson', alpha: 0.05 };
+
+export const RELATIONSHIP_LABELS: Record<RelationshipMethod, string> = {
+  pearson: 'Pearson r',
+  spearman: 'Spearman ρ',
+  mutual_information: 'Mutual information',
+};
+
+export const nodeId = (end: string | GraphNode): string => (typeof end === 'string' ? end : end.id);
+
+/**
+ * Plain copy of a graph with link ends as node ids. d3's force layout swaps the
+ * ids for node objects, which must not be stored or shared between renders.
+ */
+export const serializeGraph = (graph: KnowledgeGraphData): KnowledgeGraphData => ({
+  ...graph,
+  nodes: graph.nodes.map(({ id, type, value, group, latitude, longitude, time, count, record, x, y, fx, fy }) => ({
+    id, type, value, group, latitude, longitude, time, count, record, x, y, fx, fy,
+  })),
+  links: graph.links.map(link => ({ ...link, source: nodeId(link.source), target: nodeId(link.target) })),
+});
+
+/**
+ * Links between every parameter and biological variable whose association is
+ * significant at `alpha`. Weights run from 0 to 10: |r| or |ρ| times ten, or
+ * the normalized mutual information times ten.
+ */
+export const relationshipLinks = (
+  records: OceanRecord[],
+  parameters: string[],
+  biology: string[],
+  { method, alpha }: RelationshipOptions,
+): GraphLink[] => {
+  const links: GraphLink[] = [];
+  parameters.forEach(parameter => {
+    biology.forEach(variable => {
+      const { xs, ys } = pairedValues(records, parameter, variable);
+      let statistic: number;
+      let p: number;
+      let strength: number;
+      let sign: number;
+      if (method === 'mutual_information') {
+        const result = mutualInformation(xs, ys);
+        statistic = result.mi;
+        p = result.p;
+        strength = result.normalized;
+        // Mutual information has no sign; the rank correlation gives the direction
+        sign = spearman(xs, ys);
+      } else {
+        statistic = method === 'pearson' ? pearson(xs, ys) : spearman(xs, ys);
+        p = correlationPValue(statistic, xs.length);
+        strength = Math.abs(statistic);
+        sign = statistic;
+      }
+      if (isNaN(statistic) || isNaN(p) || p >= alpha) return;
+
+      links.push({
+        source: `param-${parameter}`,
+        target: `bio-${variable}`,
+        value: Math.max(0.1, strength * 10),
+        type: 'correlation',
+        stats: { method, statistic, p, n: xs.length, direction: sign < 0 ? 'negative' : 'positive' },
+      });
+    });
+  });
+  return links;
+};
+
+/**
+ * Links from each region to the parameters and biological variables measured
+ * there. The weight places the region's mean on a 0.1–10 scale between the
+ * lowest and highest regional means of that variable, so filtering on it
+ * picks out the regions where a variable runs high.
+ */
+export const regionLinks = (
+  records: OceanRecord[],
+  regions: string[],
+  parameters: string[],
+  biology: string[],
+): GraphLink[] => {
+  const byRegion = new Map<string, OceanRecord[]>(regions.map(region => [region, []]));
+  records.forEach(record => byRegion.get(record.region)?.push(record));
+
+  const links: GraphLink[] = [];
+  const addLinks = (variables: string[], prefix: string, type: string) => {
+    variables.forEach(variable => {
+      const means = regions.map(region => mean(getNumericValues(byRegion.get(region) ?? [], variable)));
+      const measured = means.filter(m => !isNaN(m));
+      const low = Math.min(...measured);
+      const range = Math.max(...measured) - low;
+      regions.forEach((region, i) => {
+        // Regions without a value for the variable don't measure it
+        if (isNaN(means[i])) return;
+        const scaled = range > 0 ? ((means[i] - low) / range) * 10 : 10;
+        links.push({ source: `region-${region}`, target: `${prefix}-${variable}`, value: Math.max(0.1, scaled), type });
+      });
+    });
+  };
+  addLinks(parameters, 'param', 'parameter');
+  addLinks(biology, 'bio', 'biology');
+  return links;
+};
+
+/** Identifies a link by its ends and type, whether or not d3 has resolved the ends to nodes. */
+export const linkKey = (link: GraphLink): string => `${nodeId(link.source)}|${nodeId(link.target)}|${link.type}`;
+
+// Fields that are actually set, so spreading them never blanks out another copy.
+const definedFields = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined && field !== null)) as Partial<T>;
+
+/**
+ * Union of two graphs with nodes reconciled by id. Where both have a node or
+ * link, the base graph's copy wins and the incoming one only fills its gaps,
+ * so the positions and statistics already on screen survive a merge.
+ */
+export const mergeGraphs = (base: KnowledgeGraphData, incoming: KnowledgeGraphData): KnowledgeGraphData => {
+  const { nodes, links } = serializeGraph(base);
+  const added = serializeGraph(incoming);
+
+  const nodeIndex = new Map(nodes.map((node, index) => [node.id, index]));
+  added.nodes.forEach(node => {
+    const index = nodeIndex.get(node.id);
+    if (index === undefined) {
+      nodeIndex.set(node.id, nodes.length);
+      nodes.push(node);
+    } else {
+      nodes[index] = { ...node, ...definedFields(nodes[index]) };
+    }
+  });
+
+  const linkIndex = new Map(links.map((link, index) => [linkKey(link), index]));
+  added.links.forEach(link => {
+    const key = linkKey(link);
+    const index = linkIndex.get(key);
+    if (index === undefined) {
+      linkIndex.set(key, links.length);
+      links.push(link);
+    } else {
+      links[index] = { ...link, ...definedFields(links[index]) };
+    }
+  });
+
+  return { nodes, links, relationships: base.relationships ?? incoming.relationships };
+};
@@ -0,0 +1,261 @@
+import { GraphHighlight, KnowledgeGraphData, linkKey, nodeId } from '@/lib/graph';
+
+export interface NodeMetrics {
+  id: string;
+  // Links per node, as a share of the other nodes
+  degree: number;
+  // Share of shortest paths between other nodes that pass through this one
+  betweenness: number;
+  // Scaled so the most central node is 1
+  eigenvector: number;
+  // Louvain community, numbered from the largest
+  community: number;
+}
+
+export interface GraphMetrics {
+  nodes: NodeMetrics[];
+  communities: number;
+  modularity: number;
+}
+
+export type CentralityMeasure = 'degree' | 'betweenness' | 'eigenvector';
+
+export const CENTRALITY_LABELS: Record<CentralityMeasure, string> = {
+  degree: 'Degree',
+  betweenness: 'Betweenness',
+  eigenvector: 'Eigenvector',
+};
+
+const EIGENVECTOR_ITERATIONS = 200;
+const EIGENVECTOR_TOLERANCE = 1e-6;
+
+// Undirected neighbour lists by node index; weights of parallel links add up.
+const adjacency = (graph: KnowledgeGraphData): { ids: string[]; neighbors: Map<number, number>[] } => {
+  const ids = graph.nodes.map(node => node.id);
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const neighbors = ids.map(() => new Map<number, number>());
+  graph.links.forEach(link => {
+    const source = index.get(nodeId(link.source));
+    const target = index.get(nodeId(link.target));
+    if (source === undefined || target === undefined || source === target) return;
+    const weight = link.value > 0 ? link.value : 1;
+    neighbors[source].set(target, (neighbors[source].get(target) ?? 0) + weight);
+    neighbors[target].set(source, (neighbors[target].get(source) ?? 0) + weight);
+  });
+  return { ids, neighbors };
+};
+
+/** Brandes' algorithm over hop counts, normalised by the number of node pairs. */
+const betweenness = (neighbors: Map<number, number>[]): number[] => {
+  const n = neighbors.length;
+  const centrality = new Array<number>(n).fill(0);
+  for (let s = 0; s < n; s++) {
+    const stack: number[] = [];
+    const predecessors: number[][] = neighbors.map(() => []);
+    const paths = new Array<number>(n).fill(0);
+    const distance = new Array<number>(n).fill(-1);
+    paths[s] = 1;
+    distance[s] = 0;
+    const queue = [s];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      neighbors[v].forEach((_, w) => {
+        if (distance[w] < 0) {
+          distance[w] = distance[v] + 1;
+          queue.push(w);
+        }
+        if (distance[w] === distance[v] + 1) {
+          paths[w] += paths[v];
+          predecessors[w].push(v);
+        }
+      });
+    }
+    const dependency = new Array<number>(n).fill(0);
+    while (stack.length > 0) {
+      const w = stack.pop() as number;
+      predecessors[w].forEach(v => {
+        dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w]);
+      });
+      if (w !== s) centrality[w] += dependency[w];
+    }
+  }
+  // Each path was counted from both ends
+  const pairs = ((n - 1) * (n - 2)) / 2;
+  return centrality.map(value => (pairs > 0 ? value / 2 / pairs : 0));
+};
+
+/**
+ * Power iteration on the weighted adjacency matrix. It is shifted by the
+ * identity so that bipartite graphs, like regions against variables, converge
+ * instead of oscillating.
+ */
+const eigenvector = (neighbors: Map<number, number>[]): number[] => {
+  let scores = neighbors.map(() => 1);
+  for (let iteration = 0; iteration < EIGENVECTOR_ITERATIONS; iteration++) {
+    const next = scores.map((score, v) => {
+      let sum = score;
+      neighbors[v].forEach((weight, w) => {
+        sum += weight * scores[w];
+      });
+      return sum;
+    });
+    const max = Math.max(...next);
+    if (!(max > 0)) return scores.map(() => 0);
+    const normalized = next.map(value => value / max);
+    const change = normalized.reduce((total, value, v) => Math.max(total, Math.abs(value - scores[v])), 0);
+    scores = normalized;
+    if (change < EIGENVECTOR_TOLERANCE) break;
+  }
+  return scores;
+};
+
+/**
+ * Louvain community detection on the link weights: nodes move to the
+ * neighbouring community that most improves modularity, then each community
+ * collapses into one node and the process repeats until nothing moves.
+ */
+const louvain = (neighbors: Map<number, number>[]): number[] => {
+  let membership = neighbors.map((_, i) => i);
+  // Weights between the current level's nodes; self-loops hold a community's internal weight
+  let level = neighbors.map(map => new Map(map));
+
+  for (;;) {
+    const n = level.length;
+    const strength = level.map(map => [...map.values()].reduce((a, b) => a + b, 0));
+    const total = strength.reduce((a, b) => a + b, 0);
+    if (total === 0) break;
+
+    const community = level.map((_, i) => i);
+    const communityStrength = [...strength];
+    let improved = false;
+    let moved = true;
+    while (moved) {
+      moved = false;
+      for (let i = 0; i < n; i++) {
+        const current = community[i];
+        const weights = new Map<number, number>();
+        level[i].forEach((weight, j) => {
+          if (j !== i) weights.set(community[j], (weights.get(community[j]) ?? 0) + weight);
+        });
+        communityStrength[current] -= strength[i];
+        let best = current;
+        let bestGain = (weights.get(current) ?? 0) - (communityStrength[current] * strength[i]) / total;
+        weights.forEach((weight, candidate) => {
+          const gain = weight - (communityStrength[candidate] * strength[i]) / total;
+          if (gain > bestGain + 1e-12) {
+            best = candidate;
+            bestGain = gain;
+          }
+        });
+        communityStrength[best] += strength[i];
+        if (best !== current) {
+          community[i] = best;
+          moved = true;
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+
+    const renumbered = new Map<number, number>();
+    community.forEach(c => {
+      if (!renumbered.has(c)) renumbered.set(c, renumbered.size);
+    });
+    const next = [...renumbered.keys()].map(() => new Map<number, number>());
+    level.forEach((map, i) => {
+      const from = renumbered.get(community[i]) as number;
+      map.forEach((weight, j) => {
+        const to = renumbered.get(community[j]) as number;
+        next[from].set(to, (next[from].get(to) ?? 0) + weight);
+      });
+    });
+    membership = membership.map(c => renumbered.get(community[c]) as number);
+    level = next;
+  }
+
+  // Largest community first, so colours are stable between runs
+  const sizes = new Map<number, number>();
+  membership.forEach(c => sizes.set(c, (sizes.get(c) ?? 0) + 1));
+  const order = [...sizes.entries()].sort(([a, x], [b, y]) => y - x || a - b).map(([c]) => c);
+  const rank = new Map(order.map((c, i) => [c, i]));
+  return membership.map(c => rank.get(c) as number);
+};
+
+const modularity = (neighbors: Map<number, number>[], community: number[]): number => {
+  const strength = neighbors.map(map => [...map.values()].reduce((a, b) => a + b, 0));
+  const total = strength.reduce((a, b) => a + b, 0);
+  if (total === 0) return 0;
+  let internal = 0;
+  const communityStrength = new Map<number, number>();
+  neighbors.forEach((map, i) => {
+    map.forEach((weight, j) => {
+      if (community[i] === community[j]) internal += weight;
+    });
+    communityStrength.set(community[i], (communityStrength.get(community[i]) ?? 0) + strength[i]);
+  });
+  let expected = 0;
+  communityStrength.forEach(value => {
+    expected += (value / total) ** 2;
+  });
+  return internal / total - expected;
+};
+
+/** Centralities and communities of every node, treating links as undirected. */
+export const analyzeGraph = (graph: KnowledgeGraphData): GraphMetrics => {
+  const { ids, neighbors } = adjacency(graph);
+  const n = ids.length;
+  const between = betweenness(neighbors);
+  const eigen = eigenvector(neighbors);
+  const community = louvain(neighbors);
+  return {
+    nodes: ids.map((id, i) => ({
+      id,
+      degree: n > 1 ? neighbors[i].size / (n - 1) : 0,
+      betweenness: between[i],
+      eigenvector: eigen[i],
+      community: community[i],
+    })),
+    communities: new Set(community).size,
+    modularity: modularity(neighbors, community),
+  };
+};
+
+/**
+ * Fewest-hop path between two nodes, ignoring link direction, with the links
+ * along it. Null when they aren't connected.
+ */
+export const shortestPath = (graph: KnowledgeGraphData, from: string, to: string): (GraphHighlight & { path: string[] }) | null => {
+  const links = new Map<string, Map<string, string>>();
+  const connect = (a: string, b: string, key: string) => {
+    const map = links.get(a) ?? links.set(a, new Map()).get(a) as Map<string, string>;
+    if (!map.has(b)) map.set(b, key);
+  };
+  graph.links.forEach(link => {
+    const source = nodeId(link.source);
+    const target = nodeId(link.target);
+    connect(source, target, linkKey(link));
+    connect(target, source, linkKey(link));
+  });
+
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+  for (let head = 0; head < queue.length && !previous.has(to); head++) {
+    links.get(queue[head])?.forEach((_, next) => {
+      if (previous.has(next)) return;
+      previous.set(next, queue[head]);
+      queue.push(next);
+    });
+  }
+  if (!previous.has(to)) return null;
+
+  const path = [to];
+  const linkKeys = new Set<string>();
+  for (let current = to; previous.get(current) !== null;) {
+    const before = previous.get(current) as string;
+    linkKeys.add(links.get(before)?.get(current) as string);
+    path.unshift(before);
+    current = before;
+  }
+  return { path, nodeIds: new Set(path), linkKeys };
+};
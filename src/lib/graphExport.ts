@@ -0,0 +1,345 @@
+import { OceanDataset } from '@/lib/dataset';
+import { GraphLink, GraphNode, KnowledgeGraphData, linkKey } from '@/lib/graph';
+import { csvEscape } from '@/lib/validation';
+
+export type PropertyGraphFormat = 'graphml' | 'gexf' | 'cypher' | 'neo4j-csv';
+
+export interface ExportFile {
+  fileName: string;
+  content: string;
+  mimeType: string;
+}
+
+// First and last day a node covers, as YYYY-MM-DD.
+export interface TemporalSpan {
+  start: string;
+  end: string;
+}
+
+export const PROPERTY_GRAPH_FORMATS: Record<PropertyGraphFormat, string> = {
+  graphml: 'GraphML (.graphml)',
+  gexf: 'GEXF for Gephi (.gexf)',
+  cypher: 'Neo4j Cypher script (.cypher)',
+  'neo4j-csv': 'Neo4j admin import (CSV)',
+};
+
+// Neo4j labels keep the knowledge graph's node typing.
+const NODE_LABELS: Record<string, string> = {
+  region: 'Region',
+  parameter: 'Parameter',
+  biology: 'Biology',
+  time: 'Time',
+  station: 'Station',
+  cast: 'Cast',
+  observation: 'Observation',
+};
+
+const RELATIONSHIP_TYPES: Record<string, string> = {
+  parameter: 'HAS_PARAMETER',
+  biology: 'HAS_BIOLOGY',
+  temporal: 'COVERS',
+  correlation: 'ASSOCIATED_WITH',
+  station: 'HAS_STATION',
+  cast: 'HAS_CAST',
+  observation: 'HAS_OBSERVATION',
+};
+
+const nodeLabel = (node: GraphNode): string =>
+  NODE_LABELS[node.type] ?? node.type.replace(/(^|_)(\w)/g, (_, __, c: string) => c.toUpperCase());
+
+const relationshipType = (link: GraphLink): string =>
+  RELATIONSHIP_TYPES[link.type] ?? link.type.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+
+const endId = (end: string | GraphNode): string => (typeof end === 'string' ? end : end.id);
+
+const lastDayOfMonth = (month: string): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex, 0)).toISOString().slice(0, 10);
+};
+
+/**
+ * Time spans for the nodes that have one: a month node covers its month, a
+ * region the dates of its records, and casts and observations their day.
+ */
+export const temporalSpans = (graph: KnowledgeGraphData, dataset: OceanDataset): Map<string, TemporalSpan> => {
+  const spans = new Map<string, TemporalSpan>();
+  const regionDates = new Map<string, TemporalSpan>();
+  dataset.records.forEach(record => {
+    const date = record.date?.slice(0, 10);
+    if (!date) return;
+    const span = regionDates.get(record.region);
+    if (!span) regionDates.set(record.region, { start: date, end: date });
+    else if (date < span.start) span.start = date;
+    else if (date > span.end) span.end = date;
+  });
+
+  graph.nodes.forEach(node => {
+    const value = String(node.value);
+    if (node.type === 'time' && /^\d{4}-\d{2}$/.test(value)) {
+      spans.set(node.id, { start: `${value}-01`, end: lastDayOfMonth(value) });
+    } else if (node.type === 'region' && regionDates.has(value)) {
+      spans.set(node.id, regionDates.get(value) as TemporalSpan);
+    } else if (node.time && /^\d{4}-\d{2}-\d{2}/.test(node.time)) {
+      spans.set(node.id, { start: node.time.slice(0, 10), end: node.time.slice(0, 10) });
+    }
+  });
+  return spans;
+};
+
+interface Attribute<T> {
+  id: string;
+  type: 'string' | 'int' | 'double';
+  value: (item: T) => string | number | undefined;
+}
+
+const NODE_ATTRIBUTES: Attribute<GraphNode>[] = [
+  { id: 'label', type: 'string', value: node => String(node.value ?? node.id) },
+  { id: 'type', type: 'string', value: node => node.type },
+  { id: 'group', type: 'int', value: node => node.group },
+  { id: 'latitude', type: 'double', value: node => node.latitude },
+  { id: 'longitude', type: 'double', value: node => node.longitude },
+  { id: 'time', type: 'string', value: node => node.time },
+  { id: 'count', type: 'int', value: node => node.count },
+  { id: 'record', type: 'int', value: node => node.record },
+];
+
+const EDGE_ATTRIBUTES: Attribute<GraphLink>[] = [
+  { id: 'type', type: 'string', value: link => link.type },
+  { id: 'weight', type: 'double', value: link => link.value },
+  { id: 'method', type: 'string', value: link => link.stats?.method },
+  { id: 'statistic', type: 'double', value: link => link.stats?.statistic },
+  { id: 'p_value', type: 'double', value: link => link.stats?.p },
+  { id: 'n', type: 'int', value: link => link.stats?.n },
+  { id: 'direction', type: 'string', value: link => link.stats?.direction },
+];
+
+// Start and end dates, for the formats that write spans as plain properties
+const SPAN_ATTRIBUTES: Attribute<TemporalSpan | undefined>[] = [
+  { id: 'start', type: 'string', value: span => span?.start },
+  { id: 'end', type: 'string', value: span => span?.end },
+];
+
+// Position for a spatial point, when both coordinates are known
+const location = (node: GraphNode): { latitude: number; longitude: number } | undefined =>
+  Number.isFinite(node.latitude) && Number.isFinite(node.longitude)
+    ? { latitude: node.latitude as number, longitude: node.longitude as number }
+    : undefined;
+
+// Values worth writing: set, and finite when numeric, so no format gets a literal NaN
+const isWritable = (value: string | number | undefined): value is string | number =>
+  value !== undefined && (typeof value !== 'number' || Number.isFinite(value));
+
+const escapeXml = (value: string | number): string =>
+  String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const toGraphML = (graph: KnowledgeGraphData, spans: Map<string, TemporalSpan>): string => {
+  const keys = [
+    ...NODE_ATTRIBUTES.map(a => `  <key id="n_${a.id}" for="node" attr.name="${a.id}" attr.type="${a.type}"/>`),
+    '  <key id="n_start" for="node" attr.name="start" attr.type="string"/>',
+    '  <key id="n_end" for="node" attr.name="end" attr.type="string"/>',
+    ...EDGE_ATTRIBUTES.map(a => `  <key id="e_${a.id}" for="edge" attr.name="${a.id}" attr.type="${a.type}"/>`),
+  ];
+  const data = (prefix: string, id: string, value: string | number | undefined) =>
+    isWritable(value) ? `\n      <data key="${prefix}_${id}">${escapeXml(value)}</data>` : '';
+
+  const nodes = graph.nodes.map(node => {
+    const span = spans.get(node.id);
+    const attributes = NODE_ATTRIBUTES.map(a => data('n', a.id, a.value(node))).join('')
+      + data('n', 'start', span?.start) + data('n', 'end', span?.end);
+    return `    <node id="${escapeXml(node.id)}">${attributes}\n    </node>`;
+  });
+  const edges = graph.links.map((link, index) => {
+    const attributes = EDGE_ATTRIBUTES.map(a => data('e', a.id, a.value(link))).join('');
+    return `    <edge id="e${index}" source="${escapeXml(endId(link.source))}" target="${escapeXml(endId(link.target))}">${attributes}\n    </edge>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"',
+    '    xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '    xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    ...keys,
+    '  <graph id="knowledge-graph" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * GEXF 1.3 in dynamic mode: nodes with a temporal span carry `start`/`end`,
+ * so Gephi's timeline can filter regions and months by date.
+ */
+export const toGEXF = (graph: KnowledgeGraphData, spans: Map<string, TemporalSpan>): string => {
+  const GEXF_TYPES = { string: 'string', int: 'integer', double: 'double' } as const;
+  const declare = <T>(attributes: Attribute<T>[]) =>
+    attributes.map(a => `      <attribute id="${a.id}" title="${a.id}" type="${GEXF_TYPES[a.type]}"/>`);
+  const values = <T>(attributes: Attribute<T>[], item: T) => {
+    const present = attributes
+      .map(a => ({ id: a.id, value: a.value(item) }))
+      .filter(({ value }) => isWritable(value))
+      .map(({ id, value }) => `          <attvalue for="${id}" value="${escapeXml(value as string | number)}"/>`);
+    return present.length > 0 ? `\n        <attvalues>\n${present.join('\n')}\n        </attvalues>\n      ` : '';
+  };
+
+  const nodes = graph.nodes.map(node => {
+    const span = spans.get(node.id);
+    const timing = span ? ` start="${span.start}" end="${span.end}"` : '';
+    return `      <node id="${escapeXml(node.id)}" label="${escapeXml(String(node.value ?? node.id))}"${timing}>${values(NODE_ATTRIBUTES, node)}</node>`;
+  });
+  const edges = graph.links.map((link, index) => {
+    const weight = isWritable(link.value) ? ` weight="${link.value}"` : '';
+    return `      <edge id="e${index}" source="${escapeXml(endId(link.source))}" target="${escapeXml(endId(link.target))}"${weight}>${values(EDGE_ATTRIBUTES, link)}</edge>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" version="1.3">',
+    '  <meta>',
+    '    <creator>Oceanic Data Platform</creator>',
+    '    <description>Oceanic knowledge graph</description>',
+    '  </meta>',
+    '  <graph mode="dynamic" defaultedgetype="directed" timeformat="date">',
+    '    <attributes class="node" mode="static">',
+    ...declare(NODE_ATTRIBUTES),
+    '    </attributes>',
+    '    <attributes class="edge" mode="static">',
+    ...declare(EDGE_ATTRIBUTES),
+    '    </attributes>',
+    '    <nodes>',
+    ...nodes,
+    '    </nodes>',
+    '    <edges>',
+    ...edges,
+    '    </edges>',
+    '  </graph>',
+    '</gexf>',
+    '',
+  ].join('\n');
+};
+
+// Doubles keep a decimal point so Neo4j stores 45 as a float, not an integer
+const cypherValue = (value: string | number, type: Attribute<unknown>['type'] = 'string'): string => {
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  return type === 'double' && Number.isInteger(value) ? value.toFixed(1) : String(value);
+};
+
+const cypherProperties = <T>(attributes: Attribute<T>[], item: T): string[] =>
+  attributes.flatMap(a => {
+    const value = a.value(item);
+    return isWritable(value) ? [`${a.id}: ${cypherValue(value, a.type)}`] : [];
+  });
+
+/**
+ * Idempotent Cypher: constraints, then MERGE nodes by id and relationships by
+ * link key so re-running updates in place. Parallel links of one type get
+ * numbered keys, and links to nodes outside the graph are skipped.
+ */
+export const toCypher = (graph: KnowledgeGraphData, spans: Map<string, TemporalSpan>): string => {
+  const nodeLabels = new Map(graph.nodes.map(node => [node.id, nodeLabel(node)]));
+  const constraints = [...new Set(nodeLabels.values())].map(
+    label => `CREATE CONSTRAINT ${label.toLowerCase()}_id IF NOT EXISTS FOR (n:${label}) REQUIRE n.id IS UNIQUE;`,
+  );
+  const nodes = graph.nodes.map(node => {
+    const position = location(node);
+    const properties = [
+      ...cypherProperties(NODE_ATTRIBUTES, node),
+      ...cypherProperties(SPAN_ATTRIBUTES, spans.get(node.id)),
+      ...(position
+        ? [`location: point({latitude: ${cypherValue(position.latitude, 'double')}, longitude: ${cypherValue(position.longitude, 'double')}})`]
+        : []),
+    ];
+    return `MERGE (n:${nodeLabel(node)} {id: ${cypherValue(node.id)}}) SET n += {${properties.join(', ')}};`;
+  });
+  const linked = graph.links.filter(link => nodeLabels.has(endId(link.source)) && nodeLabels.has(endId(link.target)));
+  const keyCounts = new Map<string, number>();
+  const relationships = linked.map(link => {
+    const source = endId(link.source);
+    const target = endId(link.target);
+    const count = (keyCounts.get(linkKey(link)) ?? 0) + 1;
+    keyCounts.set(linkKey(link), count);
+    const key = count === 1 ? linkKey(link) : `${linkKey(link)}#${count}`;
+    const properties = cypherProperties(EDGE_ATTRIBUTES.filter(a => a.id !== 'type'), link);
+    return `MATCH (a:${nodeLabels.get(source)} {id: ${cypherValue(source)}}), (b:${nodeLabels.get(target)} {id: ${cypherValue(target)}}) `
+      + `MERGE (a)-[r:${relationshipType(link)} {key: ${cypherValue(key)}}]->(b) SET r += {${properties.join(', ')}};`;
+  });
+  const skipped = graph.links.length - linked.length;
+
+  return [
+    '// Oceanic knowledge graph. Run with cypher-shell -f knowledge-graph.cypher',
+    ...(skipped > 0 ? [`// Skipped ${skipped} link${skipped === 1 ? '' : 's'} to nodes that aren't in the graph`] : []),
+    ...constraints,
+    '',
+    ...nodes,
+    '',
+    ...relationships,
+    '',
+  ].join('\n');
+};
+
+const CSV_TYPES: Record<Attribute<unknown>['type'], string> = { string: '', int: ':int', double: ':float' };
+
+const csvHeader = <T>(attributes: Attribute<T>[]): string[] => attributes.map(a => `${a.id}${CSV_TYPES[a.type]}`);
+
+/**
+ * Node and relationship files in the `neo4j-admin database import` header
+ * format, with the same properties as the other exports. Import with:
+ * neo4j-admin database import full --nodes=nodes.csv --relationships=relationships.csv
+ */
+export const toNeo4jCSV = (graph: KnowledgeGraphData, spans: Map<string, TemporalSpan>): { nodes: string; relationships: string } => {
+  const cell = (value: string | number | undefined) => (isWritable(value) ? csvEscape(value) : '');
+  const edgeAttributes = EDGE_ATTRIBUTES.filter(a => a.id !== 'type');
+  const nodes = [
+    ['id:ID', ...csvHeader(NODE_ATTRIBUTES), 'start:date', 'end:date', 'location:point{crs:WGS-84}', ':LABEL'].join(','),
+    ...graph.nodes.map(node => {
+      const span = spans.get(node.id);
+      const position = location(node);
+      return [
+        node.id,
+        ...NODE_ATTRIBUTES.map(a => a.value(node)),
+        span?.start,
+        span?.end,
+        position && `{latitude: ${position.latitude}, longitude: ${position.longitude}}`,
+        nodeLabel(node),
+      ].map(cell).join(',');
+    }),
+  ];
+  const relationships = [
+    [':START_ID', ':END_ID', ':TYPE', ...csvHeader(edgeAttributes)].join(','),
+    ...graph.links.map(link =>
+      [
+        endId(link.source),
+        endId(link.target),
+        relationshipType(link),
+        ...edgeAttributes.map(a => a.value(link)),
+      ].map(cell).join(','),
+    ),
+  ];
+  return { nodes: nodes.join('\n') + '\n', relationships: relationships.join('\n') + '\n' };
+};
+
+/** The file(s) of a property-graph export. */
+export const exportPropertyGraph = (
+  graph: KnowledgeGraphData,
+  dataset: OceanDataset,
+  format: PropertyGraphFormat,
+): ExportFile[] => {
+  const spans = temporalSpans(graph, dataset);
+  switch (format) {
+    case 'graphml':
+      return [{ fileName: 'knowledge-graph.graphml', content: toGraphML(graph, spans), mimeType: 'application/graphml+xml' }];
+    case 'gexf':
+      return [{ fileName: 'knowledge-graph.gexf', content: toGEXF(graph, spans), mimeType: 'application/gexf+xml' }];
+    case 'cypher':
+      return [{ fileName: 'knowledge-graph.cypher', content: toCypher(graph, spans), mimeType: 'text/plain' }];
+    case 'neo4j-csv': {
+      const { nodes, relationships } = toNeo4jCSV(graph, spans);
+      return [
+        { fileName: 'nodes.csv', content: nodes, mimeType: 'text/csv' },
+        { fileName: 'relationships.csv', content: relationships, mimeType: 'text/csv' },
+      ];
+    }
+  }
+};
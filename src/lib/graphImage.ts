@@ -0,0 +1,327 @@
+import * as d3 from 'd3';
+import { GraphHighlight, GraphLink, GraphNode, KnowledgeGraphData, linkKey, nodeId } from '@/lib/graph';
+import { labelledNodes } from '@/lib/graphView';
+
+export type ImageFormat = 'svg' | 'png' | 'pdf';
+
+export const PNG_RESOLUTIONS = [150, 300, 600];
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+  shape: 'circle' | 'line' | 'dashed';
+}
+
+export interface SceneOptions {
+  // Size of the view on screen, in CSS pixels
+  width: number;
+  height: number;
+  transform: d3.ZoomTransform;
+  radius: (node: GraphNode) => number;
+  color: (node: GraphNode) => string;
+  linkColor: (link: GraphLink) => string;
+  highlight: GraphHighlight | null;
+  selectedNodeId: string | null;
+  // Every node labelled, as the SVG view does, rather than by level of detail
+  allLabels: boolean;
+  legend: LegendEntry[];
+}
+
+type SceneItem =
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; width: number; opacity: number; dash: number[] }
+  | { kind: 'circle'; cx: number; cy: number; r: number; fill: string; stroke: string; strokeWidth: number; opacity: number }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; color: string; opacity: number; anchor: 'start' | 'middle'; bold: boolean };
+
+/** The view as plain shapes in pixels, ready to write out in any format. */
+export interface Scene {
+  width: number;
+  height: number;
+  items: SceneItem[];
+}
+
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const LABEL_COLOR = 'hsl(220, 90%, 15%)';
+const LEGEND_FONT = 11;
+const LEGEND_ROW = 20;
+const LEGEND_PADDING = 16;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Text width in pixels; estimated where there's no canvas to measure with
+const textWidth = (text: string, size: number, bold: boolean): number => {
+  if (!measureContext && typeof document !== 'undefined') measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * size * (bold ? 0.6 : 0.55);
+  measureContext.font = `${bold ? 'bold ' : ''}${size}px ${FONT_FAMILY}`;
+  return measureContext.measureText(text).width;
+};
+
+// Legend entries flowed into rows below the graph
+const legendItems = (legend: LegendEntry[], width: number, top: number): { items: SceneItem[]; height: number } => {
+  const items: SceneItem[] = [];
+  let x = LEGEND_PADDING;
+  let y = top + LEGEND_PADDING + LEGEND_ROW / 2;
+  legend.forEach(({ label, color, shape }) => {
+    const entryWidth = 22 + textWidth(label, LEGEND_FONT, false) + 18;
+    if (x > LEGEND_PADDING && x + entryWidth > width - LEGEND_PADDING) {
+      x = LEGEND_PADDING;
+      y += LEGEND_ROW;
+    }
+    if (shape === 'circle') {
+      items.push({ kind: 'circle', cx: x + 6, cy: y, r: 6, fill: color, stroke: color, strokeWidth: 0, opacity: 1 });
+    } else {
+      items.push({ kind: 'line', x1: x, y1: y, x2: x + 16, y2: y, stroke: color, width: 2, opacity: 1, dash: shape === 'dashed' ? [4, 3] : [] });
+    }
+    items.push({ kind: 'text', x: x + 22, y, text: label, size: LEGEND_FONT, color: '#444', opacity: 1, anchor: 'start', bold: false });
+    x += entryWidth;
+  });
+  return { items, height: legend.length > 0 ? y - top + LEGEND_ROW / 2 + LEGEND_PADDING : 0 };
+};
+
+/** What is on screen, zoom and pan included, with the legend underneath. */
+export const buildScene = (graph: KnowledgeGraphData, options: SceneOptions): Scene => {
+  const { width, height, transform, radius, color, linkColor, highlight, selectedNodeId } = options;
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+  const k = transform.k;
+  const [x0, y0] = transform.invert([0, 0]);
+  const [x1, y1] = transform.invert([width, height]);
+  const visible = (node: GraphNode, margin = 0) =>
+    (node.x ?? 0) >= x0 - margin && (node.x ?? 0) <= x1 + margin && (node.y ?? 0) >= y0 - margin && (node.y ?? 0) <= y1 + margin;
+  const dim = (matched: boolean) => (!highlight || matched ? 1 : 0.15);
+  const items: SceneItem[] = [];
+
+  graph.links.forEach(link => {
+    const source = nodes.get(nodeId(link.source));
+    const target = nodes.get(nodeId(link.target));
+    if (!source || !target || (!visible(source) && !visible(target))) return;
+    const [sx, sy] = transform.apply([source.x ?? 0, source.y ?? 0]);
+    const [tx, ty] = transform.apply([target.x ?? 0, target.y ?? 0]);
+    items.push({
+      kind: 'line', x1: sx, y1: sy, x2: tx, y2: ty,
+      stroke: linkColor(link),
+      width: Math.sqrt(link.value) * 2 * k,
+      opacity: !highlight ? 0.6 : highlight.linkKeys.has(linkKey(link)) ? 0.9 : 0.05,
+      dash: link.stats?.direction === 'negative' ? [6 * k, 4 * k] : [],
+    });
+  });
+
+  graph.nodes.forEach(node => {
+    const r = radius(node);
+    if (!visible(node, r)) return;
+    const [cx, cy] = transform.apply([node.x ?? 0, node.y ?? 0]);
+    const selected = node.id === selectedNodeId;
+    items.push({
+      kind: 'circle', cx, cy, r: r * k,
+      fill: color(node),
+      stroke: selected ? LABEL_COLOR : '#fff',
+      strokeWidth: (selected ? 4 : 2) * k,
+      opacity: dim(!!highlight?.nodeIds.has(node.id)),
+    });
+  });
+
+  const labelled = options.allLabels
+    ? graph.nodes.filter(node => visible(node))
+    : labelledNodes(graph.nodes, radius, k, node => visible(node), selectedNodeId, highlight);
+  labelled.forEach(node => {
+    const [x, y] = transform.apply([node.x ?? 0, node.y ?? 0]);
+    items.push({
+      kind: 'text', x, y, text: String(node.value), size: 10 * k, color: LABEL_COLOR,
+      opacity: dim(!!highlight?.nodeIds.has(node.id)), anchor: 'middle', bold: true,
+    });
+  });
+
+  const legend = legendItems(options.legend, width, height);
+  return { width, height: height + legend.height, items: [...items, ...legend.items] };
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (value: number) => Number(value.toFixed(2));
+
+export const sceneToSvg = ({ width, height, items }: Scene): string => {
+  const body = items.map(item => {
+    switch (item.kind) {
+      case 'line':
+        return `<line x1="${round(item.x1)}" y1="${round(item.y1)}" x2="${round(item.x2)}" y2="${round(item.y2)}" stroke="${item.stroke}" stroke-width="${round(item.width)}" stroke-opacity="${item.opacity}"${item.dash.length ? ` stroke-dasharray="${item.dash.map(round).join(' ')}"` : ''}/>`;
+      case 'circle':
+        return `<circle cx="${round(item.cx)}" cy="${round(item.cy)}" r="${round(item.r)}" fill="${item.fill}" stroke="${item.stroke}" stroke-width="${round(item.strokeWidth)}" opacity="${item.opacity}"/>`;
+      case 'text':
+        return `<text x="${round(item.x)}" y="${round(item.y)}" font-size="${round(item.size)}"${item.bold ? ' font-weight="bold"' : ''} fill="${item.color}" opacity="${item.opacity}" text-anchor="${item.anchor}" dominant-baseline="central">${escapeXml(item.text)}</text>`;
+    }
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="${width}" height="${height}" fill="#fff"/>`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+};
+
+// Characters outside Latin-1 that WinAnsiEncoding has a byte for
+const WIN_ANSI: Record<string, number> = { '€': 0x80, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94 };
+
+const pdfText = (text: string): string =>
+  [...text].map(char => {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+    if (code >= 0x20 && code < 0x7f) return char;
+    if (code >= 0xa0 && code <= 0xff) return String.fromCharCode(code);
+    return WIN_ANSI[char] ? String.fromCharCode(WIN_ANSI[char]) : '?';
+  }).join('');
+
+const pdfColor = (color: string): string => {
+  const { r, g, b } = d3.rgb(color);
+  return [r, g, b].map(channel => (channel / 255).toFixed(3)).join(' ');
+};
+
+// Bézier handle length for a quarter circle
+const KAPPA = 0.5523;
+
+const circlePath = (cx: number, cy: number, r: number): string => {
+  const c = r * KAPPA;
+  const f = (value: number) => value.toFixed(2);
+  return [
+    `${f(cx + r)} ${f(cy)} m`,
+    `${f(cx + r)} ${f(cy + c)} ${f(cx + c)} ${f(cy + r)} ${f(cx)} ${f(cy + r)} c`,
+    `${f(cx - c)} ${f(cy + r)} ${f(cx - r)} ${f(cy + c)} ${f(cx - r)} ${f(cy)} c`,
+    `${f(cx - r)} ${f(cy - c)} ${f(cx - c)} ${f(cy - r)} ${f(cx)} ${f(cy - r)} c`,
+    `${f(cx + c)} ${f(cy - r)} ${f(cx + r)} ${f(cy - c)} ${f(cx + r)} ${f(cy)} c`,
+  ].join('\n');
+};
+
+/**
+ * A single-page vector PDF. Pixels become points at 96 dpi, and labels use
+ * the standard Helvetica fonts, so nothing needs embedding.
+ */
+export const sceneToPdf = ({ width, height, items }: Scene): Uint8Array<ArrayBuffer> => {
+  const alphas = [...new Set(items.map(item => item.opacity))];
+  const state = (opacity: number) => `/GS${alphas.indexOf(opacity)} gs`;
+  const pageWidth = width * 0.75;
+  const pageHeight = height * 0.75;
+
+  // Flipped so y runs down as on screen; text is flipped back upright
+  const content = [`0.75 0 0 -0.75 0 ${pageHeight.toFixed(2)} cm`, `1 1 1 rg 0 0 ${width} ${height} re f`];
+  items.forEach(item => {
+    switch (item.kind) {
+      case 'line':
+        content.push(
+          `q ${state(item.opacity)} ${pdfColor(item.stroke)} RG ${item.width.toFixed(2)} w [${item.dash.map(d => d.toFixed(2)).join(' ')}] 0 d`,
+          `${item.x1.toFixed(2)} ${item.y1.toFixed(2)} m ${item.x2.toFixed(2)} ${item.y2.toFixed(2)} l S Q`,
+        );
+        break;
+      case 'circle':
+        content.push(
+          `q ${state(item.opacity)} ${pdfColor(item.fill)} rg ${pdfColor(item.stroke)} RG ${item.strokeWidth.toFixed(2)} w`,
+          circlePath(item.cx, item.cy, item.r),
+          `${item.strokeWidth > 0 ? 'B' : 'f'} Q`,
+        );
+        break;
+      case 'text': {
+        const x = item.anchor === 'middle' ? item.x - textWidth(item.text, item.size, item.bold) / 2 : item.x;
+        // Baseline a third of the size below the middle, like dominant-baseline: central
+        const y = item.y + item.size * 0.35;
+        content.push(
+          `q ${state(item.opacity)} ${pdfColor(item.color)} rg BT /${item.bold ? 'F2' : 'F1'} ${item.size.toFixed(2)} Tf`,
+          `1 0 0 -1 ${x.toFixed(2)} ${y.toFixed(2)} Tm (${pdfText(item.text)}) Tj ET Q`,
+        );
+        break;
+      }
+    }
+  });
+  const stream = content.join('\n');
+
+  const states = alphas.map((alpha, i) => `/GS${i} << /ca ${alpha} /CA ${alpha} >>`).join(' ');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}] /Contents 4 0 R ` +
+      `/Resources << /Font << /F1 5 0 R /F2 6 0 R >> /ExtGState << ${states} >> >> >>`,
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+  ];
+
+  // Every character is a single byte, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(pdf, char => char.charCodeAt(0));
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  bytes.forEach(byte => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/** Records the resolution in a pHYs chunk after the header, so layout software sizes the image right. */
+export const withResolution = (png: Uint8Array, dpi: number): Uint8Array<ArrayBuffer> => {
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  view.setUint32(8, pixelsPerMetre);
+  view.setUint32(12, pixelsPerMetre);
+  chunk[16] = 1; // unit: metre
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // Signature (8 bytes), then the IHDR chunk: length, type, 13 bytes of data and a CRC
+  const headerEnd = 8 + 4 + 4 + 13 + 4;
+  const result = new Uint8Array(png.length + chunk.length);
+  result.set(png.subarray(0, headerEnd));
+  result.set(chunk, headerEnd);
+  result.set(png.subarray(headerEnd), headerEnd + chunk.length);
+  return result;
+};
+
+/** Rasterises the scene's SVG at `dpi`, taking the screen as 96 dpi. */
+export const sceneToPng = (scene: Scene, dpi: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const scale = dpi / 96;
+    const url = URL.createObjectURL(new Blob([sceneToSvg(scene)], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(scene.width * scale);
+      canvas.height = Math.round(scene.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('The image is too large at this resolution'));
+          return;
+        }
+        blob.arrayBuffer()
+          .then(buffer => resolve(new Blob([withResolution(new Uint8Array(buffer), dpi)], { type: 'image/png' })))
+          .catch(reject);
+      }, 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the graph'));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,312 @@
+import { GraphLink, GraphNode, KnowledgeGraphData, LinkStatistic, NODE_GROUPS, NODE_TYPES, NodeType } from '@/lib/graph';
+import { PREFIXES } from '@/lib/rdf';
+
+export type GraphFileFormat = 'json' | 'jsonld' | 'graphml';
+
+export interface GraphImport {
+  graph: KnowledgeGraphData;
+  format: GraphFileFormat;
+  // Nodes of no known type, and links with an end that isn't in the file
+  skippedNodes: number;
+  skippedLinks: number;
+}
+
+export const GRAPH_FILE_LABELS: Record<GraphFileFormat, string> = {
+  json: 'Graph JSON',
+  jsonld: 'JSON-LD',
+  graphml: 'GraphML',
+};
+
+export const GRAPH_FILE_ACCEPT = '.json,.jsonld,.graphml,.xml';
+
+// Id prefixes the generator uses, for files that lost the node type.
+const ID_PREFIXES: [string, NodeType][] = [
+  ['region-', 'region'],
+  ['param-', 'parameter'],
+  ['bio-', 'biology'],
+  ['time-', 'time'],
+  ['station-', 'station'],
+  ['cast-', 'cast'],
+  ['obs-', 'observation'],
+];
+
+const isNodeType = (value: unknown): value is NodeType => NODE_TYPES.includes(value as NodeType);
+
+interface RawNode {
+  id: string;
+  type?: unknown;
+  value?: unknown;
+  group?: unknown;
+  latitude?: unknown;
+  longitude?: unknown;
+  time?: unknown;
+  count?: unknown;
+  record?: unknown;
+  x?: unknown;
+  y?: unknown;
+}
+
+const finiteNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && isFinite(number) ? number : undefined;
+};
+
+const toNode = ({ id, type, value, group, latitude, longitude, time, count, record, x, y }: RawNode): GraphNode | null => {
+  const prefix = ID_PREFIXES.find(([start]) => id.startsWith(start));
+  const nodeType = isNodeType(type) ? type : prefix?.[1];
+  if (!nodeType) return null;
+  const label = typeof value === 'string' || typeof value === 'number' ? value : prefix ? id.slice(prefix[0].length) : id;
+  return {
+    id,
+    type: nodeType,
+    value: label,
+    group: finiteNumber(group) ?? NODE_GROUPS[nodeType],
+    latitude: finiteNumber(latitude),
+    longitude: finiteNumber(longitude),
+    time: typeof time === 'string' && time ? time : undefined,
+    count: finiteNumber(count),
+    record: finiteNumber(record),
+    x: finiteNumber(x),
+    y: finiteNumber(y),
+  };
+};
+
+const toStatistic = (fields: Record<string, unknown>): LinkStatistic | undefined => {
+  const method = fields.method;
+  const statistic = finiteNumber(fields.statistic);
+  const p = finiteNumber(fields.p);
+  const n = finiteNumber(fields.n);
+  if (
+    (method !== 'pearson' && method !== 'spearman' && method !== 'mutual_information') ||
+    statistic === undefined ||
+    p === undefined ||
+    n === undefined
+  ) {
+    return undefined;
+  }
+  return { method, statistic, p, n, direction: fields.direction === 'negative' ? 'negative' : 'positive' };
+};
+
+// Keeps the nodes of a known type and the links whose ends both survived.
+const assemble = (
+  rawNodes: RawNode[],
+  rawLinks: GraphLink[],
+  format: GraphFileFormat,
+  relationships?: KnowledgeGraphData['relationships'],
+): GraphImport => {
+  const nodes = new Map<string, GraphNode>();
+  rawNodes.forEach(raw => {
+    const node = toNode(raw);
+    if (node) nodes.set(node.id, node);
+  });
+  const links = rawLinks.filter(link => nodes.has(String(link.source)) && nodes.has(String(link.target)));
+  return {
+    graph: { nodes: [...nodes.values()], links, relationships },
+    format,
+    skippedNodes: rawNodes.length - nodes.size,
+    skippedLinks: rawLinks.length - links.length,
+  };
+};
+
+const endId = (end: unknown): string =>
+  typeof end === 'object' && end !== null ? String((end as { id?: unknown }).id) : String(end);
+
+// The app's own download. Older ones have link ends as full node objects.
+const parseGraphJson = (document: Record<string, unknown>): GraphImport => {
+  if (!Array.isArray(document.nodes) || !Array.isArray(document.links)) {
+    throw new Error('Graph JSON needs "nodes" and "links" arrays');
+  }
+  const nodes = (document.nodes as Record<string, unknown>[])
+    .filter(node => typeof node?.id === 'string')
+    .map(node => node as unknown as RawNode);
+  const links = (document.links as Record<string, unknown>[]).map(link => ({
+    source: endId(link.source),
+    target: endId(link.target),
+    value: finiteNumber(link.value) ?? 1,
+    type: typeof link.type === 'string' ? link.type : 'related',
+    stats: typeof link.stats === 'object' && link.stats !== null
+      ? toStatistic(link.stats as Record<string, unknown>)
+      : undefined,
+  }));
+  const relationships = document.relationships as KnowledgeGraphData['relationships'];
+  return assemble(nodes, links, 'json', relationships && isFinite(relationships.alpha) ? relationships : undefined);
+};
+
+interface JsonLdResource {
+  types: string[];
+  // Expanded property IRI to its values: node references as ids, literals as strings
+  properties: Map<string, { id?: string; value?: string }[]>;
+}
+
+const term = (name: string) => {
+  const [prefix, local] = name.split(':');
+  return PREFIXES[prefix] + local;
+};
+
+/**
+ * A JSON-LD export from this app, or any flattened JSON-LD using its terms.
+ * Resources with an `ocn:nodeId` become nodes; features of interest and time
+ * intervals without one are recognised by their type.
+ */
+const parseJsonLd = (document: Record<string, unknown>): GraphImport => {
+  const context = typeof document['@context'] === 'object' && document['@context'] !== null
+    ? (document['@context'] as Record<string, unknown>)
+    : {};
+  const expandName = (name: string): string => {
+    const separator = name.indexOf(':');
+    const namespace = separator > 0 ? context[name.slice(0, separator)] : undefined;
+    return typeof namespace === 'string' ? namespace + name.slice(separator + 1) : name;
+  };
+  const toArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+  const objects = toArray(document['@graph'] ?? document) as Record<string, unknown>[];
+  const resources = new Map<string, JsonLdResource>();
+  objects.forEach(object => {
+    if (typeof object?.['@id'] !== 'string') return;
+    const properties = new Map<string, { id?: string; value?: string }[]>();
+    Object.entries(object).forEach(([key, value]) => {
+      if (key.startsWith('@')) return;
+      properties.set(expandName(key), toArray(value).map(item => {
+        if (typeof item !== 'object' || item === null) return { value: String(item) };
+        const entry = item as Record<string, unknown>;
+        return typeof entry['@id'] === 'string' ? { id: expandName(entry['@id']) } : { value: String(entry['@value']) };
+      }));
+    });
+    resources.set(expandName(object['@id']), {
+      types: toArray(object['@type']).map(type => expandName(String(type))),
+      properties,
+    });
+  });
+  if (resources.size === 0) throw new Error('JSON-LD document has no resources');
+
+  const first = (resource: JsonLdResource, property: string): string | undefined =>
+    resource.properties.get(term(property))?.[0]?.value;
+
+  const nodeIds = new Map<string, string>();
+  const nodes: RawNode[] = [];
+  resources.forEach((resource, iri) => {
+    const label = first(resource, 'rdfs:label');
+    let id = first(resource, 'ocn:nodeId');
+    if (!id && label && resource.types.includes(term('sosa:FeatureOfInterest'))) id = `region-${label}`;
+    if (!id && label && resource.types.includes(term('time:ProperInterval'))) id = `time-${label}`;
+    if (!id) return;
+    nodeIds.set(iri, id);
+    // Property nodes are labelled with the column label; the id keeps the column name
+    const type = first(resource, 'ocn:nodeType');
+    const property = type === 'parameter' || type === 'biology';
+    const prefix = ID_PREFIXES.find(([start, prefixType]) => prefixType === type && id?.startsWith(start));
+    const geometry = resources.get(resource.properties.get(term('geo:hasGeometry'))?.[0]?.id ?? '');
+    const point = geometry && first(geometry, 'geo:asWKT')?.match(/POINT\s*\(\s*(\S+)\s+(\S+)\s*\)/i);
+    nodes.push({
+      id,
+      type,
+      value: property && prefix ? id.slice(prefix[0].length) : label,
+      longitude: point?.[1],
+      latitude: point?.[2],
+      time: first(resource, 'ocn:sampledAt'),
+      count: first(resource, 'ocn:recordCount'),
+      // Samples are named after the index of their record
+      record: type === 'observation' ? iri.match(/sample-(\d+)$/)?.[1] : undefined,
+    });
+  });
+
+  const links: GraphLink[] = [];
+  const nodeTypes = new Map(nodes.map(node => [node.id, node.type]));
+  const linkTo = (source: string | undefined, target: string | undefined, type: string) => {
+    if (source && target) links.push({ source, target, value: 1, type });
+  };
+  resources.forEach((resource, iri) => {
+    const source = nodeIds.get(iri);
+    if (resource.types.includes(term('ocn:StatisticalAssociation'))) {
+      const [from, to] = resource.properties.get(term('ocn:between')) ?? [];
+      const stats = toStatistic({
+        method: first(resource, 'ocn:method'),
+        statistic: first(resource, 'ocn:statistic'),
+        p: first(resource, 'ocn:pValue'),
+        n: first(resource, 'ocn:sampleSize'),
+        direction: first(resource, 'ocn:direction'),
+      });
+      links.push({
+        source: nodeIds.get(from?.id ?? '') ?? '',
+        target: nodeIds.get(to?.id ?? '') ?? '',
+        value: finiteNumber(first(resource, 'ocn:weight')) ?? Math.abs(stats?.statistic ?? 0.1) * 10,
+        type: 'correlation',
+        stats,
+      });
+      return;
+    }
+    resource.properties.get(term('ssn:hasProperty'))?.forEach(({ id }) => {
+      const target = nodeIds.get(id ?? '');
+      linkTo(source, target, String(nodeTypes.get(target ?? '') ?? 'parameter'));
+    });
+    // Exported as region → month; the graph stores month → region
+    resource.properties.get(term('ocn:sampledDuring'))?.forEach(({ id }) => linkTo(nodeIds.get(id ?? ''), source, 'temporal'));
+    resource.properties.get(term('ocn:hasPart'))?.forEach(({ id }) => {
+      const target = nodeIds.get(id ?? '');
+      linkTo(source, target, String(nodeTypes.get(target ?? '') ?? 'related'));
+    });
+    resource.properties.get(term('ocn:relatedTo'))?.forEach(({ id }) => linkTo(source, nodeIds.get(id ?? ''), 'related'));
+  });
+
+  return assemble(nodes, links, 'jsonld');
+};
+
+/** GraphML with node and edge attributes declared by `<key attr.name>`, as written by this app, Gephi or yEd. */
+const parseGraphML = (content: string): GraphImport => {
+  const document = new DOMParser().parseFromString(content, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) throw new Error('GraphML file is not well-formed XML');
+  const graph = document.getElementsByTagName('graph')[0];
+  if (!graph) throw new Error('GraphML file has no <graph> element');
+
+  const keyNames = new Map<string, string>();
+  Array.from(document.getElementsByTagName('key')).forEach(key => {
+    keyNames.set(key.getAttribute('id') ?? '', key.getAttribute('attr.name') ?? key.getAttribute('id') ?? '');
+  });
+  const dataOf = (element: Element): Record<string, string> => {
+    const fields: Record<string, string> = {};
+    Array.from(element.children)
+      .filter(child => child.localName === 'data')
+      .forEach(child => {
+        const key = child.getAttribute('key') ?? '';
+        fields[keyNames.get(key) ?? key] = child.textContent ?? '';
+      });
+    return fields;
+  };
+
+  const nodes = Array.from(graph.getElementsByTagName('node')).map(element => {
+    const fields = dataOf(element);
+    return { ...fields, id: element.getAttribute('id') ?? '', value: fields.label };
+  });
+  const links = Array.from(graph.getElementsByTagName('edge')).map(element => {
+    const fields = dataOf(element);
+    return {
+      source: element.getAttribute('source') ?? '',
+      target: element.getAttribute('target') ?? '',
+      value: finiteNumber(fields.weight) ?? 1,
+      type: fields.type || 'related',
+      stats: toStatistic({ ...fields, p: fields.p_value }),
+    };
+  });
+  return assemble(nodes, links, 'graphml');
+};
+
+/** Reads an exported knowledge graph, telling the format from the file name and content. */
+export const parseGraphFile = (content: string, fileName: string): GraphImport => {
+  const text = content.trim();
+  if (text.startsWith('<') || /\.(graphml|xml)$/i.test(fileName)) return parseGraphML(text);
+
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is neither JSON nor GraphML`);
+  }
+  if (typeof document !== 'object' || document === null) throw new Error(`${fileName} is not a graph`);
+  const object = document as Record<string, unknown>;
+  return '@graph' in object || '@context' in object || /\.jsonld$/i.test(fileName) || Array.isArray(document)
+    ? parseJsonLd(Array.isArray(document) ? { '@graph': document } : object)
+    : parseGraphJson(object);
+};
+
+export const readGraphFile = (file: File): Promise<GraphImport> =>
+  file.text().then(content => parseGraphFile(content, file.name));
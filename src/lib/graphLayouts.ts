@@ -0,0 +1,286 @@
+import * as d3 from 'd3';
+import { OceanRecord, numericValue } from '@/lib/dataset';
+import { HIERARCHY_LINK_TYPES } from '@/lib/drillDown';
+import { GraphNode, KnowledgeGraphData, NODE_TYPES, nodeId } from '@/lib/graph';
+
+export const GRAPH_LAYOUTS = ['force', 'geographic', 'radial', 'timeline', 'hierarchical'] as const;
+
+export type GraphLayout = typeof GRAPH_LAYOUTS[number];
+
+export const LAYOUT_LABELS: Record<GraphLayout, string> = {
+  force: 'Force-directed',
+  geographic: 'Geographic',
+  radial: 'Radial by type',
+  timeline: 'Timeline',
+  hierarchical: 'Hierarchical',
+};
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Nodes a user has dragged into place, kept separately for each layout
+export type LayoutPins = Record<GraphLayout, Map<string, Point>>;
+
+export const emptyPins = (): LayoutPins =>
+  Object.fromEntries(GRAPH_LAYOUTS.map(layout => [layout, new Map<string, Point>()])) as LayoutPins;
+
+// Length of the animation between layouts, in milliseconds
+export const LAYOUT_TRANSITION = 750;
+
+const MARGIN = 40;
+// Height kept at the bottom for nodes a layout has no place for
+const SPARE_ROWS = 90;
+
+const byValue = (a: GraphNode, b: GraphNode) => String(a.value).localeCompare(String(b.value), undefined, { numeric: true });
+
+// Rows of evenly spaced nodes, one row per type, between `top` and `bottom`.
+const rowPositions = (nodes: GraphNode[], width: number, top: number, bottom: number): Map<string, Point> => {
+  const positions = new Map<string, Point>();
+  const rows = NODE_TYPES.map(type => nodes.filter(node => node.type === type).sort(byValue)).filter(row => row.length > 0);
+  rows.forEach((row, i) => {
+    const y = rows.length === 1 ? (top + bottom) / 2 : top + ((bottom - top) * i) / (rows.length - 1);
+    row.forEach((node, j) => positions.set(node.id, { x: MARGIN + ((width - 2 * MARGIN) * (j + 0.5)) / row.length, y }));
+  });
+  return positions;
+};
+
+// Nodes that would land on one spot are spread on a small sunflower spiral around it.
+const spreadOverlaps = (positions: Map<string, Point>): Map<string, Point> => {
+  const taken = new Map<string, number>();
+  positions.forEach((point, id) => {
+    const key = `${Math.round(point.x / 4)},${Math.round(point.y / 4)}`;
+    const k = taken.get(key) ?? 0;
+    taken.set(key, k + 1);
+    if (k === 0) return;
+    const angle = k * 2.39996;
+    positions.set(id, { x: point.x + 6 * Math.sqrt(k) * Math.cos(angle), y: point.y + 6 * Math.sqrt(k) * Math.sin(angle) });
+  });
+  return positions;
+};
+
+// Each drill-down node's parent, following the first hierarchy link into it.
+const parents = (graph: KnowledgeGraphData): Map<string, string> => {
+  const parent = new Map<string, string>();
+  graph.links.forEach(link => {
+    if (!HIERARCHY_LINK_TYPES.includes(link.type)) return;
+    const target = nodeId(link.target);
+    if (!parent.has(target)) parent.set(target, nodeId(link.source));
+  });
+  return parent;
+};
+
+const regionCentres = (records: OceanRecord[]): Map<string, [number, number]> => {
+  const sums = new Map<string, { latitude: number; longitude: number; count: number }>();
+  records.forEach(record => {
+    const latitude = numericValue(record, 'latitude');
+    const longitude = numericValue(record, 'longitude');
+    if (isNaN(latitude) || isNaN(longitude)) return;
+    const sum = sums.get(record.region) ?? { latitude: 0, longitude: 0, count: 0 };
+    sum.latitude += latitude;
+    sum.longitude += longitude;
+    sum.count++;
+    sums.set(record.region, sum);
+  });
+  return new Map([...sums].map(([region, { latitude, longitude, count }]) => [region, [longitude / count, latitude / count]]));
+};
+
+/** Regions at the mean position of their records and drill-down nodes at their own, on an equirectangular map. */
+const geographic = (graph: KnowledgeGraphData, records: OceanRecord[], width: number, height: number): Map<string, Point> => {
+  const centres = regionCentres(records);
+  const coordinates = new Map<string, [number, number]>();
+  graph.nodes.forEach(node => {
+    if (node.type === 'region' && centres.has(String(node.value))) {
+      coordinates.set(node.id, centres.get(String(node.value)) as [number, number]);
+    } else if (node.latitude !== undefined && node.longitude !== undefined) {
+      coordinates.set(node.id, [node.longitude, node.latitude]);
+    }
+  });
+
+  const unplaced = graph.nodes.filter(node => !coordinates.has(node.id));
+  const mapBottom = unplaced.length > 0 ? height - SPARE_ROWS : height - MARGIN;
+  const positions = rowPositions(unplaced, width, mapBottom + 20, height - 20);
+  if (coordinates.size === 0) return positions;
+
+  const points = [...coordinates.values()];
+  // A single spot has no extent to fit; give it a couple of degrees around it
+  const [longitude, latitude] = points[0];
+  const extent = points.length > 1 ? points : [...points, [longitude - 1, latitude - 1], [longitude + 1, latitude + 1]];
+  const projection = d3.geoEquirectangular().fitExtent(
+    [[MARGIN, MARGIN], [width - MARGIN, mapBottom]],
+    { type: 'MultiPoint', coordinates: extent },
+  );
+  coordinates.forEach((point, id) => {
+    const [x, y] = projection(point) ?? [width / 2, height / 2];
+    positions.set(id, { x, y });
+  });
+  return spreadOverlaps(positions);
+};
+
+/** A ring per node type, regions innermost, each ring in order of value. */
+const radial = (graph: KnowledgeGraphData, width: number, height: number): Map<string, Point> => {
+  const positions = new Map<string, Point>();
+  const rings = NODE_TYPES.map(type => graph.nodes.filter(node => node.type === type).sort(byValue)).filter(ring => ring.length > 0);
+  const outer = Math.min(width, height) / 2 - MARGIN;
+  rings.forEach((ring, i) => {
+    const radius = rings.length === 1 ? outer / 2 : (outer * (i + 1)) / rings.length;
+    ring.forEach((node, j) => {
+      // Rings are turned against each other so their first nodes don't line up
+      const angle = (2 * Math.PI * j) / ring.length + i * 0.4 - Math.PI / 2;
+      positions.set(node.id, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) });
+    });
+  });
+  return positions;
+};
+
+const nodeDate = (node: GraphNode): Date | null => {
+  const text = node.type === 'time' ? `${node.value}-01T00:00:00Z` : node.time;
+  if (!text) return null;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Months along the top, one swimlane per region. Casts and readings sit in
+ * their region's lane at their time; stations at the start of the lane.
+ */
+const timeline = (graph: KnowledgeGraphData, width: number, height: number): Map<string, Point> => {
+  const parent = parents(graph);
+  const regionOf = (id: string): string | undefined => {
+    const seen = new Set<string>();
+    for (let current: string | undefined = id; current && !seen.has(current); current = parent.get(current)) {
+      if (current.startsWith('region-')) return current;
+      seen.add(current);
+    }
+    return undefined;
+  };
+
+  const regions = graph.nodes.filter(node => node.type === 'region').sort(byValue);
+  const dated = graph.nodes.filter(node => nodeDate(node) !== null);
+  const laned = graph.nodes.filter(node => node.type !== 'time' && node.type !== 'region' && regionOf(node.id));
+  const rest = graph.nodes.filter(node => node.type !== 'region' && node.type !== 'time' && !regionOf(node.id));
+
+  const laneBottom = rest.length > 0 ? height - SPARE_ROWS : height - MARGIN;
+  const positions = rowPositions(rest, width, laneBottom + 20, height - 20);
+  const labelColumn = MARGIN + 60;
+  const lanes = d3.scaleBand(regions.map(node => node.id), [MARGIN + 40, laneBottom]).padding(0.1);
+  const dates = dated.map(node => nodeDate(node) as Date);
+  const [first, last] = dates.length > 0 ? (d3.extent(dates) as [Date, Date]) : [new Date(0), new Date(0)];
+  const x = d3.scaleTime([first, last.getTime() === first.getTime() ? new Date(first.getTime() + 1) : last], [labelColumn + 60, width - MARGIN]);
+
+  regions.forEach(node => positions.set(node.id, { x: labelColumn, y: (lanes(node.id) ?? 0) + lanes.bandwidth() / 2 }));
+  graph.nodes.filter(node => node.type === 'time').forEach(node => {
+    const date = nodeDate(node);
+    positions.set(node.id, { x: date ? x(date) : labelColumn, y: MARGIN });
+  });
+  laned.forEach(node => {
+    const lane = regionOf(node.id) as string;
+    const date = nodeDate(node);
+    positions.set(node.id, {
+      x: date ? x(date) : labelColumn + 30,
+      y: (lanes(lane) ?? 0) + lanes.bandwidth() / 2,
+    });
+  });
+  return spreadOverlaps(positions);
+};
+
+interface TreeDatum {
+  id: string;
+  children: TreeDatum[];
+}
+
+/** Ocean, regions, stations, casts and readings as a tree, top down. */
+const hierarchical = (graph: KnowledgeGraphData, width: number, height: number): Map<string, Point> => {
+  const children = new Map<string, string[]>();
+  graph.links.forEach(link => {
+    if (!HIERARCHY_LINK_TYPES.includes(link.type)) return;
+    const source = nodeId(link.source);
+    children.set(source, [...(children.get(source) ?? []), nodeId(link.target)]);
+  });
+
+  // A station shared by two regions hangs under the first only
+  const placed = new Set<string>();
+  const subtree = (id: string): TreeDatum => {
+    placed.add(id);
+    const kids = (children.get(id) ?? []).filter(child => !placed.has(child));
+    kids.forEach(child => placed.add(child));
+    return { id, children: kids.map(subtree) };
+  };
+  const regions = graph.nodes.filter(node => node.type === 'region').sort(byValue);
+  const root = d3.hierarchy<TreeDatum>({ id: '', children: regions.map(node => subtree(node.id)) });
+
+  const rest = graph.nodes.filter(node => !placed.has(node.id));
+  const treeBottom = rest.length > 0 ? height - SPARE_ROWS : height - MARGIN;
+  const positions = rowPositions(rest, width, treeBottom + 20, height - 20);
+  if (regions.length === 0) return positions;
+
+  // The ocean itself is the root; it isn't a node, so its level is left out
+  const levels = Math.max(1, root.height);
+  d3.tree<TreeDatum>().size([width - 2 * MARGIN, 1])(root).descendants().forEach(node => {
+    if (node.depth === 0) return;
+    positions.set(node.data.id, {
+      x: MARGIN + (node.x ?? 0),
+      y: levels === 1 ? (MARGIN + treeBottom) / 2 : MARGIN + ((treeBottom - MARGIN) * (node.depth - 1)) / (levels - 1),
+    });
+  });
+  return positions;
+};
+
+/** Where each node goes in a fixed layout. The force layout has no fixed positions. */
+export const layoutPositions = (
+  graph: KnowledgeGraphData,
+  layout: GraphLayout,
+  records: OceanRecord[],
+  width: number,
+  height: number,
+): Map<string, Point> | null => {
+  switch (layout) {
+    case 'force':
+      return null;
+    case 'geographic':
+      return geographic(graph, records, width, height);
+    case 'radial':
+      return radial(graph, width, height);
+    case 'timeline':
+      return timeline(graph, width, height);
+    case 'hierarchical':
+      return hierarchical(graph, width, height);
+  }
+};
+
+/**
+ * Eases nodes from where they are to their targets, calling `onFrame` after
+ * each step. They end up fixed there, so a later drag doesn't set them drifting.
+ */
+export const animateTo = (nodes: GraphNode[], targets: Map<string, Point>, onFrame: () => void): d3.Timer => {
+  const starts = nodes.map(node => {
+    const target = targets.get(node.id);
+    return { x: node.x ?? target?.x ?? 0, y: node.y ?? target?.y ?? 0 };
+  });
+  const timer = d3.timer(elapsed => {
+    const t = d3.easeCubicInOut(Math.min(1, elapsed / LAYOUT_TRANSITION));
+    nodes.forEach((node, i) => {
+      const target = targets.get(node.id);
+      if (!target) return;
+      node.x = starts[i].x + (target.x - starts[i].x) * t;
+      node.y = starts[i].y + (target.y - starts[i].y) * t;
+      if (t === 1) {
+        node.fx = target.x;
+        node.fy = target.y;
+      }
+    });
+    onFrame();
+    if (t === 1) timer.stop();
+  });
+  return timer;
+};
+
+/** Pins a layout's dragged nodes in place and frees the rest, before the force layout resumes. */
+export const applyPins = (nodes: GraphNode[], pins: Map<string, Point>) => {
+  nodes.forEach(node => {
+    const pin = pins.get(node.id);
+    node.fx = pin?.x ?? null;
+    node.fy = pin?.y ?? null;
+  });
+};
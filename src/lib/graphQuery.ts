@@ -0,0 +1,613 @@
+import { GraphHighlight, GraphLink, GraphNode, KnowledgeGraphData, linkKey, nodeId } from '@/lib/graph';
+
+/*
+ * A small Cypher subset over the knowledge graph:
+ *
+ *   MATCH (r:region)-[:temporal]-(m:time {value: '2025-09'}),
+ *         (r)-[e:parameter]->(p {value: 'temperature'})
+ *   WHERE e.weight >= 5 AND NOT r.value CONTAINS 'Gulf'
+ *   RETURN DISTINCT r.value, e.weight
+ *   ORDER BY e.weight DESC
+ *   LIMIT 20
+ *
+ * finds the regions sampled in September 2025 whose mean temperature is in
+ * the upper half of the regional range: a region→variable weight puts the
+ * region's mean on a 0.1–10 scale from the coolest region to the warmest, so
+ * with means of 8, 14 and 20 °C only the last two pass.
+ *
+ * Labels are node types and relationship types are link types; `|` between
+ * them matches any. Nodes have id, type, value, group, latitude, longitude,
+ * time, count and record; links have type, weight, method, statistic, p, n
+ * and direction.
+ */
+
+export interface SavedQuery {
+  name: string;
+  query: string;
+}
+
+export type QueryValue = string | number | boolean | null;
+
+// The highlight covers everything bound in the returned rows
+export interface QueryResult extends GraphHighlight {
+  columns: string[];
+  rows: QueryCell[][];
+}
+
+export interface QueryCell {
+  value: QueryValue;
+  // Set when the cell is a whole node, so the table can select it
+  nodeId?: string;
+}
+
+export const EXAMPLE_QUERIES: SavedQuery[] = [
+  {
+    name: 'Regions sampled each month',
+    query: 'MATCH (m:time)-[:temporal]->(r:region)\nRETURN m.value, r.value\nORDER BY m.value',
+  },
+  {
+    name: 'Warmest regions',
+    query: "MATCH (r:region)-[e:parameter]->(p {value: 'temperature'})\nWHERE e.weight >= 5\nRETURN r.value, e.weight\nORDER BY e.weight DESC",
+  },
+  {
+    name: 'Strong associations',
+    query: 'MATCH (p:parameter)-[e:correlation]->(b:biology)\nWHERE e.weight > 5\nRETURN p.value, b.value, e.statistic, e.p\nORDER BY e.weight DESC',
+  },
+  {
+    name: 'Negative associations of temperature',
+    query: "MATCH (p {value: 'temperature'})-[e:correlation {direction: 'negative'}]-(b)\nRETURN b.value, e.statistic",
+  },
+];
+
+// Caps the search so a loose pattern on a big graph fails instead of hanging.
+const MAX_STEPS = 1_000_000;
+const MAX_ROWS = 1000;
+
+type TokenKind = 'keyword' | 'identifier' | 'string' | 'number' | 'symbol';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  position: number;
+}
+
+const KEYWORDS = new Set([
+  'MATCH', 'WHERE', 'RETURN', 'DISTINCT', 'ORDER', 'BY', 'ASC', 'DESC', 'LIMIT',
+  'AND', 'OR', 'NOT', 'CONTAINS', 'STARTS', 'ENDS', 'WITH', 'TRUE', 'FALSE', 'NULL',
+]);
+
+const TWO_CHARACTER_SYMBOLS = ['<=', '>=', '<>', '!='];
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (char === "'" || char === '"') {
+      let value = '';
+      let j = i + 1;
+      while (j < text.length && text[j] !== char) {
+        if (text[j] === '\\' && j + 1 < text.length) j++;
+        value += text[j++];
+      }
+      if (j >= text.length) throw new Error(`Unterminated string at position ${i + 1}`);
+      tokens.push({ kind: 'string', text: value, position: i });
+      i = j + 1;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(text[i + 1] ?? ''))) {
+      const match = /^[0-9]*\.?[0-9]+(?:[eE][-+]?[0-9]+)?/.exec(text.slice(i)) as RegExpExecArray;
+      tokens.push({ kind: 'number', text: match[0], position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i)) as RegExpExecArray;
+      const upper = match[0].toUpperCase();
+      tokens.push(KEYWORDS.has(upper)
+        ? { kind: 'keyword', text: upper, position: i }
+        : { kind: 'identifier', text: match[0], position: i });
+      i += match[0].length;
+    } else if (char === '`') {
+      // Backquoted names allow spaces and dashes, as in Cypher
+      const end = text.indexOf('`', i + 1);
+      if (end < 0) throw new Error(`Unterminated name at position ${i + 1}`);
+      tokens.push({ kind: 'identifier', text: text.slice(i + 1, end), position: i });
+      i = end + 1;
+    } else {
+      const pair = text.slice(i, i + 2);
+      if (TWO_CHARACTER_SYMBOLS.includes(pair)) {
+        tokens.push({ kind: 'symbol', text: pair, position: i });
+        i += 2;
+      } else if ('()[]{}:,.|-<>=*'.includes(char)) {
+        tokens.push({ kind: 'symbol', text: char, position: i });
+        i++;
+      } else {
+        throw new Error(`Unexpected '${char}' at position ${i + 1}`);
+      }
+    }
+  }
+  return tokens;
+};
+
+type Properties = Record<string, QueryValue>;
+
+interface NodePattern {
+  variable: string;
+  labels: string[];
+  properties: Properties;
+}
+
+interface RelationshipPattern {
+  variable: string;
+  types: string[];
+  properties: Properties;
+  direction: 'out' | 'in' | 'both';
+}
+
+interface Path {
+  start: NodePattern;
+  steps: { relationship: RelationshipPattern; node: NodePattern }[];
+}
+
+type Expression =
+  | { kind: 'literal'; value: QueryValue }
+  | { kind: 'variable'; name: string }
+  | { kind: 'property'; variable: string; property: string }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'logical'; operator: 'AND' | 'OR'; left: Expression; right: Expression }
+  | { kind: 'comparison'; operator: string; left: Expression; right: Expression };
+
+interface ReturnItem {
+  expression: Expression;
+  label: string;
+}
+
+interface Query {
+  paths: Path[];
+  where: Expression | null;
+  distinct: boolean;
+  // Null returns every named variable
+  items: ReturnItem[] | null;
+  order: { expression: Expression; descending: boolean }[];
+  limit: number;
+}
+
+const parse = (text: string): Query => {
+  const tokens = tokenize(text);
+  let index = 0;
+  let anonymous = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[index + offset];
+  const describeToken = (token?: Token) => (token ? `'${token.text}' at position ${token.position + 1}` : 'end of query');
+  const is = (text: string, offset = 0) => {
+    const token = peek(offset);
+    return !!token && (token.kind === 'symbol' || token.kind === 'keyword') && token.text === text;
+  };
+  const accept = (text: string): boolean => {
+    if (!is(text)) return false;
+    index++;
+    return true;
+  };
+  const expect = (text: string) => {
+    if (!accept(text)) throw new Error(`Expected '${text}' but found ${describeToken(peek())}`);
+  };
+  const identifier = (): string => {
+    const token = peek();
+    if (token?.kind !== 'identifier') throw new Error(`Expected a name but found ${describeToken(token)}`);
+    index++;
+    return token.text;
+  };
+
+  const literal = (): QueryValue => {
+    const token = peek();
+    const negative = is('-') && peek(1)?.kind === 'number';
+    if (negative) index++;
+    const value = peek();
+    if (value?.kind === 'string') {
+      index++;
+      return value.text;
+    }
+    if (value?.kind === 'number') {
+      index++;
+      return negative ? -Number(value.text) : Number(value.text);
+    }
+    if (accept('TRUE')) return true;
+    if (accept('FALSE')) return false;
+    if (accept('NULL')) return null;
+    throw new Error(`Expected a value but found ${describeToken(token)}`);
+  };
+
+  const properties = (): Properties => {
+    const result: Properties = {};
+    if (!accept('{')) return result;
+    if (!accept('}')) {
+      do {
+        const key = identifier();
+        expect(':');
+        result[key] = literal();
+      } while (accept(','));
+      expect('}');
+    }
+    return result;
+  };
+
+  // One or more names separated by `|`, after a colon
+  const names = (): string[] => {
+    if (!accept(':')) return [];
+    const result = [identifier()];
+    while (accept('|')) {
+      accept(':');
+      result.push(identifier());
+    }
+    return result;
+  };
+
+  const nodePattern = (): NodePattern => {
+    expect('(');
+    const variable = peek()?.kind === 'identifier' ? identifier() : `_node${anonymous++}`;
+    const labels = names();
+    const props = properties();
+    expect(')');
+    return { variable, labels, properties: props };
+  };
+
+  const relationshipPattern = (): RelationshipPattern => {
+    const incoming = accept('<');
+    expect('-');
+    let variable = `_link${anonymous++}`;
+    let types: string[] = [];
+    let props: Properties = {};
+    if (accept('[')) {
+      if (peek()?.kind === 'identifier') variable = identifier();
+      types = names();
+      props = properties();
+      expect(']');
+    }
+    expect('-');
+    const outgoing = accept('>');
+    if (incoming && outgoing) throw new Error('A relationship cannot point both ways');
+    return { variable, types, properties: props, direction: incoming ? 'in' : outgoing ? 'out' : 'both' };
+  };
+
+  const path = (): Path => {
+    const start = nodePattern();
+    const steps: Path['steps'] = [];
+    while (is('-') || is('<')) steps.push({ relationship: relationshipPattern(), node: nodePattern() });
+    return { start, steps };
+  };
+
+  const operand = (): Expression => {
+    if (accept('(')) {
+      const inner = expression();
+      expect(')');
+      return inner;
+    }
+    if (peek()?.kind === 'identifier') {
+      const variable = identifier();
+      if (accept('.')) return { kind: 'property', variable, property: identifier() };
+      return { kind: 'variable', name: variable };
+    }
+    return { kind: 'literal', value: literal() };
+  };
+
+  const comparison = (): Expression => {
+    const left = operand();
+    for (const operator of ['=', '<>', '!=', '<', '<=', '>', '>=', 'CONTAINS']) {
+      if (accept(operator)) return { kind: 'comparison', operator, left, right: operand() };
+    }
+    for (const operator of ['STARTS', 'ENDS']) {
+      if (accept(operator)) {
+        expect('WITH');
+        return { kind: 'comparison', operator, left, right: operand() };
+      }
+    }
+    return left;
+  };
+
+  const negation = (): Expression => (accept('NOT') ? { kind: 'not', operand: negation() } : comparison());
+
+  const conjunction = (): Expression => {
+    let left = negation();
+    while (accept('AND')) left = { kind: 'logical', operator: 'AND', left, right: negation() };
+    return left;
+  };
+
+  const expression = (): Expression => {
+    let left = conjunction();
+    while (accept('OR')) left = { kind: 'logical', operator: 'OR', left, right: conjunction() };
+    return left;
+  };
+
+  const returnItem = (): ReturnItem => {
+    const start = peek()?.position ?? text.length;
+    const item = operand();
+    const end = index < tokens.length ? tokens[index].position : text.length;
+    return { expression: item, label: text.slice(start, end).trim() };
+  };
+
+  expect('MATCH');
+  const paths = [path()];
+  while (accept(',')) paths.push(path());
+  // Further MATCH clauses just add patterns
+  while (accept('MATCH')) {
+    paths.push(path());
+    while (accept(',')) paths.push(path());
+  }
+
+  const where = accept('WHERE') ? expression() : null;
+
+  let distinct = false;
+  let items: ReturnItem[] | null = null;
+  if (accept('RETURN')) {
+    distinct = accept('DISTINCT');
+    if (!accept('*')) {
+      items = [returnItem()];
+      while (accept(',')) items.push(returnItem());
+    }
+  }
+
+  const order: Query['order'] = [];
+  if (accept('ORDER')) {
+    expect('BY');
+    do {
+      const item = operand();
+      const descending = accept('DESC');
+      if (!descending) accept('ASC');
+      order.push({ expression: item, descending });
+    } while (accept(','));
+  }
+
+  let limit = MAX_ROWS;
+  if (accept('LIMIT')) {
+    const token = peek();
+    if (token?.kind !== 'number') throw new Error(`Expected a number after LIMIT but found ${describeToken(token)}`);
+    index++;
+    limit = Math.min(MAX_ROWS, Math.floor(Number(token.text)));
+  }
+
+  if (index < tokens.length) throw new Error(`Unexpected ${describeToken(peek())}`);
+  return { paths, where, distinct, items, order, limit };
+};
+
+type Bound = { kind: 'node'; node: GraphNode } | { kind: 'link'; link: GraphLink };
+type Binding = Map<string, Bound>;
+
+const nodeProperty = (node: GraphNode, property: string): QueryValue => {
+  const value = (node as unknown as Record<string, unknown>)[property];
+  return value === undefined || typeof value === 'object' ? null : (value as QueryValue);
+};
+
+const linkProperty = (link: GraphLink, property: string): QueryValue => {
+  switch (property) {
+    case 'type':
+      return link.type;
+    case 'weight':
+    case 'value':
+      return link.value;
+    case 'source':
+      return nodeId(link.source);
+    case 'target':
+      return nodeId(link.target);
+    default: {
+      const value = (link.stats as unknown as Record<string, unknown> | undefined)?.[property];
+      return value === undefined ? null : (value as QueryValue);
+    }
+  }
+};
+
+const matchesProperties = (get: (property: string) => QueryValue, properties: Properties): boolean =>
+  Object.entries(properties).every(([key, expected]) => compare('=', get(key), expected));
+
+// Numbers compare as numbers when both sides are numeric; everything else as text.
+function compare(operator: string, left: QueryValue, right: QueryValue): boolean {
+  if (left === null || right === null) return operator === '=' ? left === right : operator === '<>' || operator === '!=' ? left !== right : false;
+  const numeric = typeof left !== 'boolean' && typeof right !== 'boolean' && left !== '' && right !== '' &&
+    !isNaN(Number(left)) && !isNaN(Number(right));
+  const a = numeric ? Number(left) : String(left);
+  const b = numeric ? Number(right) : String(right);
+  switch (operator) {
+    case '=':
+      return a === b;
+    case '<>':
+    case '!=':
+      return a !== b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case 'CONTAINS':
+      return String(left).toLowerCase().includes(String(right).toLowerCase());
+    case 'STARTS':
+      return String(left).toLowerCase().startsWith(String(right).toLowerCase());
+    case 'ENDS':
+      return String(left).toLowerCase().endsWith(String(right).toLowerCase());
+    default:
+      return false;
+  }
+}
+
+const boundLabel = (bound: Bound): QueryValue =>
+  bound.kind === 'node'
+    ? String(bound.node.value ?? bound.node.id)
+    : `${nodeId(bound.link.source)} → ${nodeId(bound.link.target)} (${bound.link.type})`;
+
+const evaluate = (expression: Expression, binding: Binding): QueryValue => {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'variable': {
+      const bound = binding.get(expression.name);
+      if (!bound) throw new Error(`Unknown variable '${expression.name}'`);
+      return boundLabel(bound);
+    }
+    case 'property': {
+      const bound = binding.get(expression.variable);
+      if (!bound) throw new Error(`Unknown variable '${expression.variable}'`);
+      return bound.kind === 'node'
+        ? nodeProperty(bound.node, expression.property)
+        : linkProperty(bound.link, expression.property);
+    }
+    case 'not':
+      return !truthy(evaluate(expression.operand, binding));
+    case 'logical': {
+      const left = truthy(evaluate(expression.left, binding));
+      if (expression.operator === 'AND') return left && truthy(evaluate(expression.right, binding));
+      return left || truthy(evaluate(expression.right, binding));
+    }
+    case 'comparison':
+      return compare(expression.operator, evaluate(expression.left, binding), evaluate(expression.right, binding));
+  }
+};
+
+const truthy = (value: QueryValue): boolean => value !== null && value !== false && value !== 0 && value !== '';
+
+interface Adjacent {
+  link: GraphLink;
+  other: string;
+  outgoing: boolean;
+}
+
+/** Parses and runs a query, returning its rows and the matched elements. */
+export const runQuery = (graph: KnowledgeGraphData, text: string): QueryResult => {
+  const query = parse(text);
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+  const adjacency = new Map<string, Adjacent[]>();
+  const adjacent = (id: string) => adjacency.get(id) ?? adjacency.set(id, []).get(id) as Adjacent[];
+  graph.links.forEach(link => {
+    const source = nodeId(link.source);
+    const target = nodeId(link.target);
+    adjacent(source).push({ link, other: target, outgoing: true });
+    if (source !== target) adjacent(target).push({ link, other: source, outgoing: false });
+  });
+
+  const nodeMatches = (node: GraphNode, pattern: NodePattern) =>
+    (pattern.labels.length === 0 || pattern.labels.includes(node.type)) &&
+    matchesProperties(property => nodeProperty(node, property), pattern.properties);
+
+  const variables = new Set<string>();
+  query.paths.forEach(({ start, steps }) => {
+    variables.add(start.variable);
+    steps.forEach(({ relationship, node }) => {
+      variables.add(relationship.variable);
+      variables.add(node.variable);
+    });
+  });
+  const referenced = (expression: Expression): void => {
+    if (expression.kind === 'variable' && !variables.has(expression.name)) throw new Error(`Unknown variable '${expression.name}'`);
+    if (expression.kind === 'property' && !variables.has(expression.variable)) throw new Error(`Unknown variable '${expression.variable}'`);
+    if (expression.kind === 'not') referenced(expression.operand);
+    if (expression.kind === 'logical' || expression.kind === 'comparison') {
+      referenced(expression.left);
+      referenced(expression.right);
+    }
+  };
+  if (query.where) referenced(query.where);
+  query.items?.forEach(item => referenced(item.expression));
+  query.order.forEach(item => referenced(item.expression));
+
+  const matches: Binding[] = [];
+  let steps = 0;
+  // Cypher never uses one relationship twice in a match
+  const usedLinks = new Set<GraphLink>();
+
+  const bindNode = (binding: Binding, pattern: NodePattern, node: GraphNode, next: () => void) => {
+    const bound = binding.get(pattern.variable);
+    if (bound) {
+      if (bound.kind === 'node' && bound.node === node && nodeMatches(node, pattern)) next();
+      return;
+    }
+    if (!nodeMatches(node, pattern)) return;
+    binding.set(pattern.variable, { kind: 'node', node });
+    next();
+    binding.delete(pattern.variable);
+  };
+
+  const matchPath = (binding: Binding, pathIndex: number) => {
+    if (++steps > MAX_STEPS) throw new Error('The pattern matches too many paths; make it more specific or add a LIMIT');
+    if (pathIndex === query.paths.length) {
+      if (!query.where || truthy(evaluate(query.where, binding))) matches.push(new Map(binding));
+      return;
+    }
+    const { start, steps: pathSteps } = query.paths[pathIndex];
+
+    const walk = (stepIndex: number, from: GraphNode) => {
+      if (stepIndex === pathSteps.length) {
+        matchPath(binding, pathIndex + 1);
+        return;
+      }
+      const { relationship, node: target } = pathSteps[stepIndex];
+      (adjacency.get(from.id) ?? []).forEach(({ link, other, outgoing }) => {
+        if (relationship.direction === 'out' && !outgoing) return;
+        if (relationship.direction === 'in' && outgoing) return;
+        if (usedLinks.has(link)) return;
+        if (relationship.types.length > 0 && !relationship.types.includes(link.type)) return;
+        if (!matchesProperties(property => linkProperty(link, property), relationship.properties)) return;
+        const otherNode = nodes.get(other);
+        if (!otherNode) return;
+
+        const bound = binding.get(relationship.variable);
+        if (bound && (bound.kind !== 'link' || bound.link !== link)) return;
+        if (!bound) binding.set(relationship.variable, { kind: 'link', link });
+        usedLinks.add(link);
+        bindNode(binding, target, otherNode, () => walk(stepIndex + 1, otherNode));
+        usedLinks.delete(link);
+        if (!bound) binding.delete(relationship.variable);
+      });
+    };
+
+    const bound = binding.get(start.variable);
+    const candidates = bound?.kind === 'node' ? [bound.node] : graph.nodes;
+    candidates.forEach(node => bindNode(binding, start, node, () => walk(0, node)));
+  };
+
+  matchPath(new Map(), 0);
+
+  if (query.order.length > 0) {
+    const keyed = matches.map(binding => ({ binding, keys: query.order.map(item => evaluate(item.expression, binding)) }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < query.order.length; i++) {
+        const [x, y] = [a.keys[i], b.keys[i]];
+        if (x === y) continue;
+        // Nulls last whatever the direction
+        if (x === null) return 1;
+        if (y === null) return -1;
+        const ascending = compare('<', x, y) ? -1 : compare('>', x, y) ? 1 : 0;
+        if (ascending !== 0) return query.order[i].descending ? -ascending : ascending;
+      }
+      return 0;
+    });
+    matches.splice(0, matches.length, ...keyed.map(({ binding }) => binding));
+  }
+
+  const named = [...variables].filter(name => !name.startsWith('_'));
+  const items: ReturnItem[] = query.items ?? named.map(name => ({ expression: { kind: 'variable', name }, label: name }));
+
+  const rows: QueryCell[][] = [];
+  const seen = new Set<string>();
+  const nodeIds = new Set<string>();
+  const linkKeys = new Set<string>();
+  for (const binding of matches) {
+    if (rows.length >= query.limit) break;
+    const row = items.map(({ expression }): QueryCell => {
+      const bound = expression.kind === 'variable' ? binding.get(expression.name) : undefined;
+      return { value: evaluate(expression, binding), nodeId: bound?.kind === 'node' ? bound.node.id : undefined };
+    });
+    if (query.distinct) {
+      const key = JSON.stringify(row.map(cell => cell.value));
+      if (seen.has(key)) continue;
+      seen.add(key);
+    }
+    rows.push(row);
+    binding.forEach(bound => {
+      if (bound.kind === 'node') nodeIds.add(bound.node.id);
+      else linkKeys.add(linkKey(bound.link));
+    });
+  }
+
+  return { columns: items.map(item => item.label), rows, nodeIds, linkKeys };
+};
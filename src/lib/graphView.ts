@@ -0,0 +1,71 @@
+import * as d3 from 'd3';
+import { GraphHighlight, GraphNode } from '@/lib/graph';
+
+// Zoom range of both renderers
+export const SCALE_EXTENT: [number, number] = [0.1, 4];
+
+// A label is drawn once its node is at least this many pixels across on screen
+export const LABEL_MIN_RADIUS = 8;
+// Beyond this many labels the view is unreadable and slow to fill
+export const MAX_LABELS = 400;
+
+/** What the zoom buttons and the minimap need from whichever renderer is showing. */
+export interface ViewControls {
+  transform: () => d3.ZoomTransform;
+  // Animated moves report their final scale once they finish
+  setTransform: (transform: d3.ZoomTransform, animate?: boolean) => void;
+}
+
+/** Graph height for a container width: roughly 3:2, within reach on a phone and a wide monitor alike. */
+export const viewHeight = (width: number): number => Math.round(Math.min(720, Math.max(360, width * 0.66)));
+
+const clampScale = (k: number) => Math.min(SCALE_EXTENT[1], Math.max(SCALE_EXTENT[0], k));
+
+/** Zooms by `factor` about the middle of the view. */
+export const scaleAbout = (transform: d3.ZoomTransform, factor: number, width: number, height: number): d3.ZoomTransform => {
+  const k = clampScale(transform.k * factor);
+  const [x, y] = transform.invert([width / 2, height / 2]);
+  return d3.zoomIdentity.translate(width / 2 - x * k, height / 2 - y * k).scale(k);
+};
+
+/** Keeps the scale and puts the graph point (x, y) in the middle of the view. */
+export const centerOn = (transform: d3.ZoomTransform, x: number, y: number, width: number, height: number): d3.ZoomTransform =>
+  d3.zoomIdentity.translate(width / 2 - x * transform.k, height / 2 - y * transform.k).scale(transform.k);
+
+// Extent of the nodes, radius included, or null before any are placed
+export const nodeBounds = (nodes: GraphNode[], radius: (node: GraphNode) => number = () => 0): [[number, number], [number, number]] | null => {
+  const placed = nodes.filter(node => node.x !== undefined && node.y !== undefined);
+  if (placed.length === 0) return null;
+  return [
+    [d3.min(placed, node => (node.x as number) - radius(node)) as number, d3.min(placed, node => (node.y as number) - radius(node)) as number],
+    [d3.max(placed, node => (node.x as number) + radius(node)) as number, d3.max(placed, node => (node.y as number) + radius(node)) as number],
+  ];
+};
+
+/** The transform that shows every node with a little room around them. */
+export const fitTransform = (nodes: GraphNode[], radius: (node: GraphNode) => number, width: number, height: number, padding = 24): d3.ZoomTransform => {
+  const bounds = nodeBounds(nodes, radius);
+  if (!bounds) return d3.zoomIdentity;
+  const [[x0, y0], [x1, y1]] = bounds;
+  const k = clampScale(Math.min((width - 2 * padding) / Math.max(x1 - x0, 1), (height - 2 * padding) / Math.max(y1 - y0, 1)));
+  return d3.zoomIdentity.translate(width / 2 - ((x0 + x1) / 2) * k, height / 2 - ((y0 + y1) / 2) * k).scale(k);
+};
+
+/**
+ * Level of detail for labels: big nodes get them first, small ones once
+ * zoomed in, and the selection and highlighted nodes always.
+ */
+export const labelledNodes = (
+  nodes: GraphNode[],
+  radius: (node: GraphNode) => number,
+  k: number,
+  visible: (node: GraphNode) => boolean,
+  selectedNodeId: string | null,
+  highlight: GraphHighlight | null,
+): GraphNode[] =>
+  nodes
+    .filter(node => visible(node) && (
+      node.id === selectedNodeId || highlight?.nodeIds.has(node.id) || radius(node) * k >= LABEL_MIN_RADIUS
+    ))
+    .sort((a, b) => radius(b) - radius(a))
+    .slice(0, MAX_LABELS);
@@ -0,0 +1,244 @@
+import { CellValue, ColumnSchema, OceanDataset, OceanRecord, parseTime } from '@/lib/dataset';
+import { createColumnarBuilder, recordView, selectRows, tableOf, tableToDataset, withConstantColumn } from '@/lib/columnar';
+
+export const SOURCE_COLUMN: ColumnSchema = { name: 'source_file', label: 'Source File', type: 'string', role: 'categorical' };
+
+export interface SchemaDifference {
+  column: string;
+  kind: 'type_conflict' | 'unit_conflict' | 'unit_converted';
+  detail: string;
+}
+
+export interface MergeResult {
+  dataset: OceanDataset;
+  duplicates: number;
+  differences: SchemaDifference[];
+}
+
+// Units that convert into one another: value in `base` = value × scale + offset
+const UNITS: Record<string, { base: string; scale: number; offset: number }> = {
+  '°C': { base: '°C', scale: 1, offset: 0 },
+  '°F': { base: '°C', scale: 5 / 9, offset: -32 * 5 / 9 },
+  'K': { base: '°C', scale: 1, offset: -273.15 },
+  'm': { base: 'm', scale: 1, offset: 0 },
+  'ft': { base: 'm', scale: 0.3048, offset: 0 },
+  'dbar': { base: 'dbar', scale: 1, offset: 0 },
+  'bar': { base: 'dbar', scale: 10, offset: 0 },
+  'kPa': { base: 'dbar', scale: 0.1, offset: 0 },
+  'mg/L': { base: 'mg/L', scale: 1, offset: 0 },
+  'ml/L': { base: 'mg/L', scale: 1.429, offset: 0 },
+  'µmol/L': { base: 'mg/L', scale: 0.031998, offset: 0 },
+};
+
+// Converts values from one unit to another, or null when they don't convert
+const unitConversion = (from: string, to: string): ((value: number) => number) | null => {
+  const source = UNITS[from];
+  const target = UNITS[to];
+  if (!source || !target || source.base !== target.base) return null;
+  return value => (value * source.scale + source.offset - target.offset) / target.scale;
+};
+
+const emptyValue = (column: ColumnSchema): CellValue => (column.type === 'number' ? NaN : '');
+
+/**
+ * Mark every record with the file it came from and record the file in the
+ * dataset's provenance.
+ */
+export const tagSource = (dataset: OceanDataset, fileName: string, format: 'csv' | 'netcdf'): OceanDataset => {
+  const table = tableOf(dataset.records);
+  return {
+    columns: dataset.columns.some(c => c.name === SOURCE_COLUMN.name) ? dataset.columns : [...dataset.columns, SOURCE_COLUMN],
+    records: table
+      ? recordView(withConstantColumn(table, SOURCE_COLUMN, fileName))
+      : dataset.records.map(record => ({ ...record, [SOURCE_COLUMN.name]: fileName })),
+    sources: [{
+      fileName,
+      format,
+      records: dataset.records.length,
+      duplicates: 0,
+      missingColumns: [],
+      importedAt: new Date().toISOString(),
+    }],
+  };
+};
+
+/**
+ * Union of the column schemas. The first definition of a column wins; later
+ * definitions that disagree on type are reported, and values in another unit
+ * are converted to the first one's. Units that don't convert stop the merge,
+ * since the values couldn't share a column.
+ */
+export const reconcileSchemas = (schemas: ColumnSchema[][]): { columns: ColumnSchema[]; differences: SchemaDifference[] } => {
+  const columns: ColumnSchema[] = [];
+  const differences: SchemaDifference[] = [];
+
+  schemas.flat().forEach(column => {
+    const existing = columns.find(c => c.name === column.name);
+    if (!existing) {
+      columns.push(column);
+      return;
+    }
+    if (existing.type !== column.type && !differences.some(d => d.column === column.name && d.kind === 'type_conflict')) {
+      differences.push({
+        column: column.name,
+        kind: 'type_conflict',
+        detail: `${existing.type} vs ${column.type}; values are read as ${existing.type}`,
+      });
+    }
+    if ((existing.unit ?? '') === (column.unit ?? '')) return;
+    let difference: SchemaDifference;
+    if (!existing.unit || !column.unit) {
+      // A column without a unit can't be checked, so it's only flagged
+      difference = { column: column.name, kind: 'unit_conflict', detail: `${existing.unit || 'no unit'} vs ${column.unit || 'no unit'}` };
+    } else if (unitConversion(column.unit, existing.unit)) {
+      difference = { column: column.name, kind: 'unit_converted', detail: `values in ${column.unit} were converted to ${existing.unit}` };
+    } else {
+      throw new Error(`Column ${column.name} is in ${existing.unit} in one file and ${column.unit} in another, which don't convert`);
+    }
+    if (!differences.some(d => d.column === difference.column && d.detail === difference.detail)) differences.push(difference);
+  });
+
+  // Keep provenance last so it reads as metadata in tables.
+  const source = columns.findIndex(c => c.name === SOURCE_COLUMN.name);
+  if (source >= 0) columns.push(...columns.splice(source, 1));
+
+  return { columns, differences };
+};
+
+/**
+ * Records at the same position, time and depth describe the same observation.
+ * Null when any of those is missing: such records can't be told apart, so
+ * they're never treated as duplicates.
+ */
+export const duplicateKey = (record: OceanRecord): string | null => {
+  const latitude = Number(record.latitude);
+  const longitude = Number(record.longitude);
+  const depth = Number(record.depth);
+  // Compared as instants, so the same time written two ways still matches
+  const time = parseTime(record.timestamp || record.date);
+  if (isNaN(latitude) || isNaN(longitude) || isNaN(depth) || isNaN(time)) return null;
+  return [latitude.toFixed(4), longitude.toFixed(4), time, depth.toFixed(2)].join('|');
+};
+
+const coerce = (value: CellValue, column: ColumnSchema, convert?: (value: number) => number): CellValue => {
+  if (value === undefined || value === null) return emptyValue(column);
+  if (column.type === 'number') {
+    const number = typeof value === 'number' ? value : Number(value);
+    return convert ? convert(number) : number;
+  }
+  return typeof value === 'number' && isNaN(value) ? '' : String(value);
+};
+
+/**
+ * Append datasets into one. Columns a source lacks load as missing values and
+ * duplicate observations are kept only once (first occurrence wins). The
+ * result is stored column-wise, however the inputs were held.
+ */
+export const mergeDatasets = (datasets: OceanDataset[]): MergeResult => {
+  const { columns, differences } = reconcileSchemas(datasets.map(d => d.columns));
+  const seen = new Set<string>();
+  const builder = createColumnarBuilder(columns);
+  let duplicates = 0;
+
+  const sources = datasets.flatMap(dataset => {
+    const present = new Set(dataset.columns.map(c => c.name));
+    const missingColumns = columns.filter(c => !present.has(c.name)).map(c => c.name);
+    const conversions = new Map(dataset.columns.flatMap(own => {
+      const merged = columns.find(c => c.name === own.name);
+      const convert = merged?.unit && own.unit && merged.unit !== own.unit ? unitConversion(own.unit, merged.unit) : null;
+      return convert ? [[own.name, convert] as const] : [];
+    }));
+    const needsCoercion = missingColumns.length > 0 || conversions.size > 0
+      || differences.some(d => d.kind === 'type_conflict' && present.has(d.column));
+    let sourceDuplicates = 0;
+
+    dataset.records.forEach(record => {
+      const key = duplicateKey(record);
+      if (key !== null && seen.has(key)) {
+        sourceDuplicates++;
+        return;
+      }
+      if (key !== null) seen.add(key);
+
+      if (!needsCoercion) {
+        builder.append(record);
+        return;
+      }
+      const aligned = {} as OceanRecord;
+      columns.forEach(column => {
+        aligned[column.name] = coerce(record[column.name], column, conversions.get(column.name));
+      });
+      builder.append(aligned);
+    });
+
+    duplicates += sourceDuplicates;
+    return (dataset.sources ?? []).map((source, index, all) => ({
+      ...source,
+      // Duplicates found now belong to the newest source of this dataset.
+      duplicates: source.duplicates + (index === all.length - 1 ? sourceDuplicates : 0),
+      missingColumns: [...new Set([...source.missingColumns, ...missingColumns])],
+    }));
+  });
+
+  return { dataset: { ...tableToDataset(builder.finish()), sources }, duplicates, differences };
+};
+
+/** The dataset without the given files' records and provenance, as before importing one of them again. */
+export const removeSources = (dataset: OceanDataset, fileNames: Set<string>): OceanDataset => {
+  if (!dataset.sources?.some(source => fileNames.has(source.fileName))) return dataset;
+  const table = tableOf(dataset.records);
+  const sourceColumn = table?.strings[SOURCE_COLUMN.name];
+  return {
+    ...dataset,
+    records: table && sourceColumn
+      ? recordView(selectRows(table, index => !fileNames.has(sourceColumn.dictionary[sourceColumn.codes[index]])))
+      : dataset.records.filter(record => !fileNames.has(String(record[SOURCE_COLUMN.name] ?? ''))),
+    sources: dataset.sources.filter(source => !fileNames.has(source.fileName)),
+  };
+};
+
+export interface SourceBreakdown {
+  fileName: string;
+  format: 'csv' | 'netcdf';
+  records: number;
+  duplicates: number;
+  regions: string[];
+  firstDate: string;
+  lastDate: string;
+  missingColumns: string[];
+}
+
+/**
+ * Per-file summary of a merged dataset, counting the records each file still
+ * contributes after de-duplication.
+ */
+export const sourceBreakdown = (dataset: OceanDataset): SourceBreakdown[] => {
+  // Running totals per file, so no file's records are held at once
+  const groups = new Map<string, { records: number; regions: Set<string>; firstDate: string; lastDate: string }>();
+  dataset.records.forEach(record => {
+    const fileName = String(record[SOURCE_COLUMN.name] ?? '');
+    let group = groups.get(fileName);
+    if (!group) {
+      group = { records: 0, regions: new Set(), firstDate: '', lastDate: '' };
+      groups.set(fileName, group);
+    }
+    group.records++;
+    group.regions.add(record.region);
+    if (record.date && (!group.firstDate || record.date < group.firstDate)) group.firstDate = record.date;
+    if (record.date && record.date > group.lastDate) group.lastDate = record.date;
+  });
+
+  return (dataset.sources ?? []).map(source => {
+    const group = groups.get(source.fileName);
+    return {
+      fileName: source.fileName,
+      format: source.format,
+      records: group?.records ?? 0,
+      duplicates: source.duplicates,
+      regions: [...(group?.regions ?? [])],
+      firstDate: group?.firstDate ?? '',
+      lastDate: group?.lastDate ?? '',
+      missingColumns: source.missingColumns,
+    };
+  });
+};
@@ -0,0 +1,92 @@
+import { OceanRecord, getRegions, numericValue } from '@/lib/dataset';
+import { HIERARCHY_LINK_TYPES } from '@/lib/drillDown';
+import { GraphNode, KnowledgeGraphData, nodeId } from '@/lib/graph';
+import { BoxPlotSummary, DescriptiveStats, boxPlotSummary, describe, sortedValues } from '@/lib/statistics';
+import { bucketStart, recordTime } from '@/lib/timeSeries';
+
+export interface RegionDistribution {
+  region: string;
+  stats: DescriptiveStats;
+  box: BoxPlotSummary;
+}
+
+export interface Deviation {
+  // Mean over the month's records of the region
+  mean: number;
+  // Mean over all the region's records
+  regionMean: number;
+  // (mean − regionMean) / the region's standard deviation
+  z: number;
+}
+
+export interface MonthRegion {
+  region: string;
+  count: number;
+  deviations: Record<string, Deviation>;
+}
+
+/**
+ * Nodes linked to `id`, grouped by link type. The node a drill-down level
+ * hangs from is grouped apart, as 'parent'.
+ */
+export const neighborsByType = (graph: KnowledgeGraphData, id: string): Map<string, GraphNode[]> => {
+  const nodes = new Map(graph.nodes.map(node => [node.id, node]));
+  const groups = new Map<string, GraphNode[]>();
+  graph.links.forEach(link => {
+    const source = nodeId(link.source);
+    const target = nodeId(link.target);
+    if (source !== id && target !== id) return;
+    const other = nodes.get(source === id ? target : source);
+    if (!other) return;
+    const relation = HIERARCHY_LINK_TYPES.includes(link.type) && target === id ? 'parent' : link.type;
+    const group = groups.get(relation) ?? [];
+    group.push(other);
+    groups.set(relation, group);
+  });
+  return groups;
+};
+
+/** Mean of `variable` per month over the records, for a sparkline. */
+export const monthlyMeans = (records: OceanRecord[], variable: string): { time: number; mean: number }[] => {
+  const months = new Map<number, { sum: number; count: number }>();
+  records.forEach(record => {
+    const time = recordTime(record);
+    const value = numericValue(record, variable);
+    if (isNaN(time) || isNaN(value)) return;
+    const start = bucketStart(time, 'month');
+    const month = months.get(start) ?? { sum: 0, count: 0 };
+    month.sum += value;
+    month.count++;
+    months.set(start, month);
+  });
+  return [...months.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, { sum, count }]) => ({ time, mean: sum / count }));
+};
+
+export const regionDistributions = (records: OceanRecord[], variable: string): RegionDistribution[] =>
+  getRegions(records)
+    .map(region => {
+      const { values, missing } = sortedValues(records.filter(record => record.region === region), variable);
+      return { region, stats: describe(values, missing), box: boxPlotSummary(values) };
+    })
+    .filter(({ stats }) => stats.count > 0);
+
+/**
+ * Regions sampled in a month (YYYY-MM), with how far that month's mean of each
+ * variable sits from the region's mean over the whole dataset.
+ */
+export const monthDeviations = (records: OceanRecord[], month: string, variables: string[]): MonthRegion[] =>
+  getRegions(records.filter(record => record.date.startsWith(month))).map(region => {
+    const regionRecords = records.filter(record => record.region === region);
+    const monthRecords = regionRecords.filter(record => record.date.startsWith(month));
+    const deviations: Record<string, Deviation> = {};
+    variables.forEach(variable => {
+      const overall = describe(sortedValues(regionRecords, variable).values, 0);
+      const { values } = sortedValues(monthRecords, variable);
+      if (values.length === 0) return;
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      deviations[variable] = { mean, regionMean: overall.mean, z: overall.std > 0 ? (mean - overall.mean) / overall.std : 0 };
+    });
+    return { region, count: monthRecords.length, deviations };
+  });
@@ -0,0 +1,147 @@
+import { OceanRecord, numericValue } from '@/lib/dataset';
+
+// A vertical profile: the records sampled at one station at one time.
+export interface Cast {
+  key: string;
+  latitude: number;
+  longitude: number;
+  region: string;
+  // Timestamp (or date) of the cast, as in the records
+  time: string;
+  // Ordered from the surface down
+  records: OceanRecord[];
+}
+
+// EOS-80 works in IPTS-68 temperatures; data are reported on ITS-90.
+const T68 = (t90: number) => t90 * 1.00024;
+const T90 = (t68: number) => t68 / 1.00024;
+
+/**
+ * Sea pressure (dbar) at a depth (m) and latitude, after Saunders (1981).
+ */
+export const pressureFromDepth = (depth: number, latitude: number): number => {
+  const sin = Math.sin((Math.abs(latitude) * Math.PI) / 180);
+  const c1 = (5.92 + 5.25 * sin * sin) * 1e-3;
+  return ((1 - c1) - Math.sqrt((1 - c1) ** 2 - 8.84e-6 * depth)) / 4.42e-6;
+};
+
+// Adiabatic lapse rate (°C/dbar), UNESCO (1983).
+const adiabaticLapseRate = (s: number, t: number, p: number): number => {
+  const ds = s - 35;
+  return (((-2.1687e-16 * t + 1.8676e-14) * t - 4.6206e-13) * p
+    + ((2.7759e-12 * t - 1.1351e-10) * ds + ((-5.4481e-14 * t + 8.733e-12) * t - 6.7795e-10) * t + 1.8741e-8)) * p
+    + (-4.2393e-8 * t + 1.8932e-6) * ds
+    + ((6.6228e-10 * t - 6.836e-8) * t + 8.5258e-6) * t + 3.5803e-5;
+};
+
+/**
+ * Potential temperature (°C) of a parcel brought adiabatically from pressure
+ * `p` to the surface, by the Runge–Kutta scheme of Fofonoff & Millard (1983).
+ * Takes and returns ITS-90; the integration itself runs on IPTS-68.
+ */
+export const potentialTemperature = (salinity: number, temperature: number, pressure: number): number => {
+  const h = -pressure;
+  const t68 = T68(temperature);
+  let xk = h * adiabaticLapseRate(salinity, t68, pressure);
+  let t = t68 + 0.5 * xk;
+  let q = xk;
+  let p = pressure + 0.5 * h;
+  xk = h * adiabaticLapseRate(salinity, t, p);
+  t += 0.29289322 * (xk - q);
+  q = 0.58578644 * xk + 0.121320344 * q;
+  xk = h * adiabaticLapseRate(salinity, t, p);
+  t += 1.707106781 * (xk - q);
+  q = 3.414213562 * xk - 4.121320344 * q;
+  p += 0.5 * h;
+  xk = h * adiabaticLapseRate(salinity, t, p);
+  return T90(t + (xk - 2 * q) / 6);
+};
+
+/** Density (kg/m³) of seawater at the surface, EOS-80. */
+export const surfaceDensity = (salinity: number, temperature: number): number => {
+  const t = T68(temperature);
+  const s = salinity;
+  const pureWater = 999.842594 + t * (6.793952e-2 + t * (-9.09529e-3 + t * (1.001685e-4 + t * (-1.120083e-6 + t * 6.536332e-9))));
+  const a = 8.24493e-1 + t * (-4.0899e-3 + t * (7.6438e-5 + t * (-8.2467e-7 + t * 5.3875e-9)));
+  const b = -5.72466e-3 + t * (1.0227e-4 - t * 1.6546e-6);
+  return pureWater + a * s + b * s ** 1.5 + 4.8314e-4 * s * s;
+};
+
+/**
+ * Dissolved oxygen in mg/L from µmol/kg, using the potential density of the
+ * sample. Without salinity or temperature a typical 1025 kg/m³ is assumed.
+ */
+export const oxygenToMgPerLitre = (oxygen: number, salinity: number, temperature: number, pressure: number): number => {
+  const theta = potentialTemperature(salinity, temperature, isNaN(pressure) ? 0 : pressure);
+  const density = isNaN(theta) ? 1025 : surfaceDensity(salinity, theta);
+  // 31.998 mg/mmol O₂; density in kg/m³ is g/L
+  return (oxygen * 31.998e-3 * density) / 1000;
+};
+
+// σθ for potential temperature; σθ(S, θ) is the surface density less 1000 kg/m³.
+export const sigmaTheta = (salinity: number, theta: number): number => surfaceDensity(salinity, theta) - 1000;
+
+/**
+ * Points along the σθ = `sigma` isopleth over a salinity range, found by
+ * bisection in θ. Salinities where the isopleth leaves the θ range are skipped.
+ */
+export const sigmaIsopleth = (
+  sigma: number,
+  [sMin, sMax]: [number, number],
+  [tMin, tMax]: [number, number],
+  steps = 40,
+): [number, number][] => {
+  const points: [number, number][] = [];
+  for (let i = 0; i <= steps; i++) {
+    const s = sMin + ((sMax - sMin) * i) / steps;
+    // Density falls with temperature over the ocean's T–S range
+    let low = tMin;
+    let high = tMax;
+    if (sigmaTheta(s, low) < sigma || sigmaTheta(s, high) > sigma) continue;
+    for (let iteration = 0; iteration < 30; iteration++) {
+      const mid = (low + high) / 2;
+      if (sigmaTheta(s, mid) > sigma) low = mid;
+      else high = mid;
+    }
+    points.push([s, (low + high) / 2]);
+  }
+  return points;
+};
+
+/** Potential temperature and σθ of a record, NaN when an input is missing. */
+export const recordDensity = (record: OceanRecord): { theta: number; sigma: number } => {
+  const salinity = numericValue(record, 'salinity');
+  const temperature = numericValue(record, 'temperature');
+  const depth = numericValue(record, 'depth');
+  const pressure = isNaN(depth) ? 0 : pressureFromDepth(depth, Number(record.latitude) || 0);
+  const theta = potentialTemperature(salinity, temperature, pressure);
+  return { theta, sigma: sigmaTheta(salinity, theta) };
+};
+
+// Position (to ~100 m) and time of the cast a record belongs to.
+// Shallowest first; missing depths go to the bottom, so the comparator stays consistent
+export const compareDepths = (a: number, b: number): number =>
+  isNaN(a) || isNaN(b) ? Number(isNaN(a)) - Number(isNaN(b)) : a - b;
+
+export const castKey = (record: OceanRecord): string =>
+  `${Number(record.latitude).toFixed(3)},${Number(record.longitude).toFixed(3)}|${record.timestamp || record.date}`;
+
+/** Records grouped into casts by position and time. */
+export const groupCasts = (records: OceanRecord[]): Cast[] => {
+  const casts = new Map<string, Cast>();
+  records.forEach(record => {
+    const latitude = Number(record.latitude);
+    const longitude = Number(record.longitude);
+    const time = record.timestamp || record.date;
+    const key = castKey(record);
+    let cast = casts.get(key);
+    if (!cast) {
+      cast = { key, latitude, longitude, region: record.region, time, records: [] };
+      casts.set(key, cast);
+    }
+    cast.records.push(record);
+  });
+
+  const byDepth = (a: OceanRecord, b: OceanRecord) => compareDepths(numericValue(a, 'depth'), numericValue(b, 'depth'));
+  return [...casts.values()].map(cast => ({ ...cast, records: cast.records.sort(byDepth) }));
+};
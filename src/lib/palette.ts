@@ -0,0 +1,16 @@
+// Same palette as the knowledge graph, extended for datasets with many regions.
+export const GROUP_COLORS = [
+  'hsl(220, 85%, 45%)',
+  'hsl(185, 70%, 45%)',
+  'hsl(15, 85%, 60%)',
+  'hsl(45, 85%, 55%)',
+  'hsl(145, 55%, 40%)',
+  'hsl(280, 50%, 55%)',
+  'hsl(340, 70%, 55%)',
+  'hsl(200, 25%, 55%)',
+];
+
+export const groupColor = (index: number): string => GROUP_COLORS[index % GROUP_COLORS.length];
+
+// Chart config keys become CSS variables, so groups get positional keys.
+export const groupKey = (index: number): string => `group${index}`;
@@ -0,0 +1,384 @@
+import { ColumnSchema, OceanDataset, numericColumns, numericValue } from '@/lib/dataset';
+import { GraphLink, GraphNode, KnowledgeGraphData } from '@/lib/graph';
+import { recordTime } from '@/lib/timeSeries';
+
+export type RdfFormat = 'turtle' | 'ntriples' | 'jsonld';
+
+export type RdfTerm =
+  | { kind: 'iri'; value: string }
+  | { kind: 'blank'; value: string }
+  | { kind: 'literal'; value: string; datatype: string };
+
+export interface Triple {
+  subject: RdfTerm;
+  predicate: RdfTerm;
+  object: RdfTerm;
+}
+
+export interface RdfExportOptions {
+  // Emit every measurement as a sosa:Observation, not just the graph structure
+  includeObservations: boolean;
+}
+
+export const RDF_FORMATS: Record<RdfFormat, { label: string; extension: string; mimeType: string }> = {
+  turtle: { label: 'Turtle', extension: 'ttl', mimeType: 'text/turtle' },
+  ntriples: { label: 'N-Triples', extension: 'nt', mimeType: 'application/n-triples' },
+  jsonld: { label: 'JSON-LD', extension: 'jsonld', mimeType: 'application/ld+json' },
+};
+
+export const PREFIXES: Record<string, string> = {
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  rdfs: 'http://www.w3.org/2000/01/rdf-schema#',
+  xsd: 'http://www.w3.org/2001/XMLSchema#',
+  sosa: 'http://www.w3.org/ns/sosa/',
+  ssn: 'http://www.w3.org/ns/ssn/',
+  qudt: 'http://qudt.org/schema/qudt/',
+  unit: 'http://qudt.org/vocab/unit/',
+  geo: 'http://www.opengis.net/ont/geosparql#',
+  sf: 'http://www.opengis.net/ont/sf#',
+  time: 'http://www.w3.org/2006/time#',
+  cf: 'http://vocab.nerc.ac.uk/standard_name/',
+  // Terms of this application, and the resources of an exported graph
+  ocn: 'urn:oceanic:vocab:',
+  kg: 'urn:oceanic:kg:',
+};
+
+// CF standard names of the variables that have one.
+export const CF_STANDARD_NAMES: Record<string, string> = {
+  temperature: 'sea_water_temperature',
+  salinity: 'sea_water_practical_salinity',
+  ph: 'sea_water_ph_reported_on_total_scale',
+  dissolved_oxygen: 'mass_concentration_of_oxygen_in_sea_water',
+  depth: 'depth',
+  pressure: 'sea_water_pressure',
+  chlorophyll: 'mass_concentration_of_chlorophyll_in_sea_water',
+  nitrate: 'mole_concentration_of_nitrate_in_sea_water',
+  phosphate: 'mole_concentration_of_phosphate_in_sea_water',
+  silicate: 'mole_concentration_of_silicate_in_sea_water',
+};
+
+// QUDT units by the unit strings used in column schemas.
+export const QUDT_UNITS: Record<string, string> = {
+  '°C': 'DEG_C',
+  PSU: 'PSU',
+  'mg/L': 'MilliGM-PER-L',
+  m: 'M',
+  dbar: 'DeciBAR',
+  '%': 'PERCENT',
+  'cells/mL': 'NUM-PER-MilliL',
+  individuals: 'NUM',
+  'µmol/kg': 'MicroMOL-PER-KiloGM',
+  '°N': 'DEG',
+  '°E': 'DEG',
+};
+
+const expand = (name: string): string => {
+  const separator = name.indexOf(':');
+  const namespace = PREFIXES[name.slice(0, separator)];
+  return namespace ? namespace + name.slice(separator + 1) : name;
+};
+
+const iri = (name: string): RdfTerm => ({ kind: 'iri', value: expand(name) });
+
+const literal = (value: string | number, datatype = 'xsd:string'): RdfTerm => ({
+  kind: 'literal',
+  value: String(value),
+  datatype: expand(datatype),
+});
+
+// Local names made only of characters every serialization accepts unescaped.
+const slug = (text: string): string => text.trim().replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || '_';
+
+export const propertyIri = (column: string): string =>
+  CF_STANDARD_NAMES[column] ? `cf:${CF_STANDARD_NAMES[column]}/` : `kg:property-${slug(column)}`;
+
+const nodeIri = (node: GraphNode): string => {
+  switch (node.type) {
+    case 'region':
+      return `kg:region-${slug(String(node.value))}`;
+    case 'parameter':
+    case 'biology':
+      return propertyIri(String(node.value));
+    case 'time':
+      return `kg:month-${slug(String(node.value))}`;
+    case 'station':
+    case 'cast':
+      return `kg:${slug(node.id)}`;
+    case 'observation':
+      // The sample the record becomes when observations are included
+      return node.record === undefined ? `kg:${slug(node.id)}` : `kg:sample-${node.record}`;
+    default:
+      return `kg:node-${slug(node.id)}`;
+  }
+};
+
+// Classes of the drill-down levels: stations are sampled features, casts group the observations of one profile.
+const DETAIL_CLASSES: Record<'station' | 'cast' | 'observation', string> = {
+  station: 'sosa:FeatureOfInterest',
+  cast: 'sosa:ObservationCollection',
+  observation: 'sosa:Sample',
+};
+
+const endId = (end: string | GraphNode): string => (typeof end === 'string' ? end : end.id);
+
+/**
+ * The knowledge graph in SOSA/SSN terms: regions are features of interest,
+ * variables observable properties (named by their CF standard name where one
+ * exists), months time intervals, and significant associations reified as
+ * `ocn:StatisticalAssociation` resources. With `includeObservations`, every
+ * value becomes a `sosa:Observation` on a sample located by a GeoSPARQL point,
+ * with its result as a QUDT quantity.
+ */
+export const graphToTriples = (
+  graph: KnowledgeGraphData,
+  dataset: OceanDataset,
+  { includeObservations }: RdfExportOptions,
+): Triple[] => {
+  const triples: Triple[] = [];
+  const add = (subject: RdfTerm, predicate: string, object: RdfTerm) =>
+    triples.push({ subject, predicate: iri(predicate), object });
+  let blankCount = 0;
+  const blank = (): RdfTerm => ({ kind: 'blank', value: `b${++blankCount}` });
+
+  const columns = new Map(dataset.columns.map(column => [column.name, column]));
+  const nodeIris = new Map(graph.nodes.map(node => [node.id, nodeIri(node)]));
+  const described = new Set<string>();
+
+  const describeProperty = (column: ColumnSchema) => {
+    const subject = iri(propertyIri(column.name));
+    if (described.has(subject.value)) return;
+    described.add(subject.value);
+    add(subject, 'rdf:type', iri('sosa:ObservableProperty'));
+    add(subject, 'rdfs:label', literal(column.label));
+    if (CF_STANDARD_NAMES[column.name]) add(subject, 'ocn:cfStandardName', literal(CF_STANDARD_NAMES[column.name]));
+    if (column.unit && QUDT_UNITS[column.unit]) add(subject, 'qudt:applicableUnit', iri(`unit:${QUDT_UNITS[column.unit]}`));
+  };
+
+  graph.nodes.forEach(node => {
+    const subject = iri(nodeIris.get(node.id) as string);
+    const label = String(node.value ?? node.id);
+    switch (node.type) {
+      case 'region':
+        add(subject, 'rdf:type', iri('sosa:FeatureOfInterest'));
+        add(subject, 'rdfs:label', literal(label));
+        break;
+      case 'parameter':
+      case 'biology':
+        describeProperty(columns.get(label) ?? { name: label, label, type: 'number', role: 'physical' });
+        break;
+      case 'time': {
+        add(subject, 'rdf:type', iri('time:ProperInterval'));
+        add(subject, 'rdfs:label', literal(label));
+        const beginning = blank();
+        add(subject, 'time:hasBeginning', beginning);
+        add(beginning, 'rdf:type', iri('time:Instant'));
+        add(beginning, 'time:inXSDDate', literal(`${label}-01`, 'xsd:date'));
+        add(subject, 'time:hasXSDDuration', literal('P1M', 'xsd:duration'));
+        break;
+      }
+      case 'station':
+      case 'cast':
+      case 'observation':
+        add(subject, 'rdf:type', iri(DETAIL_CLASSES[node.type]));
+        add(subject, 'rdfs:label', literal(label));
+        if (node.latitude !== undefined && node.longitude !== undefined) {
+          const geometry = blank();
+          add(subject, 'geo:hasGeometry', geometry);
+          add(geometry, 'rdf:type', iri('sf:Point'));
+          add(geometry, 'geo:asWKT', literal(`POINT(${node.longitude} ${node.latitude})`, 'geo:wktLiteral'));
+        }
+        if (node.time) add(subject, 'ocn:sampledAt', literal(node.time));
+        if (node.count !== undefined) add(subject, 'ocn:recordCount', literal(node.count, 'xsd:integer'));
+        break;
+      default:
+        add(subject, 'rdfs:label', literal(label));
+    }
+    // Lets an import rebuild the graph with the same node ids
+    add(subject, 'ocn:nodeId', literal(node.id));
+    add(subject, 'ocn:nodeType', literal(node.type));
+  });
+
+  graph.links.forEach((link: GraphLink, index) => {
+    const source = iri(nodeIris.get(endId(link.source)) ?? `kg:node-${slug(endId(link.source))}`);
+    const target = iri(nodeIris.get(endId(link.target)) ?? `kg:node-${slug(endId(link.target))}`);
+    if (link.stats) {
+      const association = iri(`kg:association-${index}`);
+      add(association, 'rdf:type', iri('ocn:StatisticalAssociation'));
+      add(association, 'ocn:between', source);
+      add(association, 'ocn:between', target);
+      add(association, 'ocn:method', literal(link.stats.method));
+      add(association, 'ocn:statistic', literal(link.stats.statistic, 'xsd:double'));
+      add(association, 'ocn:pValue', literal(link.stats.p, 'xsd:double'));
+      add(association, 'ocn:sampleSize', literal(link.stats.n, 'xsd:integer'));
+      add(association, 'ocn:direction', literal(link.stats.direction));
+      add(association, 'ocn:weight', literal(link.value, 'xsd:double'));
+      return;
+    }
+    switch (link.type) {
+      case 'parameter':
+      case 'biology':
+        add(source, 'ssn:hasProperty', target);
+        break;
+      case 'temporal':
+        // Stored month → region; stated the other way round
+        add(target, 'ocn:sampledDuring', source);
+        break;
+      case 'station':
+      case 'cast':
+      case 'observation':
+        add(source, 'ocn:hasPart', target);
+        break;
+      default:
+        add(source, 'ocn:relatedTo', target);
+    }
+  });
+
+  if (includeObservations) {
+    const measured = numericColumns(dataset).filter(c => c.name !== 'latitude' && c.name !== 'longitude');
+    measured.forEach(describeProperty);
+
+    dataset.records.forEach((record, index) => {
+      const sample = iri(`kg:sample-${index}`);
+      add(sample, 'rdf:type', iri('sosa:Sample'));
+      add(sample, 'sosa:isSampleOf', iri(`kg:region-${slug(record.region)}`));
+      const latitude = numericValue(record, 'latitude');
+      const longitude = numericValue(record, 'longitude');
+      if (!isNaN(latitude) && !isNaN(longitude)) {
+        const point = iri(`kg:point-${index}`);
+        add(sample, 'geo:hasGeometry', point);
+        add(point, 'rdf:type', iri('sf:Point'));
+        add(point, 'geo:asWKT', literal(`POINT(${longitude} ${latitude})`, 'geo:wktLiteral'));
+      }
+      const time = recordTime(record);
+
+      measured.forEach(column => {
+        const value = numericValue(record, column.name);
+        if (isNaN(value)) return;
+        const observation = iri(`kg:observation-${index}-${slug(column.name)}`);
+        add(observation, 'rdf:type', iri('sosa:Observation'));
+        add(observation, 'sosa:observedProperty', iri(propertyIri(column.name)));
+        add(observation, 'sosa:hasFeatureOfInterest', sample);
+        if (!isNaN(time)) add(observation, 'sosa:resultTime', literal(new Date(time).toISOString(), 'xsd:dateTime'));
+        const result = blank();
+        add(observation, 'sosa:hasResult', result);
+        add(result, 'rdf:type', iri('qudt:QuantityValue'));
+        add(result, 'qudt:numericValue', literal(value, 'xsd:double'));
+        if (column.unit && QUDT_UNITS[column.unit]) add(result, 'qudt:unit', iri(`unit:${QUDT_UNITS[column.unit]}`));
+      });
+    });
+  }
+
+  return triples;
+};
+
+const escapeString = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t');
+
+const LOCAL_NAME = /^[A-Za-z0-9_]([A-Za-z0-9_.-]*[A-Za-z0-9_-])?$/;
+
+// Prefixed name for an IRI where the local part needs no escaping.
+const compact = (value: string): string | null => {
+  for (const [prefix, namespace] of Object.entries(PREFIXES)) {
+    if (value.startsWith(namespace) && LOCAL_NAME.test(value.slice(namespace.length))) {
+      return `${prefix}:${value.slice(namespace.length)}`;
+    }
+  }
+  return null;
+};
+
+const XSD_STRING = expand('xsd:string');
+
+const ntTerm = (term: RdfTerm): string => {
+  switch (term.kind) {
+    case 'iri':
+      return `<${term.value}>`;
+    case 'blank':
+      return `_:${term.value}`;
+    case 'literal':
+      return term.datatype === XSD_STRING
+        ? `"${escapeString(term.value)}"`
+        : `"${escapeString(term.value)}"^^<${term.datatype}>`;
+  }
+};
+
+const turtleTerm = (term: RdfTerm): string => {
+  if (term.kind === 'iri') return compact(term.value) ?? `<${term.value}>`;
+  if (term.kind === 'literal' && term.datatype !== XSD_STRING) {
+    return `"${escapeString(term.value)}"^^${compact(term.datatype) ?? `<${term.datatype}>`}`;
+  }
+  return ntTerm(term);
+};
+
+const bySubject = (triples: Triple[]): Map<string, Triple[]> => {
+  const groups = new Map<string, Triple[]>();
+  triples.forEach(triple => {
+    const key = ntTerm(triple.subject);
+    const group = groups.get(key) ?? [];
+    group.push(triple);
+    groups.set(key, group);
+  });
+  return groups;
+};
+
+export const toNTriples = (triples: Triple[]): string =>
+  triples.map(t => `${ntTerm(t.subject)} ${ntTerm(t.predicate)} ${ntTerm(t.object)} .`).join('\n') + '\n';
+
+export const toTurtle = (triples: Triple[]): string => {
+  const RDF_TYPE = expand('rdf:type');
+  const header = Object.entries(PREFIXES).map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`);
+
+  const blocks = [...bySubject(triples).values()].map(group => {
+    // Objects of the same predicate are joined with commas
+    const predicates = new Map<string, string[]>();
+    group.forEach(({ predicate, object }) => {
+      const key = predicate.value === RDF_TYPE ? 'a' : turtleTerm(predicate);
+      predicates.set(key, [...(predicates.get(key) ?? []), turtleTerm(object)]);
+    });
+    const lines = [...predicates.entries()].map(([predicate, objects]) => `    ${predicate} ${objects.join(', ')}`);
+    return `${turtleTerm(group[0].subject)}\n${lines.join(' ;\n')} .`;
+  });
+
+  return `${header.join('\n')}\n\n${blocks.join('\n\n')}\n`;
+};
+
+const jsonLdTerm = (term: RdfTerm): Record<string, string> => {
+  switch (term.kind) {
+    case 'iri':
+      return { '@id': compact(term.value) ?? term.value };
+    case 'blank':
+      return { '@id': `_:${term.value}` };
+    case 'literal':
+      return term.datatype === XSD_STRING
+        ? { '@value': term.value }
+        : { '@value': term.value, '@type': compact(term.datatype) ?? term.datatype };
+  }
+};
+
+/** Flattened JSON-LD: one node object per subject, with the prefixes as context. */
+export const toJsonLd = (triples: Triple[]): string => {
+  const RDF_TYPE = expand('rdf:type');
+  const nodes = [...bySubject(triples).values()].map(group => {
+    const node: Record<string, unknown> = { '@id': jsonLdTerm(group[0].subject)['@id'] };
+    group.forEach(({ predicate, object }) => {
+      if (predicate.value === RDF_TYPE) {
+        node['@type'] = [...((node['@type'] as string[]) ?? []), jsonLdTerm(object)['@id']];
+        return;
+      }
+      const key = compact(predicate.value) ?? predicate.value;
+      node[key] = [...((node[key] as unknown[]) ?? []), jsonLdTerm(object)];
+    });
+    return node;
+  });
+  return JSON.stringify({ '@context': PREFIXES, '@graph': nodes }, null, 2);
+};
+
+export const serializeRdf = (triples: Triple[], format: RdfFormat): string => {
+  switch (format) {
+    case 'turtle':
+      return toTurtle(triples);
+    case 'ntriples':
+      return toNTriples(triples);
+    case 'jsonld':
+      return toJsonLd(triples);
+  }
+};
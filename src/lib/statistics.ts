@@ -0,0 +1,134 @@
+import { OceanRecord, numericValue } from '@/lib/dataset';
+
+export interface DescriptiveStats {
+  count: number;
+  missing: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  std: number;
+  q1: number;
+  q3: number;
+  skewness: number;
+}
+
+// Tukey box plot: whiskers reach the most extreme values within 1.5 IQR of the box.
+export interface BoxPlotSummary {
+  lowerWhisker: number;
+  q1: number;
+  median: number;
+  q3: number;
+  upperWhisker: number;
+  outliers: number;
+}
+
+export interface HistogramBin {
+  x0: number;
+  x1: number;
+  count: number;
+}
+
+const MAX_BINS = 40;
+
+/**
+ * Quantile of ascending-sorted values, interpolating between the closest
+ * ranks (the default in R, NumPy and Excel).
+ */
+export const quantile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const fraction = position - lower;
+  return lower + 1 < sorted.length ? sorted[lower] + fraction * (sorted[lower + 1] - sorted[lower]) : sorted[lower];
+};
+
+// Four significant digits, with a dash for missing values.
+export const formatStat = (value: number): string =>
+  isNaN(value) ? '—' : Number(value.toPrecision(4)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+export const sortedValues = (records: OceanRecord[], column: string): { values: number[]; missing: number } => {
+  const values: number[] = [];
+  let missing = 0;
+  records.forEach(record => {
+    const value = numericValue(record, column);
+    if (isNaN(value)) missing++;
+    else values.push(value);
+  });
+  return { values: values.sort((a, b) => a - b), missing };
+};
+
+/**
+ * Summary of a numeric column. The standard deviation is the sample (n − 1)
+ * estimate and skewness the adjusted Fisher–Pearson coefficient, matching
+ * what spreadsheets and pandas report.
+ */
+export const describe = (sorted: number[], missing: number): DescriptiveStats => {
+  const n = sorted.length;
+  const mean = n === 0 ? NaN : sorted.reduce((a, b) => a + b, 0) / n;
+
+  let m2 = 0;
+  let m3 = 0;
+  sorted.forEach(value => {
+    const d = value - mean;
+    m2 += d * d;
+    m3 += d * d * d;
+  });
+  const std = n > 1 ? Math.sqrt(m2 / (n - 1)) : NaN;
+  const populationM2 = m2 / n;
+  const skewness = n > 2 && populationM2 > 0
+    ? ((m3 / n) / Math.pow(populationM2, 1.5)) * (Math.sqrt(n * (n - 1)) / (n - 2))
+    : NaN;
+
+  return {
+    count: n,
+    missing,
+    min: n === 0 ? NaN : sorted[0],
+    max: n === 0 ? NaN : sorted[n - 1],
+    mean,
+    median: quantile(sorted, 0.5),
+    std,
+    q1: quantile(sorted, 0.25),
+    q3: quantile(sorted, 0.75),
+    skewness,
+  };
+};
+
+export const boxPlotSummary = (sorted: number[]): BoxPlotSummary => {
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const inside = sorted.filter(v => v >= q1 - 1.5 * iqr && v <= q3 + 1.5 * iqr);
+  return {
+    lowerWhisker: inside.length > 0 ? inside[0] : q1,
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    upperWhisker: inside.length > 0 ? inside[inside.length - 1] : q3,
+    outliers: sorted.length - inside.length,
+  };
+};
+
+/**
+ * Equal-width bin edges for a range. Sturges' rule picks the bin count, capped
+ * so large datasets stay readable.
+ */
+export const binEdges = (min: number, max: number, n: number): number[] => {
+  if (n === 0 || isNaN(min) || isNaN(max)) return [];
+  if (min === max) return [min - 0.5, max + 0.5];
+  const bins = Math.min(MAX_BINS, Math.ceil(Math.log2(n)) + 1);
+  const width = (max - min) / bins;
+  return Array.from({ length: bins + 1 }, (_, i) => (i === bins ? max : min + i * width));
+};
+
+// Counts per bin; the last bin includes its upper edge so the maximum is counted.
+export const histogram = (sorted: number[], edges: number[]): HistogramBin[] => {
+  const bins = edges.slice(0, -1).map((x0, i) => ({ x0, x1: edges[i + 1], count: 0 }));
+  if (bins.length === 0) return bins;
+  const width = (edges[edges.length - 1] - edges[0]) / bins.length;
+  sorted.forEach(value => {
+    const index = Math.min(bins.length - 1, Math.floor((value - edges[0]) / width));
+    if (index >= 0) bins[index].count++;
+  });
+  return bins;
+};
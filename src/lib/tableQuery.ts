@@ -0,0 +1,104 @@
+import { CellValue, ColumnSchema, OceanRecord } from '@/lib/dataset';
+
+// Filter shapes follow the column type: ranges for numbers and dates, a value
+// set for categories and a substring match for free text.
+export type ColumnFilter =
+  | { kind: 'range'; min: number | null; max: number | null }
+  | { kind: 'dateRange'; from: string | null; to: string | null }
+  | { kind: 'values'; values: string[] }
+  | { kind: 'text'; query: string };
+
+export type TableFilters = Record<string, ColumnFilter>;
+
+export interface TableSort {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+// Categories with more distinct values than this are filtered as free text.
+export const MAX_FILTER_VALUES = 200;
+
+export const isFilterActive = (filter: ColumnFilter | undefined): boolean => {
+  if (!filter) return false;
+  switch (filter.kind) {
+    case 'range': return filter.min !== null || filter.max !== null;
+    case 'dateRange': return filter.from !== null || filter.to !== null;
+    case 'values': return filter.values.length > 0;
+    case 'text': return filter.query.trim() !== '';
+  }
+};
+
+export const matchesFilter = (value: CellValue, filter: ColumnFilter): boolean => {
+  switch (filter.kind) {
+    case 'range': {
+      if (typeof value !== 'number' || isNaN(value)) return false;
+      return (filter.min === null || value >= filter.min) && (filter.max === null || value <= filter.max);
+    }
+    case 'dateRange': {
+      // ISO dates compare correctly as strings; the filter bounds are whole days
+      const day = String(value ?? '').substring(0, 10);
+      if (!day) return false;
+      return (filter.from === null || day >= filter.from) && (filter.to === null || day <= filter.to);
+    }
+    case 'values':
+      return filter.values.includes(String(value ?? ''));
+    case 'text':
+      return String(value ?? '').toLowerCase().includes(filter.query.trim().toLowerCase());
+  }
+};
+
+const isMissing = (value: CellValue): boolean =>
+  value === null || value === undefined || value === '' || (typeof value === 'number' && isNaN(value));
+
+const compareCells = (a: CellValue, b: CellValue): number => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+/**
+ * Indices of the records that pass every active filter, in sort order.
+ * Missing values sort last in both directions.
+ */
+export const queryRows = (records: OceanRecord[], filters: TableFilters, sort: TableSort | null): number[] => {
+  const active = Object.entries(filters).filter(([, filter]) => isFilterActive(filter));
+  const indices: number[] = [];
+  // The sort column is read in the same pass; looking a row up again may build it again
+  const keys: CellValue[] = [];
+  records.forEach((record, index) => {
+    if (!active.every(([column, filter]) => matchesFilter(record[column], filter))) return;
+    indices.push(index);
+    if (sort) keys.push(record[sort.column]);
+  });
+  if (!sort) return indices;
+
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const order = indices.map((_, position) => position);
+  order.sort((p, q) => {
+    const a = keys[p];
+    const b = keys[q];
+    if (isMissing(a) || isMissing(b)) return Number(isMissing(a)) - Number(isMissing(b)) || p - q;
+    return sign * compareCells(a, b) || p - q;
+  });
+  return order.map(position => indices[position]);
+};
+
+/**
+ * Filter to start from when a column's filter is first opened.
+ * `distinctValues` decides whether a string column gets a value list.
+ */
+export const emptyFilterFor = (column: ColumnSchema, distinctValues: number): ColumnFilter => {
+  if (column.type === 'number') return { kind: 'range', min: null, max: null };
+  if (column.type === 'date') return { kind: 'dateRange', from: null, to: null };
+  if (column.role === 'categorical' && distinctValues <= MAX_FILTER_VALUES) return { kind: 'values', values: [] };
+  return { kind: 'text', query: '' };
+};
+
+export const distinctValues = (records: OceanRecord[], column: string): string[] => {
+  const values = new Set<string>();
+  for (const record of records) {
+    values.add(String(record[column] ?? ''));
+    // Past the cap the column is filtered as text, so the exact count doesn't matter
+    if (values.size > MAX_FILTER_VALUES) break;
+  }
+  return [...values].sort();
+};
@@ -0,0 +1,77 @@
+import { OceanRecord, numericValue, parseTime } from '@/lib/dataset';
+
+export type TimeBucket = 'day' | 'week' | 'month';
+
+export const TIME_BUCKETS: TimeBucket[] = ['day', 'week', 'month'];
+
+export interface BucketStats {
+  mean: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+// One aggregation period, with statistics per group (region).
+export interface TimeSeriesBucket {
+  // Start of the period, UTC milliseconds
+  time: number;
+  groups: Record<string, BucketStats>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Falls back to the date column for sources whose timestamps didn't parse.
+// Times without an offset are UTC, matching the UTC buckets below.
+export const recordTime = (record: OceanRecord): number => {
+  const time = parseTime(record.timestamp);
+  return isNaN(time) ? parseTime(record.date) : time;
+};
+
+/** Start of the day, ISO week (Monday) or month containing `time`, in UTC. */
+export const bucketStart = (time: number, bucket: TimeBucket): number => {
+  const date = new Date(time);
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  switch (bucket) {
+    case 'day':
+      return day;
+    case 'week':
+      return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+    case 'month':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+};
+
+export const formatBucket = (time: number, bucket: TimeBucket): string =>
+  new Date(time).toISOString().slice(0, bucket === 'month' ? 7 : 10);
+
+/**
+ * Mean, min and max of `variable` per period and region. Records without a
+ * time or a value are left out; periods without any value are omitted.
+ */
+export const aggregateSeries = (records: OceanRecord[], variable: string, bucket: TimeBucket): TimeSeriesBucket[] => {
+  const buckets = new Map<number, Record<string, BucketStats & { sum: number }>>();
+  records.forEach(record => {
+    const time = recordTime(record);
+    const value = numericValue(record, variable);
+    if (isNaN(time) || isNaN(value)) return;
+
+    const start = bucketStart(time, bucket);
+    const groups = buckets.get(start) ?? {};
+    const stats = groups[record.region] ?? { mean: NaN, min: Infinity, max: -Infinity, count: 0, sum: 0 };
+    stats.sum += value;
+    stats.count++;
+    stats.min = Math.min(stats.min, value);
+    stats.max = Math.max(stats.max, value);
+    groups[record.region] = stats;
+    buckets.set(start, groups);
+  });
+
+  return [...buckets.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([time, groups]) => ({
+      time,
+      groups: Object.fromEntries(
+        Object.entries(groups).map(([group, { sum, ...stats }]) => [group, { ...stats, mean: sum / stats.count }]),
+      ),
+    }));
+};
@@ -0,0 +1,337 @@
+import { ColumnSchema, OceanRecord, parseNumber } from '@/lib/dataset';
+import { CellEdit, recordView, rowAt, selectRows, tableOf, updateCells } from '@/lib/columnar';
+
+export type IssueKind = 'missing' | 'non_numeric' | 'out_of_range' | 'invalid_date' | 'malformed_row';
+
+export interface ValidationIssue {
+  // 1-based data row (the header line is not counted).
+  row: number;
+  // Empty for issues with the row as a whole
+  column: string;
+  value: string;
+  kind: IssueKind;
+  message: string;
+}
+
+/**
+ * Issue and row counts are exact; the issue list is capped so validating a
+ * file with millions of bad cells stays bounded. Invalid rows are kept as one
+ * bit per row, which is small enough to cover every row.
+ */
+export interface ValidationReport {
+  rowCount: number;
+  issueCount: number;
+  issues: ValidationIssue[];
+  countsByKind: Partial<Record<IssueKind, number>>;
+  countsByColumn: Record<string, number>;
+  // Bit row - 1 is set for each row with an issue; see isRowInvalid
+  invalidRows: Uint8Array;
+  invalidRowCount: number;
+  truncated: boolean;
+}
+
+// How rows with remaining issues are handled on import.
+export type IssueResolution = 'drop' | 'missing';
+
+export const ISSUE_LABELS: Record<IssueKind, string> = {
+  missing: 'Missing value',
+  non_numeric: 'Not a number',
+  out_of_range: 'Out of range',
+  invalid_date: 'Unparseable date',
+  malformed_row: 'Malformed row',
+};
+
+const MAX_REPORTED_ISSUES = 50000;
+
+// A record can't be placed without these; any other empty cell is simply a
+// variable that wasn't sampled there and loads as a missing value
+const REQUIRED_VALUES = ['latitude', 'longitude', 'timestamp', 'date'];
+
+type RawRow = Record<string, unknown>;
+
+const cellText = (raw: unknown): string => (raw === null || raw === undefined ? '' : String(raw).trim());
+
+const formatRange = ([min, max]: [number, number]): string =>
+  max === Infinity ? `≥ ${min}` : `${min} to ${max}`;
+
+export const validateCell = (raw: unknown, column: ColumnSchema): Omit<ValidationIssue, 'row' | 'column'> | null => {
+  const value = cellText(raw);
+
+  if (value === '' || (typeof raw === 'number' && isNaN(raw))) {
+    if (!REQUIRED_VALUES.includes(column.name)) return null;
+    return { value: '', kind: 'missing', message: `${column.label} is empty` };
+  }
+
+  if (column.type === 'number') {
+    const n = parseNumber(value);
+    if (isNaN(n)) {
+      return { value, kind: 'non_numeric', message: `"${value}" is not a number` };
+    }
+    if (column.validRange && (n < column.validRange[0] || n > column.validRange[1])) {
+      return {
+        value,
+        kind: 'out_of_range',
+        message: `${column.label} must be ${formatRange(column.validRange)}${column.unit ? ` ${column.unit}` : ''}`,
+      };
+    }
+  }
+
+  if (column.type === 'date' && isNaN(Date.parse(value))) {
+    return { value, kind: 'invalid_date', message: `"${value}" is not a recognizable date` };
+  }
+
+  return null;
+};
+
+export const emptyReport = (): ValidationReport => ({
+  rowCount: 0,
+  issueCount: 0,
+  issues: [],
+  countsByKind: {},
+  countsByColumn: {},
+  invalidRows: new Uint8Array(0),
+  invalidRowCount: 0,
+  truncated: false,
+});
+
+export const isRowInvalid = (report: ValidationReport, row: number): boolean =>
+  ((report.invalidRows[(row - 1) >> 3] ?? 0) & (1 << ((row - 1) & 7))) !== 0;
+
+// Grown in doubling steps so marking rows one by one stays linear
+const withLength = (bits: Uint8Array, length: number): Uint8Array => {
+  if (length <= bits.length) return bits;
+  const grown = new Uint8Array(Math.max(length, bits.length * 2));
+  grown.set(bits);
+  return grown;
+};
+
+const bitCount = (byte: number): number => {
+  let count = 0;
+  for (let rest = byte; rest; rest &= rest - 1) count++;
+  return count;
+};
+
+const markRowInvalid = (report: ValidationReport, row: number) => {
+  if (isRowInvalid(report, row)) return;
+  report.invalidRows = withLength(report.invalidRows, ((row - 1) >> 3) + 1);
+  report.invalidRows[(row - 1) >> 3] |= 1 << ((row - 1) & 7);
+  report.invalidRowCount++;
+};
+
+const addIssue = (report: ValidationReport, issue: ValidationIssue) => {
+  report.issueCount++;
+  report.countsByKind[issue.kind] = (report.countsByKind[issue.kind] ?? 0) + 1;
+  if (issue.column) report.countsByColumn[issue.column] = (report.countsByColumn[issue.column] ?? 0) + 1;
+  markRowInvalid(report, issue.row);
+  if (report.issues.length < MAX_REPORTED_ISSUES) {
+    report.issues.push(issue);
+  } else {
+    report.truncated = true;
+  }
+};
+
+/**
+ * Check every cell of the raw rows against its column schema, before any
+ * numeric conversion happens. `rowOffset` numbers rows of a later chunk.
+ * Columns absent from the rows (e.g. skipped while mapping) are not checked.
+ */
+export const validateRows = (rows: RawRow[], columns: ColumnSchema[], rowOffset = 0): ValidationReport => {
+  const report = emptyReport();
+  report.rowCount = rows.length;
+  const provided = rows.length > 0 ? columns.filter(column => column.name in rows[0]) : [];
+
+  rows.forEach((row, index) => {
+    provided.forEach(column => {
+      const issue = validateCell(row[column.name], column);
+      if (issue) addIssue(report, { ...issue, row: rowOffset + index + 1, column: column.name });
+    });
+  });
+
+  return report;
+};
+
+/**
+ * Rows the CSV parser couldn't split cleanly, such as a ragged row with too
+ * few or too many fields. They are reported rather than failing the import.
+ * Error rows are 0-based from the first data row.
+ */
+export const malformedRows = (errors: { row?: number; message: string }[]): ValidationReport => {
+  const report = emptyReport();
+  errors.forEach(error => {
+    if (error.row === undefined) return;
+    addIssue(report, { row: error.row + 1, column: '', value: '', kind: 'malformed_row', message: error.message });
+  });
+  return report;
+};
+
+// Fold the report of a later chunk into the running report.
+export const mergeReports = (report: ValidationReport, chunk: ValidationReport): ValidationReport => {
+  const room = MAX_REPORTED_ISSUES - report.issues.length;
+  // Rows of a chunk may already be known, as when a malformed row also has invalid cells
+  const invalidRows = withLength(report.invalidRows, chunk.invalidRows.length);
+  let invalidRowCount = report.invalidRowCount;
+  chunk.invalidRows.forEach((bits, i) => {
+    invalidRowCount += bitCount(bits & ~invalidRows[i]);
+    invalidRows[i] |= bits;
+  });
+  (Object.keys(chunk.countsByKind) as IssueKind[]).forEach(kind => {
+    report.countsByKind[kind] = (report.countsByKind[kind] ?? 0) + chunk.countsByKind[kind];
+  });
+  Object.entries(chunk.countsByColumn).forEach(([column, count]) => {
+    report.countsByColumn[column] = (report.countsByColumn[column] ?? 0) + count;
+  });
+  return {
+    ...report,
+    rowCount: report.rowCount + chunk.rowCount,
+    issueCount: report.issueCount + chunk.issueCount,
+    invalidRows,
+    invalidRowCount,
+    issues: room > 0 ? [...report.issues, ...chunk.issues.slice(0, room)] : report.issues,
+    truncated: report.truncated || chunk.truncated || chunk.issues.length > room,
+  };
+};
+
+export const issueKey = (row: number, column: string): string => `${row}:${column}`;
+
+const parseFix = (value: string, column: ColumnSchema) =>
+  column.type === 'number' ? parseNumber(value) : value.trim();
+
+/**
+ * Re-check the cells the user corrected (keyed by `issueKey`). Fixed issues are
+ * removed and rows left without issues stop counting as invalid.
+ */
+export const applyFixesToReport = (
+  report: ValidationReport,
+  fixes: Record<string, string>,
+  columns: ColumnSchema[],
+): ValidationReport => {
+  if (Object.keys(fixes).length === 0) return report;
+
+  const fixed = emptyReport();
+  fixed.rowCount = report.rowCount;
+  fixed.truncated = report.truncated;
+  fixed.invalidRows = report.invalidRows.slice();
+  fixed.invalidRowCount = report.invalidRowCount;
+  fixed.countsByKind = { ...report.countsByKind };
+  fixed.countsByColumn = { ...report.countsByColumn };
+  fixed.issueCount = report.issueCount;
+
+  const touchedRows = new Set<number>();
+  report.issues.forEach(issue => {
+    const key = issueKey(issue.row, issue.column);
+    // A malformed row has no single cell to correct
+    if (!(key in fixes) || !issue.column) {
+      fixed.issues.push(issue);
+      return;
+    }
+    touchedRows.add(issue.row);
+    fixed.issueCount--;
+    fixed.countsByKind[issue.kind]--;
+    fixed.countsByColumn[issue.column]--;
+
+    const column = columns.find(c => c.name === issue.column);
+    const recheck = column && validateCell(fixes[key], column);
+    if (recheck) {
+      fixed.issues.push({ ...recheck, row: issue.row, column: issue.column });
+      fixed.issueCount++;
+      fixed.countsByKind[recheck.kind] = (fixed.countsByKind[recheck.kind] ?? 0) + 1;
+      fixed.countsByColumn[issue.column]++;
+    }
+  });
+
+  touchedRows.forEach(row => {
+    if (fixed.issues.some(issue => issue.row === row) || !isRowInvalid(fixed, row)) return;
+    fixed.invalidRows[(row - 1) >> 3] &= ~(1 << ((row - 1) & 7));
+    fixed.invalidRowCount--;
+  });
+  (Object.keys(fixed.countsByKind) as IssueKind[]).forEach(kind => {
+    if (!fixed.countsByKind[kind]) delete fixed.countsByKind[kind];
+  });
+  Object.keys(fixed.countsByColumn).forEach(column => {
+    if (!fixed.countsByColumn[column]) delete fixed.countsByColumn[column];
+  });
+
+  return fixed;
+};
+
+// Write user corrections into the converted records.
+export const applyFixesToRecords = (
+  records: OceanRecord[],
+  fixes: Record<string, string>,
+  columns: ColumnSchema[],
+): OceanRecord[] => {
+  if (Object.keys(fixes).length === 0) return records;
+  const edits: CellEdit[] = [];
+  Object.entries(fixes).forEach(([key, value]) => {
+    const separator = key.indexOf(':');
+    const index = Number(key.slice(0, separator)) - 1;
+    const column = columns.find(c => c.name === key.slice(separator + 1));
+    if (!column || index < 0 || index >= records.length) return;
+    edits.push({ index, column: column.name, value: parseFix(value, column) });
+  });
+
+  // Columnar imports stay columnar rather than being copied row by row
+  const table = tableOf(records);
+  if (table) return recordView(updateCells(table, edits));
+  const next = [...records];
+  edits.forEach(({ index, column, value }) => {
+    next[index] = { ...next[index], [column]: value };
+  });
+  return next;
+};
+
+/**
+ * Resolve remaining issues: either drop the affected rows or blank every
+ * invalid cell of those rows so it loads as a missing value. Rows are picked
+ * from the flags set during validation, since a bad number has already become
+ * a missing value in the converted records.
+ */
+export const resolveIssues = (
+  records: OceanRecord[],
+  report: ValidationReport,
+  resolution: IssueResolution,
+  columns: ColumnSchema[],
+): OceanRecord[] => {
+  const invalidColumns = (record: OceanRecord) => columns.filter(column => validateCell(record[column.name], column));
+  const blank = (record: OceanRecord, column: ColumnSchema) =>
+    column.type === 'number' ? NaN : column.type === 'date' ? '' : record[column.name];
+  const table = tableOf(records);
+
+  if (resolution === 'drop') {
+    return table
+      ? recordView(selectRows(table, index => !isRowInvalid(report, index + 1)))
+      : records.filter((_, index) => !isRowInvalid(report, index + 1));
+  }
+
+  if (table) {
+    const edits: CellEdit[] = [];
+    for (let index = 0; index < table.rowCount; index++) {
+      if (!isRowInvalid(report, index + 1)) continue;
+      const record = rowAt(table, index);
+      invalidColumns(record).forEach(column => edits.push({ index, column: column.name, value: blank(record, column) }));
+    }
+    return recordView(updateCells(table, edits));
+  }
+
+  return records.map((record, index) => {
+    if (!isRowInvalid(report, index + 1)) return record;
+    const cleaned = { ...record };
+    invalidColumns(record).forEach(column => {
+      cleaned[column.name] = blank(record, column);
+    });
+    return cleaned;
+  });
+};
+
+export const csvEscape = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const reportToCSV = (report: ValidationReport): string =>
+  [
+    ['row', 'column', 'value', 'issue', 'message'].join(','),
+    ...report.issues.map(issue =>
+      [issue.row, issue.column, issue.value, ISSUE_LABELS[issue.kind], issue.message].map(csvEscape).join(','),
+    ),
+  ].join('\n');
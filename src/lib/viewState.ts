@@ -0,0 +1,55 @@
+import { CellValue, OceanDataset } from '@/lib/dataset';
+import { columnReader, selectRows, tableOf, tableToDataset } from '@/lib/columnar';
+import { GeoPolygon, inArea } from '@/lib/geo';
+
+export type ViewTab = 'upload' | 'preview' | 'map' | 'graph' | 'chat';
+
+export const VIEW_TABS: ViewTab[] = ['upload', 'preview', 'map', 'graph', 'chat'];
+
+// Filters shared by every view and encoded in the URL query.
+export interface ViewFilters {
+  region: string | null;
+  // YYYY-MM
+  month: string | null;
+  // Box or lasso selection drawn on the map.
+  area: GeoPolygon | null;
+}
+
+export const NO_FILTERS: ViewFilters = { region: null, month: null, area: null };
+
+export const isViewTab = (value: string | undefined): value is ViewTab =>
+  VIEW_TABS.includes(value as ViewTab);
+
+export const hasFilters = (filters: ViewFilters): boolean =>
+  filters.region !== null || filters.month !== null || filters.area !== null;
+
+export const workspacePath = (workspaceId: string, tab?: ViewTab): string =>
+  `/w/${encodeURIComponent(workspaceId)}${tab ? `/${tab}` : ''}`;
+
+const matchesFilters = (filters: ViewFilters, region: CellValue, date: CellValue, latitude: CellValue, longitude: CellValue): boolean =>
+  (filters.region === null || region === filters.region) &&
+  (filters.month === null || String(date ?? '').startsWith(filters.month)) &&
+  (filters.area === null || inArea(Number(latitude ?? NaN), Number(longitude ?? NaN), filters.area));
+
+/**
+ * The rows inside the filters. Columnar datasets are filtered column by column
+ * and stay columnar, so no row object is built along the way.
+ */
+export const filterDataset = (dataset: OceanDataset, filters: ViewFilters): OceanDataset => {
+  if (!hasFilters(filters)) return dataset;
+  const table = tableOf(dataset.records);
+  if (!table) {
+    return {
+      ...dataset,
+      records: dataset.records.filter(record =>
+        matchesFilters(filters, record.region, record.date, record.latitude, record.longitude),
+      ),
+    };
+  }
+  const [region, date, latitude, longitude] = ['region', 'date', 'latitude', 'longitude'].map(name => columnReader(table, name));
+  const kept = selectRows(table, i => matchesFilters(filters, region(i), date(i), latitude(i), longitude(i)));
+  return { ...dataset, ...tableToDataset(kept) };
+};
+
+export const getMonths = (dataset: OceanDataset): string[] =>
+  [...new Set(dataset.records.map(r => r.date.substring(0, 7)).filter(Boolean))].sort();
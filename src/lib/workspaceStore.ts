@@ -0,0 +1,225 @@
+import { OceanDataset } from '@/lib/dataset';
+import { ColumnarTable, recordView, tableOf } from '@/lib/columnar';
+import { KnowledgeGraphData, serializeGraph } from '@/lib/graph';
+import { SavedQuery } from '@/lib/graphQuery';
+import { ViewTab } from '@/lib/viewState';
+
+export interface ChatMessage {
+  id: string;
+  type: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+}
+
+export interface WorkspaceSettings {
+  activeTab: ViewTab;
+  // Graph queries kept by name in the query panel
+  savedQueries?: SavedQuery[];
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  recordCount: number;
+  sourceCount: number;
+}
+
+export interface Workspace {
+  summary: WorkspaceSummary;
+  dataset: OceanDataset | null;
+  graph: KnowledgeGraphData | null;
+  chat: ChatMessage[];
+  settings: WorkspaceSettings;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const DB_NAME = 'oceanic';
+const DB_VERSION = 1;
+
+// Summaries are keyed by their id; every other store is keyed by workspace id.
+const SUMMARIES = 'workspaces';
+const DATASETS = 'datasets';
+const GRAPHS = 'graphs';
+const CHATS = 'chats';
+const SETTINGS = 'settings';
+const CONTENT_STORES = [DATASETS, GRAPHS, CHATS, SETTINGS];
+
+export const DEFAULT_SETTINGS: WorkspaceSettings = { activeTab: 'upload' };
+
+// A record view can't be cloned into IndexedDB, so columnar datasets are stored as their table
+interface StoredDataset extends OceanDataset {
+  table?: ColumnarTable;
+}
+
+const toStored = (dataset: OceanDataset): StoredDataset => {
+  const table = tableOf(dataset.records);
+  return table ? { ...dataset, records: [], table } : dataset;
+};
+
+const fromStored = ({ table, ...dataset }: StoredDataset): OceanDataset =>
+  table ? { ...dataset, records: recordView(table) } : dataset;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+        CONTENT_STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry, e.g. after the user re-enables storage
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+
+/**
+ * Write one piece of workspace content and bump the workspace's summary in
+ * the same transaction.
+ */
+const writeContent = async (
+  id: string,
+  store: string,
+  value: unknown,
+  updateSummary: (summary: WorkspaceSummary) => WorkspaceSummary = summary => summary,
+): Promise<WorkspaceSummary> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, store], 'readwrite');
+  const summaries = transaction.objectStore(SUMMARIES);
+
+  const current = await requestResult<WorkspaceSummary | undefined>(summaries.get(id));
+  if (!current) throw new Error(`Workspace ${id} does not exist`);
+
+  const summary = { ...updateSummary(current), updatedAt: new Date().toISOString() };
+  summaries.put(summary);
+  if (value === null) transaction.objectStore(store).delete(id);
+  else transaction.objectStore(store).put(value, id);
+
+  await transactionDone(transaction);
+  return summary;
+};
+
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const db = await openDatabase();
+  const summaries = await requestResult<WorkspaceSummary[]>(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const createWorkspace = async (name: string): Promise<WorkspaceSummary> => {
+  const db = await openDatabase();
+  const now = new Date().toISOString();
+  const summary: WorkspaceSummary = {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    recordCount: 0,
+    sourceCount: 0,
+  };
+
+  const transaction = db.transaction([SUMMARIES, SETTINGS], 'readwrite');
+  transaction.objectStore(SUMMARIES).add(summary);
+  transaction.objectStore(SETTINGS).put(DEFAULT_SETTINGS, summary.id);
+  await transactionDone(transaction);
+
+  // Ask the browser not to evict our data under storage pressure; it may say no
+  navigator.storage?.persist?.().catch(() => undefined);
+  return summary;
+};
+
+export const loadWorkspace = async (id: string): Promise<Workspace | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, ...CONTENT_STORES]);
+  const [summary, dataset, graph, chat, settings] = await Promise.all([
+    requestResult<WorkspaceSummary | undefined>(transaction.objectStore(SUMMARIES).get(id)),
+    requestResult<StoredDataset | undefined>(transaction.objectStore(DATASETS).get(id)),
+    requestResult<KnowledgeGraphData | undefined>(transaction.objectStore(GRAPHS).get(id)),
+    requestResult<ChatMessage[] | undefined>(transaction.objectStore(CHATS).get(id)),
+    requestResult<WorkspaceSettings | undefined>(transaction.objectStore(SETTINGS).get(id)),
+  ]);
+  if (!summary) return null;
+
+  return {
+    summary,
+    dataset: dataset ? fromStored(dataset) : null,
+    graph: graph ?? null,
+    chat: chat ?? [],
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+  };
+};
+
+export const renameWorkspace = async (id: string, name: string): Promise<WorkspaceSummary> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(SUMMARIES, 'readwrite');
+  const summaries = transaction.objectStore(SUMMARIES);
+
+  const current = await requestResult<WorkspaceSummary | undefined>(summaries.get(id));
+  if (!current) throw new Error(`Workspace ${id} does not exist`);
+
+  const summary = { ...current, name, updatedAt: new Date().toISOString() };
+  summaries.put(summary);
+  await transactionDone(transaction);
+  return summary;
+};
+
+export const saveDataset = (id: string, dataset: OceanDataset | null): Promise<WorkspaceSummary> =>
+  writeContent(id, DATASETS, dataset && toStored(dataset), summary => ({
+    ...summary,
+    recordCount: dataset?.records.length ?? 0,
+    sourceCount: dataset?.sources?.length ?? 0,
+  }));
+
+export const saveGraph = (id: string, graph: KnowledgeGraphData | null): Promise<WorkspaceSummary> =>
+  writeContent(id, GRAPHS, graph && serializeGraph(graph));
+
+export const saveChat = (id: string, messages: ChatMessage[]): Promise<WorkspaceSummary> =>
+  writeContent(id, CHATS, messages);
+
+export const saveSettings = (id: string, settings: WorkspaceSettings): Promise<WorkspaceSummary> =>
+  writeContent(id, SETTINGS, settings);
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARIES, ...CONTENT_STORES], 'readwrite');
+  [SUMMARIES, ...CONTENT_STORES].forEach(name => transaction.objectStore(name).delete(id));
+  await transactionDone(transaction);
+};
+
+/**
+ * Origin-wide usage and quota as reported by the browser, or null where the
+ * Storage API is unavailable.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
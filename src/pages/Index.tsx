@@ -1,49 +1,198 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { CSVUpload } from '@/components/CSVUpload';
 import { DataPreview } from '@/components/DataPreview';
 import { KnowledgeGraph } from '@/components/KnowledgeGraph';
 import { ChatInterface } from '@/components/ChatInterface';
+import { WorkspaceManager } from '@/components/WorkspaceManager';
+import { ViewFilterBar } from '@/components/ViewFilterBar';
+import { StatisticsPanel } from '@/components/StatisticsPanel';
+import { StationMap } from '@/components/StationMap';
+import { TimeSeriesPanel } from '@/components/TimeSeriesPanel';
+import { ProfilePanel } from '@/components/ProfilePanel';
+import { CorrelationPanel } from '@/components/CorrelationPanel';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Waves, Database, MessageSquare, Network, Upload } from 'lucide-react';
+import { Waves, Database, FileUp, MapPin, MessageSquare, Network, Upload } from 'lucide-react';
 import heroImage from '@/assets/hero-ocean.jpg';
+import { toast } from 'sonner';
+import { OceanDataset, OceanRecord, CORE_COLUMNS, formatColumnLabel } from '@/lib/dataset';
+import { KnowledgeGraphData } from '@/lib/graph';
+import { SavedQuery } from '@/lib/graphQuery';
+import { GRAPH_FILE_ACCEPT, GRAPH_FILE_LABELS, readGraphFile } from '@/lib/graphImport';
+import { ViewTab, filterDataset, hasFilters, isViewTab, workspacePath } from '@/lib/viewState';
+import { useViewParams } from '@/hooks/use-view-params';
+import {
+  ChatMessage,
+  DEFAULT_SETTINGS,
+  WorkspaceSettings,
+  WorkspaceSummary,
+  createWorkspace,
+  listWorkspaces,
+  loadWorkspace,
+  saveChat,
+  saveDataset,
+  saveGraph,
+  saveSettings,
+} from '@/lib/workspaceStore';
 
-interface CSVData {
-  latitude: number;
-  longitude: number;
-  region: string;
-  depth: number;
-  salinity: number;
-  temperature: number;
-  ph: number;
-  dissolved_oxygen: number;
-  fish_population: number;
-  plankton: number;
-  coral_coverage: number;
-  timestamp: string;
-  date: string;
-}
+// Stands in for the dataset of a workspace that only holds an imported graph
+const NO_DATA: OceanDataset = { columns: [], records: [] };
 
 const Index = () => {
-  const [csvData, setCsvData] = useState<CSVData[]>([]);
+  // The URL is the source of truth for which workspace and tab are shown
+  const { workspaceId, tab } = useParams<{ workspaceId?: string; tab?: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { filters, setFilters, selectedNodeId, setSelectedNodeId, zoom, setZoom, searchParams } = useViewParams();
+  const searchArea = searchParams.get('area');
+
+  const [workspace, setWorkspace] = useState<WorkspaceSummary | null>(null);
+  const [dataset, setDataset] = useState<OceanDataset | null>(null);
+  const [graph, setGraph] = useState<KnowledgeGraphData | null>(null);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const [settings, setSettings] = useState<WorkspaceSettings>(DEFAULT_SETTINGS);
   const [showKnowledgeGraph, setShowKnowledgeGraph] = useState(false);
-  const [activeTab, setActiveTab] = useState<'upload' | 'preview' | 'graph' | 'chat'>('upload');
+  const [highlightedRecord, setHighlightedRecord] = useState<OceanRecord | null>(null);
+  const graphInputRef = useRef<HTMLInputElement>(null);
+
+  const activeTab: ViewTab = isViewTab(tab) ? tab : 'upload';
+  const loadedWorkspaceId = workspace?.id;
+  const recordCount = dataset?.records.length ?? 0;
+  const filtersActive = hasFilters(filters);
+  const visibleDataset = useMemo(() => dataset && filterDataset(dataset, filters), [dataset, filters]);
+  // The map shows stations outside its own selection too, dimmed
+  const mapDataset = useMemo(
+    () => dataset && filterDataset(dataset, { ...filters, area: null }),
+    [dataset, filters],
+  );
+
+  // Saves run in the background; the returned summary keeps the workspace list current
+  const persist = useCallback((save: Promise<WorkspaceSummary>) => {
+    save.then(setWorkspace).catch(() => toast.error('Could not save the workspace'));
+  }, []);
+
+  const resetWorkspace = useCallback(() => {
+    setWorkspace(null);
+    setDataset(null);
+    setGraph(null);
+    setChat([]);
+    setSettings(DEFAULT_SETTINGS);
+  }, []);
+
+  // Load the workspace named in the path. The bare root reopens the most
+  // recent one so a refresh doesn't lose the session; /upload starts fresh.
+  useEffect(() => {
+    if (!workspaceId) {
+      if (loadedWorkspaceId) resetWorkspace();
+      if (location.pathname !== '/') return;
+      listWorkspaces()
+        .then(workspaces => {
+          if (workspaces.length > 0) navigate(workspacePath(workspaces[0].id), { replace: true });
+        })
+        .catch(() => toast.error('Saved workspaces are unavailable in this browser'));
+      return;
+    }
+    if (workspaceId === loadedWorkspaceId) return;
+
+    loadWorkspace(workspaceId)
+      .then(saved => {
+        if (!saved) {
+          toast.error('Workspace not found');
+          navigate('/upload', { replace: true });
+          return;
+        }
+        setWorkspace(saved.summary);
+        setDataset(saved.dataset);
+        setGraph(saved.graph);
+        setChat(saved.chat);
+        setSettings(saved.settings);
+      })
+      .catch(() => toast.error('Could not open the workspace'));
+  }, [workspaceId, loadedWorkspaceId, location.pathname, navigate, resetWorkspace]);
+
+  // A workspace path without a tab opens the tab that was last used there
+  useEffect(() => {
+    if (!workspaceId || workspaceId !== loadedWorkspaceId || isViewTab(tab)) return;
+    const restored = recordCount > 0 ? settings.activeTab : graph ? 'graph' : 'upload';
+    navigate({ pathname: workspacePath(workspaceId, restored), search: location.search }, { replace: true });
+  }, [workspaceId, loadedWorkspaceId, tab, recordCount, graph, settings.activeTab, location.search, navigate]);
+
+  const changeTab = (next: ViewTab) => {
+    if (!workspace) return;
+    navigate({ pathname: workspacePath(workspace.id, next), search: location.search });
+    const updated = { ...settings, activeTab: next };
+    setSettings(updated);
+    persist(saveSettings(workspace.id, updated));
+  };
+
+  const handleDataParsed = async (parsed: OceanDataset) => {
+    setDataset(parsed);
+    setGraph(null);
+    const updated: WorkspaceSettings = { ...settings, activeTab: 'preview' };
+    setSettings(updated);
+
+    try {
+      const target = workspace ?? await createWorkspace(parsed.sources?.[0]?.fileName ?? 'Untitled workspace');
+      setWorkspace(target);
+      // The upload page is replaced, so going back doesn't land on an empty workspace
+      navigate(workspacePath(target.id, 'preview'), { replace: !workspaceId });
+      persist(saveDataset(target.id, parsed));
+      persist(saveGraph(target.id, null));
+      persist(saveSettings(target.id, updated));
+    } catch {
+      toast.error('Could not save the workspace');
+    }
+  };
+
+  // A graph opened from the upload page; it becomes the workspace's graph, with or without data
+  const handleGraphFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
 
-  const handleDataParsed = (data: CSVData[]) => {
-    setCsvData(data);
-    setActiveTab('preview');
+    readGraphFile(file)
+      .then(async ({ graph: imported, format }) => {
+        const target = workspace ?? await createWorkspace(file.name);
+        setWorkspace(target);
+        setGraph(imported);
+        const updated: WorkspaceSettings = { ...settings, activeTab: 'graph' };
+        setSettings(updated);
+        navigate(workspacePath(target.id, 'graph'), { replace: !workspaceId });
+        persist(saveGraph(target.id, imported));
+        persist(saveSettings(target.id, updated));
+        toast.success(`Opened ${GRAPH_FILE_LABELS[format]} graph with ${imported.nodes.length} nodes`);
+      })
+      .catch((error: Error) => toast.error(`Could not import ${file.name}: ${error.message}`));
   };
 
+  const handleGraphChange = useCallback((updated: KnowledgeGraphData) => {
+    setGraph(updated);
+    if (workspace) persist(saveGraph(workspace.id, updated));
+  }, [workspace, persist]);
+
+  const handleSavedQueriesChange = (savedQueries: SavedQuery[]) => {
+    const updated = { ...settings, savedQueries };
+    setSettings(updated);
+    if (workspace) persist(saveSettings(workspace.id, updated));
+  };
+
+  const handleMessagesChange = useCallback((messages: ChatMessage[]) => {
+    setChat(messages);
+    if (workspace) persist(saveChat(workspace.id, messages));
+  }, [workspace, persist]);
+
   const handleGenerateKnowledgeGraph = () => {
     setShowKnowledgeGraph(true);
-    setActiveTab('graph');
+    changeTab('graph');
   };
 
   const tabs = [
     { id: 'upload' as const, label: 'Upload Data', icon: Upload, disabled: false },
-    { id: 'preview' as const, label: 'Data Preview', icon: Database, disabled: csvData.length === 0 },
-    { id: 'graph' as const, label: 'Knowledge Graph', icon: Network, disabled: csvData.length === 0 },
-    { id: 'chat' as const, label: 'AI Assistant', icon: MessageSquare, disabled: csvData.length === 0 },
+    { id: 'preview' as const, label: 'Data Preview', icon: Database, disabled: recordCount === 0 },
+    { id: 'map' as const, label: 'Map', icon: MapPin, disabled: recordCount === 0 },
+    { id: 'graph' as const, label: 'Knowledge Graph', icon: Network, disabled: recordCount === 0 && !graph },
+    { id: 'chat' as const, label: 'AI Assistant', icon: MessageSquare, disabled: recordCount === 0 },
   ];
 
   return (
@@ -94,7 +243,7 @@ const Index = () => {
               return (
                 <Button
                   key={tab.id}
-                  onClick={() => !tab.disabled && setActiveTab(tab.id)}
+                  onClick={() => !tab.disabled && changeTab(tab.id)}
                   variant={activeTab === tab.id ? "default" : "ghost"}
                   disabled={tab.disabled}
                   className={`flex-1 min-w-fit transition-smooth ${
@@ -107,9 +256,9 @@ const Index = () => {
                 >
                   <Icon className="w-4 h-4 mr-2" />
                   {tab.label}
-                  {tab.id === 'preview' && csvData.length > 0 && (
+                  {tab.id === 'preview' && recordCount > 0 && (
                     <Badge variant="secondary" className="ml-2 bg-accent text-accent-foreground">
-                      {csvData.length}
+                      {recordCount}
                     </Badge>
                   )}
                 </Button>
@@ -122,38 +271,105 @@ const Index = () => {
         <div className="space-y-6">
           {activeTab === 'upload' && (
             <div className="max-w-2xl mx-auto">
-              <CSVUpload onDataParsed={handleDataParsed} />
+              <CSVUpload onDataParsed={handleDataParsed} currentDataset={dataset} />
+
+              <div className="mt-4 flex items-center justify-center gap-1 text-sm text-muted-foreground">
+                <span>Have an exported knowledge graph?</span>
+                <input
+                  ref={graphInputRef}
+                  type="file"
+                  accept={GRAPH_FILE_ACCEPT}
+                  className="hidden"
+                  onChange={handleGraphFile}
+                />
+                <Button variant="link" size="sm" className="px-1" onClick={() => graphInputRef.current?.click()}>
+                  <FileUp className="w-4 h-4 mr-1" />
+                  Open JSON, JSON-LD or GraphML
+                </Button>
+              </div>
+
+              <div className="mt-6">
+                <WorkspaceManager
+                  current={workspace}
+                  onOpen={id => navigate(workspacePath(id))}
+                  onNew={() => navigate('/upload')}
+                  onRenamed={setWorkspace}
+                  onDeleted={id => id === workspace?.id && navigate('/upload', { replace: true })}
+                />
+              </div>
               
-              {csvData.length === 0 && (
+              {recordCount === 0 && (
                 <div className="mt-8 text-center">
                   <h3 className="text-lg font-semibold text-foreground mb-4">Expected CSV Format</h3>
                   <div className="p-4 bg-muted/30 rounded-lg border border-border text-left">
                     <p className="text-sm text-muted-foreground mb-2">Required columns:</p>
                     <div className="grid grid-cols-2 gap-1 text-xs font-mono">
-                      <span>latitude, longitude, region</span>
-                      <span>depth, salinity, temperature</span>
-                      <span>ph, dissolved_oxygen</span>
-                      <span>fish_population, plankton</span>
-                      <span>coral_coverage</span>
-                      <span>timestamp, date</span>
+                      {CORE_COLUMNS.map(column => (
+                        <span key={column.name} title={formatColumnLabel(column)}>
+                          {column.name} <span className="text-muted-foreground">· {column.role}</span>
+                        </span>
+                      ))}
                     </div>
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Extra numeric columns (e.g. nitrate, chlorophyll) are picked up automatically.
+                      Argo profile and trajectory NetCDF files (.nc) are also accepted.
+                    </p>
                   </div>
                 </div>
               )}
             </div>
           )}
 
-          {activeTab === 'preview' && csvData.length > 0 && (
-            <DataPreview data={csvData} onGenerateKnowledgeGraph={handleGenerateKnowledgeGraph} />
+          {activeTab !== 'upload' && recordCount > 0 && (
+            <ViewFilterBar
+              dataset={dataset}
+              filters={filters}
+              matchingCount={visibleDataset.records.length}
+              onChange={setFilters}
+            />
+          )}
+
+          {activeTab === 'preview' && recordCount > 0 && (
+            <>
+              <DataPreview
+                dataset={visibleDataset}
+                onGenerateKnowledgeGraph={handleGenerateKnowledgeGraph}
+                highlightedRecord={highlightedRecord}
+              />
+              <ProfilePanel
+                dataset={visibleDataset}
+                highlightedRecord={highlightedRecord}
+                onSelectRecord={setHighlightedRecord}
+              />
+              <TimeSeriesPanel dataset={visibleDataset} />
+              <StatisticsPanel dataset={visibleDataset} />
+              <CorrelationPanel dataset={visibleDataset} />
+            </>
+          )}
+
+          {activeTab === 'map' && recordCount > 0 && (
+            <StationMap dataset={mapDataset} area={filters.area} onAreaChange={area => setFilters({ area })} />
           )}
 
-          {activeTab === 'graph' && csvData.length > 0 && (
-            <KnowledgeGraph data={csvData} />
+          {/* A filtered graph is derived on the fly; only the full graph is saved */}
+          {activeTab === 'graph' && (recordCount > 0 || graph) && (
+            <KnowledgeGraph
+              key={`${filters.region}|${filters.month}|${searchArea}|${loadedWorkspaceId}`}
+              dataset={visibleDataset ?? NO_DATA}
+              savedGraph={filtersActive ? null : graph}
+              onGraphChange={filtersActive ? undefined : handleGraphChange}
+              selectedNodeId={selectedNodeId}
+              onSelectNode={setSelectedNodeId}
+              zoom={zoom}
+              onZoomChange={setZoom}
+              savedQueries={settings.savedQueries ?? []}
+              onSavedQueriesChange={handleSavedQueriesChange}
+            />
           )}
 
-          {activeTab === 'chat' && csvData.length > 0 && (
+          {activeTab === 'chat' && recordCount > 0 && (
             <div className="max-w-4xl mx-auto">
-              <ChatInterface data={csvData} />
+              <ChatInterface dataset={visibleDataset} savedMessages={chat} onMessagesChange={handleMessagesChange} />
             </div>
           )}
         </div>
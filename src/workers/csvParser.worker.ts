@@ -0,0 +1,72 @@
+import Papa from 'papaparse';
+import { ColumnSchema, describeColumns } from '@/lib/dataset';
+import { applyMapping } from '@/lib/columnMapping';
+import { ColumnarBuilder, createColumnarBuilder, transferablesOf } from '@/lib/columnar';
+import { emptyReport, malformedRows, mergeReports, validateRows } from '@/lib/validation';
+import { ParseMessage, ParseRequest } from '@/lib/csvStream';
+
+// Bytes handed to each chunk callback; small enough for frequent progress updates.
+const CHUNK_SIZE = 1024 * 1024;
+
+const post = (message: ParseMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<ParseRequest>) => {
+  const { file, mapping } = event.data;
+  let columns: ColumnSchema[] = [];
+  let builder: ColumnarBuilder | null = null;
+  let report = emptyReport();
+  // Papa reads the file in slices of CHUNK_SIZE bytes, one per chunk callback;
+  // its cursor counts characters, which differ from bytes outside ASCII
+  let chunks = 0;
+
+  Papa.parse<Record<string, unknown>>(file, {
+    header: true,
+    skipEmptyLines: true,
+    chunkSize: CHUNK_SIZE,
+    chunk: results => {
+      chunks++;
+      const rows = mapping ? applyMapping(results.data, mapping.mapping, mapping.extraColumns) : results.data;
+      if (rows.length === 0) return;
+
+      // The schema is fixed by the first chunk; later cells that don't fit are flagged by validation
+      if (!builder) {
+        columns = describeColumns(rows);
+        builder = createColumnarBuilder(columns);
+      }
+
+      // Ragged rows are kept as parsed and listed in the report, where they can be dropped
+      const offset = report.rowCount;
+      report = mergeReports(report, validateRows(rows, columns, offset));
+      if (results.errors.length > 0) {
+        // Field count errors number rows from the start of the file; quote errors
+        // count from the start of the chunk, header line included in the first
+        const errors = results.errors.map(error => (
+          error.type === 'FieldMismatch' || error.row === undefined ? error : { ...error, row: offset + error.row - (offset === 0 ? 1 : 0) }
+        ));
+        report = mergeReports(report, malformedRows(errors));
+      }
+      rows.forEach(builder.append);
+
+      post({
+        type: 'progress',
+        bytesRead: Math.min(chunks * CHUNK_SIZE, file.size),
+        totalBytes: file.size,
+        rows: report.rowCount,
+        issues: report.issueCount,
+      });
+    },
+    complete: () => {
+      if (!builder) {
+        post({ type: 'error', message: 'CSV file is empty' });
+        return;
+      }
+      const table = builder.finish();
+      post({ type: 'done', table, report }, transferablesOf(table));
+    },
+    error: error => {
+      post({ type: 'error', message: `CSV parsing error: ${error.message}` });
+    },
+  });
+};
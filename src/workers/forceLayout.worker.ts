@@ -0,0 +1,43 @@
+import * as d3 from 'd3';
+import { LayoutLink, LayoutMessage, LayoutNode, LayoutRequest, createForceSimulation } from '@/lib/forceLayout';
+
+let nodes: LayoutNode[] = [];
+let simulation: d3.Simulation<LayoutNode, LayoutLink> | null = null;
+
+const post = (message: LayoutMessage, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+const postPositions = () => {
+  const positions = new Float32Array(nodes.length * 2);
+  nodes.forEach((node, i) => {
+    positions[2 * i] = node.x ?? 0;
+    positions[2 * i + 1] = node.y ?? 0;
+  });
+  post({ type: 'tick', positions }, [positions.buffer]);
+};
+
+self.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'start':
+      simulation?.stop();
+      nodes = request.nodes;
+      simulation = createForceSimulation(nodes, request.links as LayoutLink[], request.width, request.height)
+        .on('tick', postPositions)
+        .on('end', () => post({ type: 'end' }));
+      break;
+    case 'drag': {
+      const node = nodes[request.index];
+      if (!simulation || !node) return;
+      // Same as the SVG drag: pin the node and keep the layout warm while it moves
+      if (simulation.alphaTarget() === 0) simulation.alphaTarget(0.3).restart();
+      node.fx = request.x;
+      node.fy = request.y;
+      break;
+    }
+    case 'drop':
+      simulation?.alphaTarget(0);
+      break;
+  }
+};